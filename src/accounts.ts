@@ -0,0 +1,282 @@
+import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { AccountConfig, config, logger } from './env.js';
+import { TradingSimulatorClient } from './api-client.js';
+import { isErrorResponse } from './errors.js';
+
+// A named team account
+export interface AccountProfile {
+  name: string;
+  apiKey: string;
+  apiUrl: string;
+}
+
+// One account's row in compare_accounts
+export interface AccountComparison {
+  account: string;
+  teamId?: string;
+  teamName?: string;
+  totalValue?: number;
+  tokenCount?: number;
+  rank?: number | null;            // null when the team is not on the leaderboard
+  leaderboardSize?: number;
+  active?: boolean;
+  error?: string;
+}
+
+// Name of the account built from TRADING_SIM_API_KEY and TRADING_SIM_API_URL
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
+/**
+ * Mask an API key for display, keeping the last four characters
+ */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length > 8 ? `****${apiKey.slice(-4)}` : '****';
+}
+
+/**
+ * Resolve account entries to profiles, skipping invalid entries
+ *
+ * @param entries Entries from the config file or the accounts file
+ * @param source Where the entries came from, for error messages
+ * @param errors Receives a message for each invalid entry
+ */
+function resolveAccounts(entries: AccountConfig[], source: string, errors: string[]): AccountProfile[] {
+  const profiles: AccountProfile[] = [];
+  entries.forEach((entry, i) => {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+      errors.push(`Account ${i} in ${source} needs a name`);
+      return;
+    }
+    const apiKey = entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : entry.apiKey;
+    if (!apiKey) {
+      errors.push(`Account "${entry.name}" in ${source} has no API key${entry.apiKeyEnv ? ` (${entry.apiKeyEnv} is not set)` : ''}`);
+      return;
+    }
+    profiles.push({ name: entry.name.trim(), apiKey, apiUrl: entry.apiUrl || config.TRADING_SIM_API_URL });
+  });
+  return profiles;
+}
+
+/**
+ * Read account profiles from a JSON file
+ *
+ * @param filePath The accounts file
+ * @param errors Receives a message if the file is unreadable or invalid
+ */
+function loadAccountsFile(filePath: string, errors: string[]): AccountProfile[] {
+  let entries: AccountConfig[];
+  try {
+    entries = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    errors.push(`Failed to read accounts file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    errors.push(`Accounts file ${filePath} must contain an array of { "name", "apiKey" | "apiKeyEnv", "apiUrl" } entries`);
+    return [];
+  }
+  return resolveAccounts(entries, filePath, errors);
+}
+
+/**
+ * Account registry
+ *
+ * Holds the named account profiles with one API client each (so caches and
+ * rate limits stay per account), and tracks which account the current tool
+ * call runs as. Code that runs outside a tool call, such as background
+ * order watchers, selects the account explicitly with run().
+ *
+ * Invalid account settings don't throw on construction (the registry is
+ * built on import); they are skipped and reported by getErrors(), which
+ * startup validation lists with the other configuration errors.
+ */
+export class AccountRegistry {
+  private readonly profiles = new Map<string, AccountProfile>();
+  private readonly clients = new Map<string, TradingSimulatorClient>();
+  private readonly context = new AsyncLocalStorage<string>();
+  private readonly errors: string[] = [];
+  private readonly defaultAccount: string;
+
+  /**
+   * Create a new account registry
+   *
+   * @param profiles Account profiles (defaults to TRADING_SIM_API_KEY, accounts.profiles in the config file and TRADING_SIM_ACCOUNTS_FILE)
+   * @param defaultAccount Account used when none is selected
+   */
+  constructor(profiles?: AccountProfile[], defaultAccount: string | undefined = config.TRADING_SIM_DEFAULT_ACCOUNT) {
+    const all = profiles ?? [
+      ...(config.TRADING_SIM_API_KEY
+        ? [{ name: DEFAULT_ACCOUNT_NAME, apiKey: config.TRADING_SIM_API_KEY, apiUrl: config.TRADING_SIM_API_URL }]
+        : []),
+      ...resolveAccounts(config.TRADING_SIM_ACCOUNTS ?? [], 'the config file', this.errors),
+      ...(config.TRADING_SIM_ACCOUNTS_FILE ? loadAccountsFile(config.TRADING_SIM_ACCOUNTS_FILE, this.errors) : [])
+    ];
+
+    for (const profile of all) {
+      if (this.profiles.has(profile.name)) {
+        this.errors.push(`Account "${profile.name}" is defined more than once`);
+        continue;
+      }
+      this.profiles.set(profile.name, profile);
+    }
+
+    // Without any key, keep a default account so calls fail with the usual missing-key error
+    if (this.profiles.size === 0) {
+      this.profiles.set(DEFAULT_ACCOUNT_NAME, { name: DEFAULT_ACCOUNT_NAME, apiKey: '', apiUrl: config.TRADING_SIM_API_URL });
+    }
+
+    const fallback = this.profiles.has(DEFAULT_ACCOUNT_NAME) ? DEFAULT_ACCOUNT_NAME : [...this.profiles.keys()][0];
+    if (defaultAccount !== undefined && !this.profiles.has(defaultAccount)) {
+      this.errors.push(`Default account "${defaultAccount}" is not defined (accounts: ${this.names().join(', ')})`);
+    }
+    this.defaultAccount = defaultAccount !== undefined && this.profiles.has(defaultAccount) ? defaultAccount : fallback;
+  }
+
+  /**
+   * Problems found in the account settings (invalid entries are skipped)
+   */
+  getErrors(): string[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Names of all accounts
+   */
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Whether an account exists
+   */
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  /**
+   * Name of the default account
+   */
+  getDefault(): string {
+    return this.defaultAccount;
+  }
+
+  /**
+   * Account selected for the current call (the default outside run())
+   */
+  current(): string {
+    return this.context.getStore() ?? this.defaultAccount;
+  }
+
+  /**
+   * Account profiles with masked keys
+   */
+  list(): { name: string; apiUrl: string; apiKey: string; default: boolean }[] {
+    return [...this.profiles.values()].map((profile) => ({
+      name: profile.name,
+      apiUrl: profile.apiUrl,
+      apiKey: maskApiKey(profile.apiKey),
+      default: profile.name === this.defaultAccount
+    }));
+  }
+
+  /**
+   * Run a function as an account
+   *
+   * @param name The account (undefined keeps the current account)
+   * @param fn The function to run
+   */
+  run<T>(name: string | undefined, fn: () => T): T {
+    if (name !== undefined && !this.profiles.has(name)) {
+      throw new Error(`Unknown account "${name}". Available accounts: ${this.names().join(', ')}`);
+    }
+    return this.context.run(name ?? this.current(), fn);
+  }
+
+  /**
+   * API client for an account, created on first use
+   *
+   * @param name The account (defaults to the current account)
+   */
+  client(name: string = this.current()): TradingSimulatorClient {
+    let client = this.clients.get(name);
+    if (!client) {
+      const profile = this.profiles.get(name);
+      if (!profile) {
+        throw new Error(`Unknown account "${name}". Available accounts: ${this.names().join(', ')}`);
+      }
+      client = new TradingSimulatorClient(profile.apiKey, profile.apiUrl);
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+}
+
+// Export a pre-configured account registry
+export const accounts = new AccountRegistry();
+
+if (accounts.names().length > 1 && accounts.getErrors().length === 0) {
+  logger.info(`Loaded accounts: ${accounts.names().join(', ')} (default: ${accounts.getDefault()})`);
+}
+
+// Export a client that sends every request as the current account
+export const tradingClient: TradingSimulatorClient = new Proxy({} as TradingSimulatorClient, {
+  get(_target, property) {
+    const client = accounts.client();
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
+  }
+});
+
+/**
+ * Compare the portfolios and leaderboard ranks of several accounts
+ *
+ * Each account is read with its own key; an account that fails is reported
+ * with its error instead of failing the comparison.
+ *
+ * @param names Accounts to compare (defaults to all)
+ * @param competitionId Optional competition for the leaderboard (defaults to the active one)
+ * @returns Accounts sorted by portfolio value, highest first
+ */
+export async function compareAccounts(
+  names: string[] = accounts.names(),
+  competitionId?: string
+): Promise<{ success: true; competition: { id: string; name: string } | null; accounts: AccountComparison[] }> {
+  const unknown = names.filter((name) => !accounts.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown account(s): ${unknown.join(', ')}. Available accounts: ${accounts.names().join(', ')}`);
+  }
+
+  let competition: { id: string; name: string } | null = null;
+  const rows = await Promise.all([...new Set(names)].map((name) => accounts.run(name, async (): Promise<AccountComparison> => {
+    const [portfolio, leaderboard] = await Promise.all([
+      tradingClient.getPortfolio(),
+      tradingClient.getLeaderboard(competitionId)
+    ]);
+    if (isErrorResponse(portfolio)) {
+      return { account: name, error: portfolio.error };
+    }
+
+    const row: AccountComparison = {
+      account: name,
+      teamId: portfolio.teamId,
+      totalValue: portfolio.totalValue,
+      tokenCount: portfolio.tokens.length
+    };
+    if (isErrorResponse(leaderboard)) {
+      row.error = `Leaderboard unavailable: ${leaderboard.error}`;
+      return row;
+    }
+
+    competition = competition ?? { id: leaderboard.competition.id, name: leaderboard.competition.name };
+    const entry = leaderboard.leaderboard.find((e) => e.teamId === portfolio.teamId);
+    row.teamName = entry?.teamName;
+    row.rank = entry ? entry.rank : null;
+    row.leaderboardSize = leaderboard.leaderboard.length;
+    row.active = entry?.active;
+    return row;
+  })));
+
+  rows.sort((a, b) => (b.totalValue ?? -Infinity) - (a.totalValue ?? -Infinity));
+  return { success: true, competition, accounts: rows };
+}
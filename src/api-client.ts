@@ -1,4 +1,9 @@
+import { randomUUID } from 'crypto';
 import { config, logger } from './env.js';
+import { Logger } from './logger.js';
+import { RateLimiter, parseRateLimits, sleep } from './rate-limiter.js';
+import { ResponseCache } from './response-cache.js';
+import { isErrorResponse } from './errors.js';
 import {
   BlockchainType,
   SpecificChain,
@@ -8,6 +13,7 @@ import {
   BalancesResponse,
   PortfolioResponse,
   TradeHistoryResponse,
+  TradeTransaction,
   PriceResponse,
   TokenInfoResponse,
   PriceHistoryResponse,
@@ -16,7 +22,6 @@ import {
   CompetitionStatusResponse,
   LeaderboardResponse,
   CompetitionRulesResponse,
-  COMMON_TOKENS,
   TeamProfileResponse,
   HealthCheckResponse,
   DetailedHealthCheckResponse,
@@ -25,6 +30,9 @@ import {
   ErrorResponse,
 } from './types.js';
 
+// Competition rules, which carry the API's rate limits
+const RULES_PATH = '/api/competition/rules';
+
 /**
  * Trading Simulator API Client
  * 
@@ -34,23 +42,30 @@ import {
 export class TradingSimulatorClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
-  private debug: boolean;
+  private readonly timeoutMs: number = config.TRADING_SIM_REQUEST_TIMEOUT_MS;
+  private readonly maxRetries: number = config.TRADING_SIM_MAX_RETRIES;
+  private readonly retryBaseDelayMs: number = config.TRADING_SIM_RETRY_BASE_DELAY_MS;
+  private readonly retryMaxDelayMs: number = config.TRADING_SIM_RETRY_MAX_DELAY_MS;
+  private readonly rateLimiter = new RateLimiter(
+    config.TRADING_SIM_RATE_LIMIT_PER_MINUTE ? { global: config.TRADING_SIM_RATE_LIMIT_PER_MINUTE } : {}
+  );
+  private readonly cache = new ResponseCache();
+  private rateLimitsLoaded: Promise<void> | null = null;
 
   /**
    * Create a new instance of the Trading Simulator client
    * 
    * @param apiKey The API key for your team
    * @param baseUrl The base URL of the Trading Simulator API
-   * @param debug Whether to enable debug logging
    */
   constructor(
     apiKey?: string | undefined,
-    baseUrl: string = config.TRADING_SIM_API_URL,
-    debug: boolean = config.DEBUG
+    baseUrl: string = config.TRADING_SIM_API_URL
   ) {
     // Trim the API key to avoid whitespace issues (if provided)
     const providedKey = apiKey || config.TRADING_SIM_API_KEY;
     this.apiKey = providedKey ? providedKey.trim() : '';
+    logger.addSecret(this.apiKey);
     
     // Check for empty API key but don't throw - this allows client creation
     // but will fail on actual API calls
@@ -60,48 +75,28 @@ export class TradingSimulatorClient {
 
     // Normalize the base URL to ensure no trailing slash
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-    this.debug = debug;
   }
 
   /**
    * Generate the required headers for API authentication
    * 
+   * @param requestId Correlation id sent as X-Request-Id
    * @returns An object containing the required headers
    */
-  private generateHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
+  private generateHeaders(requestId: string): Record<string, string> {
+    return {
       'Authorization': `Bearer ${this.apiKey}`,
       'Content-Type': 'application/json',
-      'User-Agent': 'TradingSimMCP/1.0'
+      'User-Agent': 'TradingSimMCP/1.0',
+      'X-Request-Id': requestId
     };
-
-    if (this.debug) {
-      logger.info('[ApiClient] Request headers:');
-      logger.info('[ApiClient] Authorization: Bearer xxxxx... (masked)');
-      logger.info('[ApiClient] Content-Type:', headers['Content-Type']);
-    }
-
-    return headers;
-  }
-
-  /**
-   * Type guard to check if response is an ErrorResponse
-   */
-  private isErrorResponse(response: any): response is ErrorResponse {
-    return (
-      response !== null &&
-      typeof response === 'object' &&
-      response.success === false &&
-      'error' in response &&
-      'status' in response
-    );
   }
 
   /**
    * Helper method to handle API errors consistently
    */
-  private handleApiError(error: any, operation: string): ErrorResponse {
-    logger.error(`Failed to ${operation}:`, error);
+  private handleApiError(error: any, operation: string, log: Logger = logger): ErrorResponse {
+    log.error(`Failed to ${operation}:`, error);
 
     // Handle fetch error responses
     if (error instanceof Error) {
@@ -122,9 +117,73 @@ export class TradingSimulatorClient {
     };
   }
 
+  /**
+   * Compute the delay before a retry using exponential backoff with full jitter
+   * 
+   * @param attempt The zero-based attempt that just failed
+   * @returns The delay in milliseconds
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  /**
+   * Parse a Retry-After header (delta seconds or HTTP date)
+   * 
+   * @returns The delay in milliseconds or null if absent or invalid
+   */
+  private parseRetryAfter(header: string | null): number | null {
+    if (!header) {
+      return null;
+    }
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Apply client-side rate limits (in requests per minute by category)
+   * 
+   * @param rateLimits The `rateLimits` strings from the competition rules
+   */
+  public applyRateLimits(rateLimits: string[]): void {
+    const limits = parseRateLimits(rateLimits);
+    if (config.TRADING_SIM_RATE_LIMIT_PER_MINUTE) {
+      limits.global = Math.min(limits.global ?? Infinity, config.TRADING_SIM_RATE_LIMIT_PER_MINUTE);
+    }
+    this.rateLimiter.configure(limits);
+
+    logger.debug('[ApiClient] Rate limits (per minute):', limits);
+  }
+
+  /**
+   * Load the competition's rate limits, once, before the first other request
+   *
+   * If the rules can't be loaded, requests run under TRADING_SIM_RATE_LIMIT_PER_MINUTE
+   * alone until a later get_rules call succeeds.
+   */
+  private loadRateLimits(): Promise<void> {
+    this.rateLimitsLoaded ??= this.getRules().then((response) => {
+      if (isErrorResponse(response)) {
+        logger.warn(`[ApiClient] Could not load the competition rate limits: ${response.error}`);
+      }
+    });
+    return this.rateLimitsLoaded;
+  }
+
   /**
    * Make a request to the API
    * 
+   * Requests time out after TRADING_SIM_REQUEST_TIMEOUT_MS. Idempotent requests
+   * (GET/PUT) are retried with backoff on network errors and 5xx responses; any
+   * request is retried on 429, since the server did not process it. POSTs such
+   * as trade execution are never retried after a network error or 5xx, because
+   * the trade may already have been executed.
+   * 
    * @param method The HTTP method
    * @param path The API endpoint path
    * @param body The request body (if any)
@@ -138,26 +197,71 @@ export class TradingSimulatorClient {
   ): Promise<T | ErrorResponse> {
     const url = `${this.baseUrl}${path}`;
     const bodyString = body ? JSON.stringify(body) : undefined;
-    const headers = this.generateHeaders();
+    const requestId = randomUUID().slice(0, 8);
+    const headers = this.generateHeaders(requestId);
+    const idempotent = ['GET', 'PUT'].includes(method.toUpperCase());
+    // Every line about this request carries its correlation id
+    const log = logger.child({ requestId });
+    const startedAt = Date.now();
   
-    const options: RequestInit = {
-      method: method.toUpperCase(),
-      headers,
-      body: bodyString,
-    };
+    log.debug(`[ApiClient] ${method} ${url}`);
+    log.trace('[ApiClient] Body:', body ?? 'none');
   
-    if (this.debug) {
-      logger.info('[ApiClient] Request details:');
-      logger.info('[ApiClient] Method:', method);
-      logger.info('[ApiClient] URL:', url);
-      logger.info('[ApiClient] Body:', body ? JSON.stringify(body, null, 2) : 'none');
+    if (path !== RULES_PATH) {
+      await this.loadRateLimits();
     }
-  
-    try {
-      const response = await fetch(url, options);
-      const responseText = await response.text();
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.maxRetries;
+      await this.rateLimiter.acquire(path);
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      const options: RequestInit = {
+        method: method.toUpperCase(),
+        headers,
+        body: bodyString,
+        signal: controller.signal,
+      };
+
+      let response: Response;
+      let responseText: string;
+      try {
+        response = await fetch(url, options);
+        responseText = await response.text();
+      } catch (networkError) {
+        const timedOut = controller.signal.aborted;
+        if (idempotent && canRetry) {
+          const delay = this.backoffDelay(attempt);
+          log.warn(`[ApiClient] ${timedOut ? 'Timeout' : 'Network error'} on ${operation}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+          await sleep(delay);
+          continue;
+        }
+        if (timedOut) {
+          log.error(`Failed to ${operation}: request timed out after ${this.timeoutMs}ms`);
+          return {
+            success: false,
+            error: `Request timed out after ${this.timeoutMs}ms`,
+            status: 408
+          };
+        }
+        return this.handleApiError(networkError, operation, log);
+      } finally {
+        clearTimeout(timer);
+      }
       
       if (!response.ok) {
+        const retryable = response.status === 429 || (idempotent && response.status >= 500);
+        if (retryable && canRetry) {
+          const retryAfter = response.status === 429 ? this.parseRetryAfter(response.headers.get('Retry-After')) : null;
+          if (retryAfter === null || retryAfter <= this.retryMaxDelayMs) {
+            const delay = retryAfter ?? this.backoffDelay(attempt);
+            log.warn(`[ApiClient] ${operation} failed with status ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+            await sleep(delay);
+            continue;
+          }
+        }
+
         let errorMessage = `API request failed with status ${response.status}`;
         
         if (responseText.trim()) {
@@ -169,6 +273,7 @@ export class TradingSimulatorClient {
           }
         }
         
+        log.debug(`[ApiClient] ${method} ${path} failed with status ${response.status} in ${Date.now() - startedAt}ms: ${errorMessage}`);
         return {
           success: false,
           error: errorMessage,
@@ -176,6 +281,8 @@ export class TradingSimulatorClient {
         };
       }
   
+      log.debug(`[ApiClient] ${method} ${path} returned ${response.status} in ${Date.now() - startedAt}ms`);
+      log.trace('[ApiClient] Response:', responseText);
       try {
         const data = JSON.parse(responseText);
         return data as T;
@@ -186,10 +293,35 @@ export class TradingSimulatorClient {
           status: 500
         };
       }
-    } catch (networkError) {
-      return this.handleApiError(networkError, operation);
     }
-  }  
+  }
+
+  /**
+   * Make a GET request through the response cache
+   * 
+   * @param path The API endpoint path (also used as the cache key)
+   * @param ttlMs Time to live for the cached response
+   * @param operation Description of the operation for error logging
+   * @param bypassCache Skip the cache and fetch a fresh response
+   * @returns A promise that resolves to the API response or an error response
+   */
+  private async cachedGet<T extends ApiResponse>(
+    path: string,
+    ttlMs: number,
+    operation: string,
+    bypassCache: boolean
+  ): Promise<T | ErrorResponse> {
+    return this.cache.getOrLoad<T>(path, ttlMs, bypassCache, () =>
+      this.request<T>('GET', path, null, operation)
+    );
+  }
+
+  /**
+   * Clear all cached responses
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
 
   /**
    * Detect blockchain type from token address format
@@ -252,28 +384,30 @@ export class TradingSimulatorClient {
   /**
    * Get your team's token balances across all supported chains
    * 
+   * @param bypassCache Skip the response cache and fetch fresh balances
    * @returns Balance information including tokens on all chains or error response
    */
-  async getBalances(): Promise<BalancesResponse | ErrorResponse> {
-    return this.request<BalancesResponse>(
-      'GET', 
+  async getBalances(bypassCache: boolean = false): Promise<BalancesResponse | ErrorResponse> {
+    return this.cachedGet<BalancesResponse>(
       '/api/account/balances',
-      null,
-      'get balances'
+      config.TRADING_SIM_CACHE_ACCOUNT_TTL_MS,
+      'get balances',
+      bypassCache
     );
   }
 
   /**
    * Get your team's portfolio information
    * 
+   * @param bypassCache Skip the response cache and fetch a fresh portfolio
    * @returns Portfolio information including positions and total value or error response
    */
-  async getPortfolio(): Promise<PortfolioResponse | ErrorResponse> {
-    return this.request<PortfolioResponse>(
-      'GET', 
+  async getPortfolio(bypassCache: boolean = false): Promise<PortfolioResponse | ErrorResponse> {
+    return this.cachedGet<PortfolioResponse>(
       '/api/account/portfolio',
-      null,
-      'get portfolio'
+      config.TRADING_SIM_CACHE_ACCOUNT_TTL_MS,
+      'get portfolio',
+      bypassCache
     );
   }
 
@@ -321,18 +455,67 @@ export class TradingSimulatorClient {
     );
   }
 
+  /**
+   * Get the full trade history by walking every page
+   *
+   * @param options Optional token/chain filters and page settings
+   * @returns All matching trades (de-duplicated by id) or the first error response
+   */
+  async getAllTrades(options: {
+    token?: string;
+    chain?: BlockchainType;
+    pageSize?: number;
+    maxPages?: number;
+  } = {}): Promise<TradeHistoryResponse | ErrorResponse> {
+    const pageSize = options.pageSize ?? 100;
+    const maxPages = options.maxPages ?? 1000;
+    const trades = new Map<string, TradeTransaction>();
+    let teamId = '';
+
+    for (let page = 0; page < maxPages; page++) {
+      const response = await this.getTradeHistory({
+        limit: pageSize,
+        offset: page * pageSize,
+        token: options.token,
+        chain: options.chain
+      });
+
+      if (isErrorResponse(response)) {
+        return response;
+      }
+
+      teamId = response.teamId;
+      // Trades placed while paging shift the offsets, so the same trade can appear twice
+      for (const trade of response.trades) {
+        trades.set(trade.id, trade);
+      }
+
+      if (response.trades.length < pageSize) {
+        break;
+      }
+
+      if (page === maxPages - 1) {
+        logger.warn(`[TradingSimulatorClient] Stopped after ${maxPages} pages of trade history`);
+      }
+    }
+
+    return { success: true, teamId, trades: [...trades.values()] };
+  }
+
   /**
    * Get the current price for a token
    * 
    * @param token The token address to get the price for
    * @param chain Optional blockchain type (auto-detected if not provided)
    * @param specificChain Optional specific chain for EVM tokens (like eth, polygon, base, etc.)
+   * @param bypassCache Skip the response cache and fetch a fresh price
    * @returns A promise that resolves to the price response or error response
    */
   async getPrice(
     token: string,
     chain?: BlockchainType,
-    specificChain?: SpecificChain
+    specificChain?: SpecificChain,
+    bypassCache: boolean = false
   ): Promise<PriceResponse | ErrorResponse> {
     const params = new URLSearchParams();
     params.append('token', token);
@@ -340,11 +523,11 @@ export class TradingSimulatorClient {
     if (chain) params.append('chain', chain);
     if (specificChain) params.append('specificChain', specificChain);
     
-    return this.request<PriceResponse>(
-      'GET', 
+    return this.cachedGet<PriceResponse>(
       `/api/price?${params.toString()}`,
-      null,
-      'get token price'
+      config.TRADING_SIM_CACHE_PRICE_TTL_MS,
+      'get token price',
+      bypassCache
     );
   }
 
@@ -354,12 +537,14 @@ export class TradingSimulatorClient {
    * @param token The token address
    * @param chain Optional blockchain type (auto-detected if not provided)
    * @param specificChain Optional specific chain for EVM tokens
+   * @param bypassCache Skip the response cache and fetch fresh token info
    * @returns A promise that resolves to the token info response or error response
    */
   async getTokenInfo(
     token: string,
     chain?: BlockchainType,
-    specificChain?: SpecificChain
+    specificChain?: SpecificChain,
+    bypassCache: boolean = false
   ): Promise<TokenInfoResponse | ErrorResponse> {
     const params = new URLSearchParams();
     params.append('token', token);
@@ -367,11 +552,11 @@ export class TradingSimulatorClient {
     if (chain) params.append('chain', chain);
     if (specificChain) params.append('specificChain', specificChain);
     
-    return this.request<TokenInfoResponse>(
-      'GET', 
+    return this.cachedGet<TokenInfoResponse>(
       `/api/price/token-info?${params.toString()}`,
-      null,
-      'get token info'
+      config.TRADING_SIM_CACHE_TOKEN_INFO_TTL_MS,
+      'get token info',
+      bypassCache
     );
   }
 
@@ -421,42 +606,6 @@ export class TradingSimulatorClient {
     );
   }
 
-  /**
-   * Find token chain information from common tokens
-   * 
-   * @param token The token address
-   * @returns Chain information or null if not found
-   */
-  private findTokenChainInfo(token: string): { chain: BlockchainType, specificChain: SpecificChain } | null {
-    // Check SVM tokens
-    for (const chainType in COMMON_TOKENS.SVM) {
-      const tokens = COMMON_TOKENS.SVM[chainType as keyof typeof COMMON_TOKENS.SVM];
-      for (const symbolKey in tokens) {
-        if (tokens[symbolKey as keyof typeof tokens] === token) {
-          return {
-            chain: BlockchainType.SVM,
-            specificChain: SpecificChain.SVM
-          };
-        }
-      }
-    }
-    
-    // Check EVM tokens
-    for (const network in COMMON_TOKENS.EVM) {
-      const tokens = COMMON_TOKENS.EVM[network as keyof typeof COMMON_TOKENS.EVM];
-      for (const symbolKey in tokens) {
-        if (tokens[symbolKey as keyof typeof tokens] === token) {
-          return {
-            chain: BlockchainType.EVM,
-            specificChain: network as unknown as SpecificChain
-          };
-        }
-      }
-    }
-    
-    return null;
-  }
-
   /**
    * Execute a trade between two tokens
    * 
@@ -464,16 +613,19 @@ export class TradingSimulatorClient {
    * @returns A promise that resolves to the trade response or error response
    */
   async executeTrade(params: TradeParams): Promise<TradeResponse | ErrorResponse> {
-    if (this.debug) {
-      logger.info('[ApiClient] executeTrade called with params:', JSON.stringify(params, null, 2));
-    }
+    logger.debug('[ApiClient] executeTrade called with params:', params);
 
-    return this.request<TradeResponse>(
+    const response = await this.request<TradeResponse>(
       'POST',
       '/api/trade/execute',
       params,
       'execute trade'
     );
+
+    // Balances and portfolio are stale after any trade attempt, even a failed one
+    this.cache.invalidate('/api/account/');
+
+    return response;
   }
 
   /**
@@ -563,15 +715,23 @@ export class TradingSimulatorClient {
   /**
    * Get competition rules
    * 
+   * @param bypassCache Skip the response cache and fetch fresh rules
    * @returns A promise that resolves to the competition rules response or error response
    */
-  async getRules(): Promise<CompetitionRulesResponse | ErrorResponse> {
-    return this.request<CompetitionRulesResponse>(
-      'GET',
-      '/api/competition/rules',
-      null,
-      'get competition rules'
+  async getRules(bypassCache: boolean = false): Promise<CompetitionRulesResponse | ErrorResponse> {
+    const response = await this.cachedGet<CompetitionRulesResponse>(
+      RULES_PATH,
+      config.TRADING_SIM_CACHE_RULES_TTL_MS,
+      'get competition rules',
+      bypassCache
     );
+
+    // Keep the client-side rate limiter in line with the competition's limits
+    if (response.success && 'rules' in response && !response.cache?.hit && response.rules.rateLimits?.length) {
+      this.applyRateLimits(response.rules.rateLimits);
+    }
+
+    return response;
   }
 
   /**
@@ -602,6 +762,3 @@ export class TradingSimulatorClient {
     );
   }
 }
-
-// Export a pre-configured instance of the client
-export const tradingClient = new TradingSimulatorClient(); 
\ No newline at end of file
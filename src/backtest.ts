@@ -0,0 +1,286 @@
+import { tradingClient } from './accounts.js';
+import { isErrorResponse } from './errors.js';
+import { priceSeriesCache } from './price-series-cache.js';
+import { IndicatorPeriods, IndicatorSeries, IndicatorSeriesName, computeIndicators } from './indicators.js';
+import { PerformancePeriod, computePerformance } from './performance.js';
+import { ErrorResponse, PriceHistoryParams } from './types.js';
+
+// Comparison used by a strategy rule
+export type RuleOperator = '>' | '<' | '>=' | '<=' | 'crosses_above' | 'crosses_below';
+
+// A single entry or exit rule: an indicator compared with a number or another indicator
+export interface StrategyRule {
+  indicator: IndicatorSeriesName;
+  operator: RuleOperator;
+  value?: number;
+  compareTo?: IndicatorSeriesName;
+}
+
+// Strategy specification for a backtest
+export interface BacktestSpec {
+  history: PriceHistoryParams;          // Token, chain, interval and time range
+  entry: StrategyRule[];                // Enter when every rule holds
+  exit?: StrategyRule[];                // Exit when any rule holds
+  periods?: Partial<IndicatorPeriods>;
+  positionSizePercent?: number;         // % of cash spent on each entry (default 100)
+  startingCash?: number;                // USD (default 10000)
+  startingTokenAmount?: number;         // Tokens held at the start, valued at the first price
+  stopLossPercent?: number;             // Exit when price falls this % below the entry fill
+  takeProfitPercent?: number;           // Exit when price rises this % above the entry fill
+  slippagePercentPer10k?: number;       // Overrides the slippage parsed from the competition rules
+  refresh?: boolean;                    // Refetch the price series instead of using the local cache
+}
+
+// A simulated fill
+export interface BacktestFill {
+  timestamp: string;
+  side: 'buy' | 'sell';
+  price: number;
+  fillPrice: number;
+  amount: number;
+  usdValue: number;
+  slippagePercent: number;
+  reason: string;
+}
+
+// Slippage model used for fills
+export interface SlippageModel {
+  percentPer10kUsd: number;
+  maxPercent: number | null;
+  source: 'rules' | 'override' | 'default';
+  formula?: string;
+}
+
+// Slippage used when the competition rules cannot be read or parsed (0.05% per $10k)
+const DEFAULT_SLIPPAGE_PERCENT_PER_10K = 0.05;
+
+// Maximum number of equity curve points returned
+const MAX_EQUITY_POINTS = 200;
+
+/**
+ * Parse the slippage rate from the competition's slippageFormula text
+ *
+ * Understands "(tradeAmountUSD / 10000) * 0.05%" and "0.5% per $10,000"
+ * styles, with an optional "min(5%, ...)" cap.
+ */
+export function parseSlippageFormula(formula: string): Omit<SlippageModel, 'source'> | null {
+  const match =
+    formula.match(/\/\s*10,?000\s*\)?\s*\*\s*([\d.]+)\s*%/) ??
+    formula.match(/([\d.]+)\s*%\s*per\s*\$?\s*10,?000/i);
+  if (!match) {
+    return null;
+  }
+  const cap = formula.match(/min\(\s*([\d.]+)\s*%/i);
+  return {
+    percentPer10kUsd: Number(match[1]),
+    maxPercent: cap ? Number(cap[1]) : null,
+    formula
+  };
+}
+
+/**
+ * Build the slippage model from an override or the competition rules
+ */
+async function slippageModel(override?: number): Promise<SlippageModel> {
+  if (override !== undefined) {
+    return { percentPer10kUsd: override, maxPercent: null, source: 'override' };
+  }
+
+  const rules = await tradingClient.getRules();
+  const formula = isErrorResponse(rules) ? undefined : rules.rules?.slippageFormula;
+  const parsed = formula ? parseSlippageFormula(formula) : null;
+  return parsed
+    ? { ...parsed, source: 'rules' }
+    : { percentPer10kUsd: DEFAULT_SLIPPAGE_PERCENT_PER_10K, maxPercent: null, source: 'default', formula };
+}
+
+/**
+ * Slippage fraction for a trade of the given USD value
+ */
+function slippageFor(model: SlippageModel, usdValue: number): number {
+  const percent = (usdValue / 10000) * model.percentPer10kUsd;
+  return Math.min(model.maxPercent ?? 100, percent) / 100;
+}
+
+/**
+ * Evaluate a rule at a point in the series
+ */
+function ruleHolds(rule: StrategyRule, series: IndicatorSeries, i: number): boolean {
+  const left = series[rule.indicator];
+  const right = (index: number) => (rule.compareTo ? series[rule.compareTo]?.[index] ?? null : rule.value ?? null);
+  if (!left || left[i] === null || right(i) === null) {
+    return false;
+  }
+
+  const a = left[i]!;
+  const b = right(i)!;
+  switch (rule.operator) {
+    case '>': return a > b;
+    case '<': return a < b;
+    case '>=': return a >= b;
+    case '<=': return a <= b;
+    case 'crosses_above':
+    case 'crosses_below': {
+      if (i === 0 || left[i - 1] === null || right(i - 1) === null) return false;
+      const previous = left[i - 1]! - right(i - 1)!;
+      return rule.operator === 'crosses_above' ? previous <= 0 && a > b : previous >= 0 && a < b;
+    }
+  }
+}
+
+/**
+ * Describe a rule for fill reasons
+ */
+function describeRule(rule: StrategyRule): string {
+  return `${rule.indicator} ${rule.operator} ${rule.compareTo ?? rule.value}`;
+}
+
+/**
+ * Round a USD value or percentage for display
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Run a long-only backtest of a rule-based strategy over the price history
+ *
+ * Signals are evaluated at each price point using only data up to that
+ * point, and filled at that price with slippage applied.
+ *
+ * @param spec The strategy specification
+ * @returns Fills, equity curve and summary metrics, or an error response
+ */
+export async function runBacktest(spec: BacktestSpec): Promise<Record<string, unknown> | ErrorResponse> {
+  if (spec.entry.length === 0) {
+    throw new Error('A backtest needs at least one entry rule');
+  }
+  for (const rule of [...spec.entry, ...(spec.exit ?? [])]) {
+    if (rule.value === undefined && rule.compareTo === undefined) {
+      throw new Error(`Rule "${rule.indicator} ${rule.operator}" needs a value or compareTo`);
+    }
+  }
+
+  const [series, model] = await Promise.all([
+    priceSeriesCache.get(spec.history, spec.refresh),
+    slippageModel(spec.slippagePercentPer10k)
+  ]);
+  if (isErrorResponse(series)) {
+    return series;
+  }
+
+  const history = [...series.history].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  if (history.length < 2) {
+    throw new Error(`Not enough price points for a backtest (${history.length} found). Widen the time range or use a shorter interval.`);
+  }
+
+  const indicators = computeIndicators(history, undefined, spec.periods);
+  const sizing = Math.min(100, Math.max(0, spec.positionSizePercent ?? 100)) / 100;
+  const startingCash = spec.startingCash ?? 10000;
+
+  let cash = startingCash;
+  let tokens = spec.startingTokenAmount ?? 0;
+  let entryPrice: number | null = tokens > 0 ? history[0].price : null;
+  const fills: BacktestFill[] = [];
+  const roundTrips: { returnPercent: number }[] = [];
+  const equity: { timestamp: string; totalValue: number }[] = [];
+
+  const sell = (i: number, reason: string) => {
+    const price = history[i].price;
+    const gross = tokens * price;
+    const slippage = slippageFor(model, gross);
+    const proceeds = gross * (1 - slippage);
+    fills.push({
+      timestamp: history[i].timestamp,
+      side: 'sell',
+      price,
+      fillPrice: proceeds / tokens,
+      amount: tokens,
+      usdValue: round(proceeds),
+      slippagePercent: Number((slippage * 100).toFixed(4)),
+      reason
+    });
+    if (entryPrice) {
+      roundTrips.push({ returnPercent: (proceeds / tokens / entryPrice - 1) * 100 });
+    }
+    cash += proceeds;
+    tokens = 0;
+    entryPrice = null;
+  };
+
+  for (let i = 0; i < history.length; i++) {
+    const price = history[i].price;
+
+    if (tokens > 0 && entryPrice) {
+      const change = (price / entryPrice - 1) * 100;
+      const exitRule = (spec.exit ?? []).find((rule) => ruleHolds(rule, indicators, i));
+      if (spec.stopLossPercent !== undefined && change <= -spec.stopLossPercent) {
+        sell(i, `stop loss (${round(change)}%)`);
+      } else if (spec.takeProfitPercent !== undefined && change >= spec.takeProfitPercent) {
+        sell(i, `take profit (${round(change)}%)`);
+      } else if (exitRule) {
+        sell(i, `exit: ${describeRule(exitRule)}`);
+      }
+    } else if (cash > 0 && spec.entry.every((rule) => ruleHolds(rule, indicators, i))) {
+      const spend = cash * sizing;
+      const slippage = slippageFor(model, spend);
+      const bought = (spend * (1 - slippage)) / price;
+      if (bought > 0) {
+        fills.push({
+          timestamp: history[i].timestamp,
+          side: 'buy',
+          price,
+          fillPrice: spend / bought,
+          amount: bought,
+          usdValue: round(spend),
+          slippagePercent: Number((slippage * 100).toFixed(4)),
+          reason: `entry: ${spec.entry.map(describeRule).join(' and ')}`
+        });
+        cash -= spend;
+        tokens += bought;
+        entryPrice = spend / bought;
+      }
+    }
+
+    equity.push({ timestamp: history[i].timestamp, totalValue: cash + tokens * price });
+  }
+
+  const startValue = startingCash + (spec.startingTokenAmount ?? 0) * history[0].price;
+  const interval = spec.history.interval ?? '1h';
+  const period: PerformancePeriod = interval === '4h' || interval === '1d' ? interval : '1h';
+  const performance = computePerformance(equity, period);
+  const wins = roundTrips.filter((trip) => trip.returnPercent > 0).length;
+  const step = Math.ceil(equity.length / MAX_EQUITY_POINTS);
+
+  return {
+    success: true,
+    token: series.token,
+    chain: series.chain,
+    specificChain: series.specificChain,
+    interval: series.interval,
+    window: { start: history[0].timestamp, end: history[history.length - 1].timestamp, points: history.length },
+    priceSeriesCached: series.cached,
+    slippageModel: model,
+    summary: {
+      startValue: round(startValue),
+      endValue: round(equity[equity.length - 1].totalValue),
+      returnPercent: round((equity[equity.length - 1].totalValue / startValue - 1) * 100),
+      buyAndHoldReturnPercent: round((history[history.length - 1].price / history[0].price - 1) * 100),
+      fills: fills.length,
+      roundTrips: roundTrips.length,
+      winRatePercent: roundTrips.length > 0 ? round((wins / roundTrips.length) * 100) : null,
+      averageTradeReturnPercent: roundTrips.length > 0
+        ? round(roundTrips.reduce((sum, trip) => sum + trip.returnPercent, 0) / roundTrips.length)
+        : null,
+      openPosition: tokens > 0 ? { amount: tokens, entryPrice } : null,
+      maxDrawdown: performance?.maxDrawdown ?? null,
+      annualizedVolatilityPercent: performance?.annualizedVolatilityPercent ?? null,
+      sharpeRatio: performance?.sharpeRatio ?? null,
+      sortinoRatio: performance?.sortinoRatio ?? null
+    },
+    fills,
+    equityCurve: equity
+      .filter((_, i) => i % step === 0 || i === equity.length - 1)
+      .map((point) => ({ timestamp: point.timestamp, totalValue: round(point.totalValue) }))
+  };
+}
@@ -0,0 +1,223 @@
+import { config } from './env.js';
+import { tradingClient } from './accounts.js';
+import { tokenRegistry } from './token-registry.js';
+import { classifyError, isErrorResponse } from './errors.js';
+import { BlockchainType, ErrorKind, ErrorResponse, QuoteResponse, SpecificChain } from './types.js';
+
+// A token to price, as accepted by get_prices
+export interface PriceRequest {
+  token: string;
+  chain?: BlockchainType;
+  specificChain?: SpecificChain;
+}
+
+// A trade leg to quote, as accepted by get_quotes
+export interface QuoteRequest {
+  fromToken: string;
+  toToken: string;
+  amount: string;
+  fromChain?: BlockchainType;
+  toChain?: BlockchainType;
+  fromSpecificChain?: SpecificChain;
+  toSpecificChain?: SpecificChain;
+}
+
+// Per-item failure, classified the same way as a failed tool call
+export interface BatchItemError {
+  success: false;
+  error: string;
+  kind: ErrorKind;
+  retryable: boolean;
+}
+
+// Price of one token in a batch
+export interface BatchPriceItem {
+  success: true;
+  token: string;
+  chain?: BlockchainType;
+  specificChain?: string | null;
+  symbol?: string;
+  price: number | null;
+  amount?: number;           // Held amount (holdings mode only)
+  value?: number | null;     // amount * price (holdings mode only)
+}
+
+// Combined result of a batch request
+export interface BatchResponse<T> {
+  success: true;
+  count: number;
+  succeeded: number;
+  failed: number;
+  results: ({ index: number; request: unknown } & (T | BatchItemError))[];
+  totalValue?: number;       // Sum of position values (holdings mode only)
+}
+
+/**
+ * Map items with at most `limit` calls in flight, preserving input order
+ *
+ * @param items The inputs
+ * @param limit Maximum number of concurrent calls
+ * @param fn The async mapping function
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Turn a thrown error or API error response into a per-item error
+ */
+function itemError(error: unknown): BatchItemError {
+  if (isErrorResponse(error)) {
+    const { error: message, kind, retryable } = classifyError(error);
+    return { success: false, error: message, kind, retryable };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { success: false, error: message, kind: ErrorKind.BAD_REQUEST, retryable: false };
+}
+
+/**
+ * Combine per-item results into a batch response
+ */
+function combine<T extends { success: boolean }>(requests: unknown[], items: (T | BatchItemError)[]): BatchResponse<T> {
+  const failed = items.filter((item) => !item.success).length;
+  return {
+    success: true,
+    count: items.length,
+    succeeded: items.length - failed,
+    failed,
+    results: items.map((item, index) => ({ index, request: requests[index], ...item }))
+  };
+}
+
+/**
+ * Fetch prices for several tokens concurrently
+ *
+ * @param requests Tokens (addresses or symbols) with optional chain hints
+ * @param bypassCache Skip the response cache
+ * @returns One result per token, with errors reported per item
+ */
+export async function getPrices(requests: PriceRequest[], bypassCache: boolean = false): Promise<BatchResponse<BatchPriceItem>> {
+  const items = await mapWithConcurrency(requests, config.TRADING_SIM_BATCH_CONCURRENCY, async (request) => {
+    try {
+      const resolved = tokenRegistry.resolve(request.token, { chain: request.chain, specificChain: request.specificChain });
+      const response = await tradingClient.getPrice(
+        resolved.address,
+        request.chain ?? resolved.chain,
+        request.specificChain ?? resolved.specificChain,
+        bypassCache
+      );
+      if (isErrorResponse(response)) {
+        return itemError(response);
+      }
+      return {
+        success: true as const,
+        token: response.token,
+        chain: response.chain,
+        specificChain: response.specificChain,
+        symbol: resolved.symbol,
+        price: response.price
+      };
+    } catch (error) {
+      return itemError(error);
+    }
+  });
+
+  return combine(requests, items);
+}
+
+/**
+ * Price every token with a non-zero balance
+ *
+ * @param bypassCache Skip the response cache
+ * @returns One result per held token with its value and the total value, or the balances error
+ */
+export async function getHoldingPrices(bypassCache: boolean = false): Promise<BatchResponse<BatchPriceItem> | ErrorResponse> {
+  const balances = await tradingClient.getBalances(bypassCache);
+  if (isErrorResponse(balances)) {
+    return balances;
+  }
+
+  const held = balances.balances.filter((balance) => balance.amount > 0);
+  const items = await mapWithConcurrency(held, config.TRADING_SIM_BATCH_CONCURRENCY, async (balance) => {
+    try {
+      const response = await tradingClient.getPrice(
+        balance.token,
+        balance.chain,
+        balance.specificChain ?? undefined,
+        bypassCache
+      );
+      if (isErrorResponse(response)) {
+        return itemError(response);
+      }
+      return {
+        success: true as const,
+        token: balance.token,
+        chain: balance.chain,
+        specificChain: balance.specificChain,
+        symbol: tokenRegistry.findByAddress(balance.token, { specificChain: balance.specificChain ?? undefined })?.symbol,
+        price: response.price,
+        amount: balance.amount,
+        value: response.price === null ? null : balance.amount * response.price
+      };
+    } catch (error) {
+      return itemError(error);
+    }
+  });
+
+  const result = combine(held.map((balance) => ({ token: balance.token, specificChain: balance.specificChain })), items);
+  result.totalValue = items.reduce((sum, item) => sum + (item.success && item.value ? item.value : 0), 0);
+  return result;
+}
+
+/**
+ * Slippage in percent implied by a quote: the shortfall of toAmount against
+ * the amount the quoted token prices alone would give
+ */
+export function quotedSlippagePercent(quote: QuoteResponse): number {
+  const expected = (quote.fromAmount * quote.prices.fromToken) / quote.prices.toToken;
+  return expected > 0 ? Math.max(0, (1 - quote.toAmount / expected) * 100) : 0;
+}
+
+/**
+ * Fetch quotes for several trade legs concurrently
+ *
+ * @param requests The trade legs
+ * @returns One result per leg, with errors reported per item
+ */
+export async function getQuotes(requests: QuoteRequest[]): Promise<BatchResponse<QuoteResponse>> {
+  const items = await mapWithConcurrency(requests, config.TRADING_SIM_BATCH_CONCURRENCY, async (request) => {
+    try {
+      const from = tokenRegistry.resolve(request.fromToken, { chain: request.fromChain, specificChain: request.fromSpecificChain });
+      const to = tokenRegistry.resolve(request.toToken, { chain: request.toChain, specificChain: request.toSpecificChain });
+      const response = await tradingClient.getQuote(
+        from.address,
+        to.address,
+        request.amount,
+        request.fromChain ?? from.chain,
+        request.toChain ?? to.chain,
+        request.fromSpecificChain ?? from.specificChain,
+        request.toSpecificChain ?? to.specificChain
+      );
+      return isErrorResponse(response) ? itemError(response) : response;
+    } catch (error) {
+      return itemError(error);
+    }
+  });
+
+  return combine(requests, items);
+}
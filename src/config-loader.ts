@@ -0,0 +1,492 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonSchema, ObjectSchema, schema, validateSchema } from './json-schema.js';
+import { LOG_FORMATS, LOG_LEVELS } from './logger.js';
+import { ResponseFormat } from './types.js';
+import type { Config } from './env.js';
+
+// Layer a setting's effective value came from, lowest precedence first
+export type ConfigSource = 'default' | 'file' | 'env' | 'flag';
+
+// One configurable setting
+interface SettingDefinition {
+  key: keyof Config;
+  path: string;                      // Location in the config file, e.g. "risk.maxTradePct" (also names the CLI flag)
+  schema: JsonSchema;
+  default?: unknown;
+  defaultFrom?: (values: Partial<Record<keyof Config, unknown>>) => unknown;   // Default derived from earlier settings
+  fileOnly?: boolean;                // Only settable in the config file
+  isPath?: boolean;                  // Relative paths in the config file are resolved against its directory
+  offValue?: string;                 // Value that turns the setting off (stored as null)
+  secret?: boolean;                  // Redacted by get_server_config
+}
+
+// Result of loading the configuration
+export interface LoadedConfig {
+  values: Record<keyof Config, unknown>;
+  sources: Record<keyof Config, ConfigSource>;
+  file: string | null;
+  errors: string[];
+}
+
+const ACCOUNT_SCHEMA = {
+  ...schema.object({
+    name: schema.string('Account name', { minLength: 1 }),
+    apiKey: schema.string('API key'),
+    apiKeyEnv: schema.string('Environment variable holding the API key'),
+    apiUrl: schema.string('API base URL (default: api.url)')
+  }, ['name']),
+  additionalProperties: false
+};
+
+const milliseconds = (description: string) => schema.integer(description, { minimum: 0 });
+const percent = (description: string) => schema.number(description, { minimum: 0 });
+
+// Every setting, in resolution order (derived defaults depend on earlier settings)
+const SETTINGS: SettingDefinition[] = [
+  { key: 'TRADING_SIM_API_URL', path: 'api.url', schema: schema.string('Trading Simulator API base URL', { minLength: 1 }), default: 'http://localhost:3000' },
+  { key: 'TRADING_SIM_API_KEY', path: 'api.key', schema: schema.string('Team API key'), secret: true },
+  { key: 'TRADING_SIM_REQUEST_TIMEOUT_MS', path: 'api.requestTimeoutMs', schema: schema.integer('Request timeout', { minimum: 1 }), default: 10000 },
+  { key: 'TRADING_SIM_MAX_RETRIES', path: 'api.maxRetries', schema: schema.integer('Retries for failed requests', { minimum: 0 }), default: 3 },
+  { key: 'TRADING_SIM_RETRY_BASE_DELAY_MS', path: 'api.retryBaseDelayMs', schema: milliseconds('Base retry backoff'), default: 500 },
+  { key: 'TRADING_SIM_RETRY_MAX_DELAY_MS', path: 'api.retryMaxDelayMs', schema: milliseconds('Maximum retry backoff'), default: 30000 },
+  { key: 'TRADING_SIM_RATE_LIMIT_PER_MINUTE', path: 'api.rateLimitPerMinute', schema: schema.number('Client-side request cap per minute', { minimum: 1 }) },
+  { key: 'TRADING_SIM_BATCH_CONCURRENCY', path: 'api.batchConcurrency', schema: schema.integer('Concurrent requests for batch tools', { minimum: 1 }), default: 4 },
+
+  { key: 'TRADING_SIM_ACCOUNTS', path: 'accounts.profiles', schema: schema.array(ACCOUNT_SCHEMA, 'Account profiles'), fileOnly: true, secret: true },
+  { key: 'TRADING_SIM_ACCOUNTS_FILE', path: 'accounts.file', schema: schema.string('JSON file with account profiles'), isPath: true },
+  { key: 'TRADING_SIM_DEFAULT_ACCOUNT', path: 'accounts.default', schema: schema.string('Account used when a call names none', { minLength: 1 }) },
+
+  { key: 'TRADING_SIM_TOKENS_FILE', path: 'tokens.file', schema: schema.string('JSON file with extra token symbols'), isPath: true },
+
+  { key: 'TRADING_SIM_CACHE_PRICE_TTL_MS', path: 'cache.priceTtlMs', schema: milliseconds('Price cache TTL'), default: 10000 },
+  { key: 'TRADING_SIM_CACHE_TOKEN_INFO_TTL_MS', path: 'cache.tokenInfoTtlMs', schema: milliseconds('Token info cache TTL'), default: 60000 },
+  { key: 'TRADING_SIM_CACHE_RULES_TTL_MS', path: 'cache.rulesTtlMs', schema: milliseconds('Competition rules cache TTL'), default: 300000 },
+  { key: 'TRADING_SIM_CACHE_ACCOUNT_TTL_MS', path: 'cache.accountTtlMs', schema: milliseconds('Balances and portfolio cache TTL'), default: 5000 },
+
+  { key: 'TRADING_SIM_RISK_MAX_TRADE_PCT', path: 'risk.maxTradePct', schema: percent('Max trade value as % of portfolio') },
+  { key: 'TRADING_SIM_RISK_MAX_TOKEN_PCT', path: 'risk.maxTokenPct', schema: percent('Max destination token value as % of portfolio') },
+  { key: 'TRADING_SIM_RISK_MAX_CHAIN_PCT', path: 'risk.maxChainPct', schema: percent('Max destination chain value as % of portfolio') },
+  { key: 'TRADING_SIM_RISK_ALLOWED_TOKENS', path: 'risk.allowedTokens', schema: schema.array(schema.string('Token'), 'Allowed destination tokens') },
+  { key: 'TRADING_SIM_RISK_DENIED_TOKENS', path: 'risk.deniedTokens', schema: schema.array(schema.string('Token'), 'Denied destination tokens') },
+  { key: 'TRADING_SIM_RISK_MIN_USDC_RESERVE', path: 'risk.minUsdcReserve', schema: schema.number('USDC to keep after a trade', { minimum: 0 }) },
+  { key: 'TRADING_SIM_RISK_MAX_DAILY_TRADES', path: 'risk.maxDailyTrades', schema: schema.integer('Max trades per UTC day', { minimum: 0 }) },
+  { key: 'TRADING_SIM_DRY_RUN', path: 'dryRun', schema: schema.boolean('Simulate every trade by default'), default: false },
+
+  { key: 'TRADING_SIM_DATA_DIR', path: 'data.dir', schema: schema.string('Directory for local data', { minLength: 1 }), isPath: true, default: path.join(os.homedir(), '.trading-simulator-mcp') },
+  { key: 'TRADING_SIM_SNAPSHOT_INTERVAL_MS', path: 'data.snapshotIntervalMs', schema: milliseconds('Portfolio snapshot interval (0 disables)'), default: 300000 },
+  {
+    key: 'TRADING_SIM_JOURNAL_FILE', path: 'data.journalFile', schema: schema.string('Audit journal file ("off" disables it)', { minLength: 1 }), isPath: true, offValue: 'off',
+    defaultFrom: (values) => path.join(values.TRADING_SIM_DATA_DIR as string, 'journal.jsonl')
+  },
+  {
+    key: 'TRADING_SIM_EXPORT_DIR', path: 'data.exportDir', schema: schema.string('Directory for export_trades files', { minLength: 1 }), isPath: true,
+    defaultFrom: (values) => path.join(values.TRADING_SIM_DATA_DIR as string, 'exports')
+  },
+  { key: 'TRADING_SIM_ORDER_POLL_INTERVAL_MS', path: 'orders.pollIntervalMs', schema: milliseconds('Conditional order price polling interval (0 disables)'), default: 15000 },
+
+  { key: 'TRADING_SIM_TRANSPORT', path: 'transport.type', schema: schema.enum(['stdio', 'sse'] as const, 'MCP transport'), default: 'stdio' },
+  { key: 'TRADING_SIM_HTTP_HOST', path: 'transport.host', schema: schema.string('Bind address for the sse transport', { minLength: 1 }), default: '127.0.0.1' },
+  { key: 'TRADING_SIM_HTTP_PORT', path: 'transport.port', schema: schema.integer('Port for the sse transport', { minimum: 0, maximum: 65535 }), default: 3001 },
+  { key: 'TRADING_SIM_HTTP_AUTH_TOKEN', path: 'transport.authToken', schema: schema.string('Bearer token for the sse transport'), secret: true },
+
+  { key: 'TRADING_SIM_OUTPUT_FORMAT', path: 'output.format', schema: schema.enum(Object.values(ResponseFormat), 'Default tool response format'), default: ResponseFormat.JSON },
+
+  { key: 'TRADING_SIM_LOG_LEVEL', path: 'logging.level', schema: schema.enum(LOG_LEVELS, 'Minimum log level'), default: 'info' },
+  { key: 'TRADING_SIM_LOG_FORMAT', path: 'logging.format', schema: schema.enum(LOG_FORMATS, 'Log format'), default: 'text' },
+  { key: 'TRADING_SIM_LOG_FILE', path: 'logging.file', schema: schema.string('Log file'), isPath: true },
+  { key: 'TRADING_SIM_LOG_FILE_MAX_BYTES', path: 'logging.fileMaxBytes', schema: schema.integer('Log file rotation size', { minimum: 1 }), default: 10 * 1024 * 1024 },
+  { key: 'TRADING_SIM_LOG_FILE_MAX_FILES', path: 'logging.fileMaxFiles', schema: schema.integer('Rotated log files to keep', { minimum: 0 }), default: 5 }
+];
+
+// Environment variable and CLI flag naming the config file
+const CONFIG_FILE_ENV = 'TRADING_SIM_CONFIG_FILE';
+const CONFIG_FILE_FLAG = '--config';
+
+/**
+ * CLI flag for a setting, e.g. risk.maxTradePct -> --risk-max-trade-pct
+ */
+function flagName(setting: SettingDefinition): string {
+  return `--${setting.path.replace(/\./g, '-').replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * Read a dotted path from a parsed config file
+ */
+function getPath(record: Record<string, unknown>, dotted: string): unknown {
+  let value: unknown = record;
+  for (const part of dotted.split('.')) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Build the config file schema from the settings table
+ */
+function configFileSchema(): ObjectSchema {
+  const root: ObjectSchema = { type: 'object', properties: {}, additionalProperties: false };
+  for (const setting of SETTINGS) {
+    const parts = setting.path.split('.');
+    let node = root;
+    for (const part of parts.slice(0, -1)) {
+      node.properties[part] = node.properties[part] ?? { type: 'object', properties: {}, additionalProperties: false };
+      node = node.properties[part] as ObjectSchema;
+    }
+    node.properties[parts[parts.length - 1]] = setting.schema;
+  }
+  return root;
+}
+
+/**
+ * Convert an environment variable or CLI flag string to the setting's type
+ *
+ * Values that don't convert are returned unchanged so validation reports them.
+ */
+function coerce(setting: SettingDefinition, raw: string): unknown {
+  const value = raw.trim();
+  switch (setting.schema.type) {
+    case 'number':
+    case 'integer': {
+      const parsed = Number(value);
+      return value !== '' && !Number.isNaN(parsed) ? parsed : raw;
+    }
+    case 'boolean':
+      if (['true', '1', 'yes'].includes(value.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(value.toLowerCase())) return false;
+      return raw;
+    case 'array':
+      return value.split(',').map((item) => item.trim()).filter(Boolean);
+    case 'string':
+      return 'enum' in setting.schema ? value.toLowerCase() : value;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Strip a trailing comment from a YAML line, ignoring # inside quotes
+ */
+function stripYamlComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Split a flow sequence body on commas outside quotes
+ */
+function splitFlowItems(body: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+}
+
+/**
+ * Parse a YAML scalar or single-line flow sequence
+ */
+function parseYamlScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`line ${line}: invalid double-quoted string ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) {
+      throw new Error(`line ${line}: unterminated single-quoted string ${text}`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`line ${line}: flow sequences must close on the same line`);
+    }
+    return splitFlowItems(text.slice(1, -1)).map((item) => parseYamlScalar(item, line));
+  }
+  if (text === '{}') {
+    return {};
+  }
+  if (/^[{&*!|>%@`]/.test(text)) {
+    throw new Error(`line ${line}: unsupported YAML syntax "${text}" (use block mappings and sequences, or a JSON config file)`);
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === 'true';
+  }
+  if (/^(null|~)$/i.test(text)) {
+    return null;
+  }
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Parse the YAML subset used by config files
+ *
+ * Supports block mappings, block sequences (of scalars or mappings), plain and
+ * quoted scalars, single-line [a, b] sequences and comments. Anchors, tags and
+ * multi-line strings are rejected with an error rather than misread.
+ */
+export function parseYaml(text: string): unknown {
+  const lines: { indent: number; text: string; line: number }[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (/^\s*\t/.test(raw)) {
+      throw new Error(`line ${index + 1}: tabs are not allowed for indentation`);
+    }
+    const content = stripYamlComment(raw);
+    if (content.trim() === '' || content.trim() === '---') return;
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), line: index + 1 });
+  });
+
+  let pos = 0;
+  const isItem = (value: string) => value === '-' || value.startsWith('- ');
+  const entryPattern = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^'"\s][^:]*?)\s*:(?:\s+(.*))?$/;
+
+  const parseNode = (): unknown => (isItem(lines[pos].text) ? parseSequence(lines[pos].indent) : parseMapping(lines[pos].indent));
+
+  // A nested block follows if the next line is indented further (or is a sequence item at the same indent)
+  const parseNested = (indent: number, allowSameIndentItems: boolean): unknown => {
+    const next = lines[pos];
+    if (next && (next.indent > indent || (allowSameIndentItems && next.indent === indent && isItem(next.text)))) {
+      return parseNode();
+    }
+    return null;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos].text)) {
+      const current = lines[pos];
+      const rest = current.text.slice(1).trim();
+      if (rest === '') {
+        pos++;
+        items.push(parseNested(indent, false));
+      } else if (entryPattern.test(rest) && !/^["'[]/.test(rest)) {
+        // "- key: value" starts a mapping whose keys line up with "key"
+        lines[pos] = { indent: indent + current.text.indexOf(rest), text: rest, line: current.line };
+        items.push(parseMapping(lines[pos].indent));
+      } else {
+        items.push(parseYamlScalar(rest, current.line));
+        pos++;
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isItem(lines[pos].text)) {
+      const current = lines[pos];
+      const match = entryPattern.exec(current.text);
+      if (!match) {
+        throw new Error(`line ${current.line}: expected "key: value" but found "${current.text}"`);
+      }
+      const key = String(parseYamlScalar(match[1].trim(), current.line));
+      if (key in result) {
+        throw new Error(`line ${current.line}: duplicate key "${key}"`);
+      }
+      pos++;
+      result[key] = match[2] === undefined || match[2].trim() === ''
+        ? parseNested(indent, true)
+        : parseYamlScalar(match[2].trim(), current.line);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) {
+      throw new Error(`line ${lines[pos].line}: unexpected indentation`);
+    }
+    return result;
+  };
+
+  if (lines.length === 0) {
+    return {};
+  }
+  const root = parseNode();
+  if (pos < lines.length) {
+    throw new Error(`line ${lines[pos].line}: unexpected indentation`);
+  }
+  return root;
+}
+
+/**
+ * Read and parse a JSON or YAML config file (by extension)
+ */
+function readConfigFile(filePath: string): unknown {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`cannot be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(text);
+  }
+  if (extension !== '.json') {
+    throw new Error('must end in .json, .yaml or .yml');
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load the configuration from a config file, environment variables and CLI flags
+ *
+ * Each layer overrides the one before it: defaults, then the config file (from
+ * --config or TRADING_SIM_CONFIG_FILE), then environment variables, then CLI
+ * flags such as --risk-max-trade-pct 5. Invalid values are collected in
+ * `errors` and the setting falls back to the layer below, so the caller can
+ * report every problem at once.
+ *
+ * @param argv CLI arguments (without the node and script paths)
+ * @param env Environment variables
+ */
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): LoadedConfig {
+  const errors: string[] = [];
+  const flags = new Map<string, string>();
+  const settingsByFlag = new Map(SETTINGS.filter((s) => !s.fileOnly).map((s) => [flagName(s), s]));
+
+  // Parse --name value, --name=value and bare boolean --name
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      errors.push(`${arg}: unexpected argument (settings are passed as --name value)`);
+      continue;
+    }
+    const [name, inline] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const setting = settingsByFlag.get(name);
+    if (name !== CONFIG_FILE_FLAG && !setting) {
+      errors.push(`${name}: is not a recognized option`);
+      // Skip its value too
+      if (inline === undefined && i + 1 < argv.length && !argv[i + 1].startsWith('--')) i++;
+      continue;
+    }
+    if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (setting?.schema.type === 'boolean' && (i + 1 >= argv.length || argv[i + 1].startsWith('--'))) {
+      flags.set(name, 'true');
+    } else if (i + 1 < argv.length) {
+      flags.set(name, argv[++i]);
+    } else {
+      errors.push(`${name}: needs a value`);
+    }
+  }
+
+  const file = flags.get(CONFIG_FILE_FLAG) || env[CONFIG_FILE_ENV] || null;
+  let fileValues: Record<string, unknown> = {};
+  if (file) {
+    try {
+      const parsed = readConfigFile(file);
+      const fileErrors = validateSchema(configFileSchema(), parsed);
+      errors.push(...fileErrors.map((error) => `config file ${file}: ${error.replace('is not a recognized argument', 'is not a recognized setting')}`));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        fileValues = parsed as Record<string, unknown>;
+      }
+    } catch (error) {
+      errors.push(`config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const values = {} as Record<keyof Config, unknown>;
+  const sources = {} as Record<keyof Config, ConfigSource>;
+
+  for (const setting of SETTINGS) {
+    let value = setting.defaultFrom ? setting.defaultFrom(values) : setting.default;
+    let source: ConfigSource = 'default';
+
+    const fromFile = getPath(fileValues, setting.path);
+    if (fromFile !== undefined && fromFile !== null && validateSchema(setting.schema, fromFile).length === 0) {
+      value = setting.isPath && typeof fromFile === 'string' && fromFile !== setting.offValue && file
+        ? path.resolve(path.dirname(file), fromFile)
+        : fromFile;
+      source = 'file';
+    }
+
+    const layers: [ConfigSource, string, string | undefined][] = setting.fileOnly ? [] : [
+      ['env', setting.key, env[setting.key]],
+      ['flag', flagName(setting), flags.get(flagName(setting))]
+    ];
+    for (const [layer, name, raw] of layers) {
+      if (raw === undefined || raw.trim() === '') continue;
+      const coerced = coerce(setting, raw);
+      const layerErrors = validateSchema(setting.schema, coerced, name);
+      if (layerErrors.length > 0) {
+        errors.push(...layerErrors);
+        continue;
+      }
+      value = coerced;
+      source = layer;
+    }
+
+    values[setting.key] = setting.offValue !== undefined && value === setting.offValue ? null : value;
+    sources[setting.key] = source;
+  }
+
+  return { values, sources, file, errors };
+}
+
+/**
+ * Describe the effective configuration in config file layout, with secrets redacted
+ *
+ * @param loaded The loaded configuration
+ * @param config The effective values (after any adjustments made at startup)
+ */
+export function describeConfig(loaded: LoadedConfig, config: Config): {
+  file: string | null;
+  config: Record<string, unknown>;
+  sources: Record<string, ConfigSource>;
+} {
+  const nested: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+
+  for (const setting of SETTINGS) {
+    let value: unknown = config[setting.key] ?? null;
+    if (setting.secret && value !== null) {
+      value = Array.isArray(value)
+        ? value.map((profile) => ({ ...profile, ...(profile.apiKey ? { apiKey: '[REDACTED]' } : {}) }))
+        : '[REDACTED]';
+    }
+
+    const parts = setting.path.split('.');
+    let node = nested;
+    for (const part of parts.slice(0, -1)) {
+      node = (node[part] = node[part] ?? {}) as Record<string, unknown>;
+    }
+    node[parts[parts.length - 1]] = value;
+    sources[setting.path] = loaded.sources[setting.key];
+  }
+
+  return { file: loaded.file, config: nested, sources };
+}
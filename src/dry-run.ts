@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto';
+import { config, logger } from './env.js';
+import { accounts, tradingClient } from './accounts.js';
+import { sameTokenAddress } from './token-registry.js';
+import { isErrorResponse } from './errors.js';
+import {
+  BalancesResponse,
+  BlockchainType,
+  ErrorResponse,
+  PortfolioResponse,
+  SpecificChain,
+  TokenBalance,
+  TradeParams,
+  TradeResponse,
+  TradeTransaction,
+} from './types.js';
+
+// Simulated trade response returned instead of posting to the API
+export interface DryRunTradeResponse extends TradeResponse {
+  dryRun: true;
+}
+
+// Balances with simulated fills applied
+export interface DryRunBalancesResponse extends BalancesResponse {
+  dryRun: true;
+}
+
+/**
+ * Dry-run simulator
+ *
+ * Fills trades locally from live quotes and keeps a shadow balance sheet
+ * of the simulated deltas, applied on top of the team's real balances.
+ * Each account has its own shadow balance sheet.
+ */
+export class DryRunSimulator {
+  private readonly enabledByDefault: boolean;
+  private readonly ledgers = new Map<string, { deltas: TokenBalance[]; trades: TradeTransaction[] }>();
+
+  /**
+   * Create a new dry-run simulator
+   *
+   * @param enabledByDefault Whether every trade is simulated unless a call opts out
+   */
+  constructor(enabledByDefault: boolean = config.TRADING_SIM_DRY_RUN) {
+    this.enabledByDefault = enabledByDefault;
+  }
+
+  /**
+   * Simulated deltas and trades of the current account
+   */
+  private ledger(): { deltas: TokenBalance[]; trades: TradeTransaction[] } {
+    const account = accounts.current();
+    let ledger = this.ledgers.get(account);
+    if (!ledger) {
+      ledger = { deltas: [], trades: [] };
+      this.ledgers.set(account, ledger);
+    }
+    return ledger;
+  }
+
+  /**
+   * Whether dry-run mode is enabled server-wide
+   */
+  isEnabledByDefault(): boolean {
+    return this.enabledByDefault;
+  }
+
+  /**
+   * Whether a trade should be simulated given an optional per-call override
+   *
+   * @param dryRun Per-call dry-run flag (takes precedence over the server default)
+   */
+  shouldSimulate(dryRun?: boolean): boolean {
+    return dryRun ?? this.enabledByDefault;
+  }
+
+  /**
+   * Whether any simulated fills have been recorded
+   */
+  hasFills(): boolean {
+    return this.ledger().trades.length > 0;
+  }
+
+  /**
+   * Get the simulated trades and balance deltas
+   */
+  getState(): { enabledByDefault: boolean; trades: TradeTransaction[]; deltas: TokenBalance[] } {
+    return {
+      enabledByDefault: this.enabledByDefault,
+      trades: [...this.ledger().trades],
+      deltas: this.ledger().deltas.map((delta) => ({ ...delta }))
+    };
+  }
+
+  /**
+   * Clear the current account's shadow balance sheet and simulated trades
+   */
+  reset(): void {
+    this.ledgers.delete(accounts.current());
+  }
+
+  /**
+   * Check whether a balance entry refers to the given token and chain
+   */
+  private matches(balance: TokenBalance, token: string, specificChain: SpecificChain | null): boolean {
+    return sameTokenAddress(balance.token, token) &&
+      (!balance.specificChain || !specificChain || balance.specificChain === specificChain);
+  }
+
+  /**
+   * Record a simulated balance change
+   */
+  private addDelta(token: string, amount: number, chain: BlockchainType, specificChain: SpecificChain | null): void {
+    const existing = this.ledger().deltas.find((delta) => this.matches(delta, token, specificChain));
+    if (existing) {
+      existing.amount += amount;
+      existing.specificChain = existing.specificChain ?? specificChain;
+    } else {
+      this.ledger().deltas.push({ token, amount, chain, specificChain });
+    }
+  }
+
+  /**
+   * Apply the simulated deltas to a live balances response
+   *
+   * @param balances The live balances
+   * @returns Balances with simulated fills applied
+   */
+  applyToBalances(balances: BalancesResponse): DryRunBalancesResponse {
+    const result = balances.balances.map((balance) => ({ ...balance }));
+
+    for (const delta of this.ledger().deltas) {
+      const balance = result.find((b) => this.matches(b, delta.token, delta.specificChain));
+      if (balance) {
+        balance.amount += delta.amount;
+      } else {
+        result.push({ ...delta });
+      }
+    }
+
+    return { ...balances, balances: result, dryRun: true };
+  }
+
+  /**
+   * Apply the simulated deltas to a live portfolio
+   *
+   * Tokens the live portfolio doesn't hold are valued at their current price.
+   *
+   * @param portfolio The live portfolio
+   * @returns The portfolio with simulated fills applied, or the error of a failed price lookup
+   */
+  async applyToPortfolio(portfolio: PortfolioResponse): Promise<PortfolioResponse | ErrorResponse> {
+    const tokens = portfolio.tokens.map((item) => ({ ...item }));
+
+    for (const delta of this.ledger().deltas) {
+      let item = tokens.find((t) => this.matches(t, delta.token, delta.specificChain));
+      if (!item) {
+        const price = await tradingClient.getPrice(delta.token, delta.chain, delta.specificChain ?? undefined);
+        if (isErrorResponse(price)) {
+          return price;
+        }
+        if (price.price === null) {
+          return { success: false, error: `No price for ${delta.token} to value the dry-run balances`, status: 404 };
+        }
+        item = { token: delta.token, amount: 0, price: price.price, value: 0, chain: delta.chain, specificChain: delta.specificChain };
+        tokens.push(item);
+      }
+      item.amount += delta.amount;
+      item.value = item.amount * item.price;
+    }
+
+    return { ...portfolio, tokens, totalValue: tokens.reduce((sum, item) => sum + item.value, 0) };
+  }
+
+  /**
+   * Simulate a trade from a live quote instead of executing it
+   *
+   * @param params The trade parameters (with chains already resolved)
+   * @returns A synthetic trade response or error response
+   */
+  async simulateTrade(params: TradeParams): Promise<DryRunTradeResponse | ErrorResponse> {
+    const [quote, balances] = await Promise.all([
+      tradingClient.getQuote(
+        params.fromToken,
+        params.toToken,
+        params.amount,
+        params.fromChain,
+        params.toChain,
+        params.fromSpecificChain,
+        params.toSpecificChain
+      ),
+      tradingClient.getBalances()
+    ]);
+
+    if (isErrorResponse(quote)) {
+      return quote;
+    }
+    if (isErrorResponse(balances)) {
+      return balances;
+    }
+
+    const fromSpecificChain = (params.fromSpecificChain ?? quote.fromSpecificChain ?? null) as SpecificChain | null;
+    const toSpecificChain = (params.toSpecificChain ?? quote.toSpecificChain ?? null) as SpecificChain | null;
+
+    const available = this.applyToBalances(balances).balances
+      .filter((b) => this.matches(b, params.fromToken, fromSpecificChain))
+      .reduce((sum, b) => sum + b.amount, 0);
+
+    if (available < quote.fromAmount) {
+      return {
+        success: false,
+        error: `Insufficient balance (dry run): ${available} available, ${quote.fromAmount} required`,
+        status: 400
+      };
+    }
+
+    const transaction: TradeTransaction = {
+      id: `dry-run-${randomUUID()}`,
+      teamId: balances.teamId,
+      competitionId: 'dry-run',
+      fromToken: params.fromToken,
+      toToken: params.toToken,
+      fromAmount: quote.fromAmount,
+      toAmount: quote.toAmount,
+      price: quote.exchangeRate,
+      success: true,
+      reason: params.reason,
+      timestamp: new Date().toISOString(),
+      fromChain: quote.chains.fromChain,
+      toChain: quote.chains.toChain,
+      fromSpecificChain,
+      toSpecificChain
+    };
+
+    this.addDelta(params.fromToken, -quote.fromAmount, quote.chains.fromChain, fromSpecificChain);
+    this.addDelta(params.toToken, quote.toAmount, quote.chains.toChain, toSpecificChain);
+    this.ledger().trades.push(transaction);
+
+    logger.debug('[DryRun] Simulated trade:', transaction);
+
+    return {
+      success: true,
+      message: 'Simulated trade (dry run); nothing was sent to the trading simulator',
+      transaction,
+      dryRun: true
+    };
+  }
+}
+
+// Export a pre-configured instance of the simulator
+export const dryRunSimulator = new DryRunSimulator();
@@ -1,53 +1,123 @@
-import chalk from 'chalk';
+import { LogFormat, LogLevel, logger } from './logger.js';
+import { describeConfig, loadConfig } from './config-loader.js';
+import type { ResponseFormat } from './types.js';
+
+export { logger };
+
+// An account profile from the config file or TRADING_SIM_ACCOUNTS_FILE
+export interface AccountConfig {
+  name: string;
+  apiKey?: string;
+  apiKeyEnv?: string;          // Read the key from this environment variable instead
+  apiUrl?: string;
+}
 
 // Define types for configuration variables
-interface Config {
+export interface Config {
   TRADING_SIM_API_URL: string;
   TRADING_SIM_API_KEY: string | undefined;
-  DEBUG: boolean;
-}
-
-// Define logger interface
-interface Logger {
-  error: (...args: any[]) => void;
-  warn: (...args: any[]) => void;
-  info: (...args: any[]) => void;
+  TRADING_SIM_TOKENS_FILE: string | undefined;
+  TRADING_SIM_RISK_MAX_TRADE_PCT: number | undefined;
+  TRADING_SIM_RISK_MAX_TOKEN_PCT: number | undefined;
+  TRADING_SIM_RISK_MAX_CHAIN_PCT: number | undefined;
+  TRADING_SIM_RISK_ALLOWED_TOKENS: string[] | undefined;
+  TRADING_SIM_RISK_DENIED_TOKENS: string[] | undefined;
+  TRADING_SIM_RISK_MIN_USDC_RESERVE: number | undefined;
+  TRADING_SIM_RISK_MAX_DAILY_TRADES: number | undefined;
+  TRADING_SIM_DRY_RUN: boolean;
+  TRADING_SIM_REQUEST_TIMEOUT_MS: number;
+  TRADING_SIM_MAX_RETRIES: number;
+  TRADING_SIM_RETRY_BASE_DELAY_MS: number;
+  TRADING_SIM_RETRY_MAX_DELAY_MS: number;
+  TRADING_SIM_RATE_LIMIT_PER_MINUTE: number | undefined;
+  TRADING_SIM_CACHE_PRICE_TTL_MS: number;
+  TRADING_SIM_CACHE_TOKEN_INFO_TTL_MS: number;
+  TRADING_SIM_CACHE_RULES_TTL_MS: number;
+  TRADING_SIM_CACHE_ACCOUNT_TTL_MS: number;
+  TRADING_SIM_BATCH_CONCURRENCY: number;
+  TRADING_SIM_DATA_DIR: string;
+  TRADING_SIM_SNAPSHOT_INTERVAL_MS: number;
+  TRADING_SIM_JOURNAL_FILE: string | null;
+  TRADING_SIM_EXPORT_DIR: string;
+  TRADING_SIM_ORDER_POLL_INTERVAL_MS: number;
+  TRADING_SIM_TRANSPORT: 'stdio' | 'sse';
+  TRADING_SIM_HTTP_HOST: string;
+  TRADING_SIM_HTTP_PORT: number;
+  TRADING_SIM_HTTP_AUTH_TOKEN: string | undefined;
+  TRADING_SIM_ACCOUNTS: AccountConfig[] | undefined;
+  TRADING_SIM_ACCOUNTS_FILE: string | undefined;
+  TRADING_SIM_DEFAULT_ACCOUNT: string | undefined;
+  TRADING_SIM_OUTPUT_FORMAT: ResponseFormat;
+  TRADING_SIM_LOG_LEVEL: LogLevel;
+  TRADING_SIM_LOG_FORMAT: LogFormat;
+  TRADING_SIM_LOG_FILE: string | undefined;
+  TRADING_SIM_LOG_FILE_MAX_BYTES: number;
+  TRADING_SIM_LOG_FILE_MAX_FILES: number;
 }
 
-// Custom logger implementation
-export const logger: Logger = {
-  error: (...args: any[]) => process.stderr.write(`${chalk.red('[ERROR]')} ${args.join(' ')}\n`),
-  warn: (...args: any[]) => process.stderr.write(`${chalk.yellow('[WARN]')} ${args.join(' ')}\n`),
-  info: (...args: any[]) => process.stderr.write(`${chalk.blue('[INFO]')} ${args.join(' ')}\n`),
-};
+// Load defaults, then the config file, environment variables and CLI flags
+const loaded = loadConfig(process.argv.slice(2), process.env);
 
 // Export configuration object
-export const config: Config = {
-  TRADING_SIM_API_URL: process.env.TRADING_SIM_API_URL || 'http://localhost:3000',
-  TRADING_SIM_API_KEY: process.env.TRADING_SIM_API_KEY || undefined,
-  DEBUG: process.env.DEBUG === 'true',
-};
+export const config = loaded.values as Config;
+
+// DEBUG=true is still honored as TRADING_SIM_LOG_LEVEL=debug
+if (process.env.DEBUG === 'true' && loaded.sources.TRADING_SIM_LOG_LEVEL === 'default') {
+  config.TRADING_SIM_LOG_LEVEL = 'debug';
+  loaded.sources.TRADING_SIM_LOG_LEVEL = 'env';
+}
 
 // Ensure URL doesn't have trailing slash
 if (config.TRADING_SIM_API_URL.endsWith('/')) {
   config.TRADING_SIM_API_URL = config.TRADING_SIM_API_URL.slice(0, -1);
 }
 
-// Validate environment
-export function validateEnv(): void {
-  const recommendedVars: (keyof Config)[] = ['TRADING_SIM_API_URL', 'DEBUG'];
-  const missing: string[] = recommendedVars.filter((v) => !process.env[v]);
-  if (missing.length > 0) {
-    logger.warn(`Missing recommended variables: ${missing.join(', ')}. Using defaults.`);
+logger.configure({
+  level: config.TRADING_SIM_LOG_LEVEL,
+  format: config.TRADING_SIM_LOG_FORMAT,
+  file: config.TRADING_SIM_LOG_FILE ?? null,
+  fileMaxBytes: config.TRADING_SIM_LOG_FILE_MAX_BYTES,
+  fileMaxFiles: config.TRADING_SIM_LOG_FILE_MAX_FILES
+});
+logger.addSecret(config.TRADING_SIM_API_KEY);
+logger.addSecret(config.TRADING_SIM_HTTP_AUTH_TOKEN);
+for (const account of config.TRADING_SIM_ACCOUNTS ?? []) {
+  logger.addSecret(account.apiKey);
+}
+
+if (process.env.DEBUG === 'true' && !process.env.TRADING_SIM_LOG_LEVEL) {
+  logger.warn('DEBUG is deprecated; set TRADING_SIM_LOG_LEVEL=debug instead');
+}
+
+/**
+ * Validate the configuration, failing fast on any problem
+ *
+ * @param extraErrors Problems found by modules that interpret settings further (e.g. account profiles)
+ * @throws Error listing every invalid setting, or a missing API key
+ */
+export function validateEnv(extraErrors: string[] = []): void {
+  const errors = [...loaded.errors, ...extraErrors];
+  if (!config.TRADING_SIM_API_KEY && !config.TRADING_SIM_ACCOUNTS_FILE && !config.TRADING_SIM_ACCOUNTS?.length) {
+    errors.push('No API key configured: set TRADING_SIM_API_KEY (or api.key in the config file), or define accounts');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  if (loaded.sources.TRADING_SIM_API_URL === 'default') {
+    logger.warn(`No API URL configured (TRADING_SIM_API_URL). Using ${config.TRADING_SIM_API_URL}.`);
   }
-  
-  if (!config.TRADING_SIM_API_KEY) {
-    logger.error('Missing required API key (TRADING_SIM_API_KEY). Please provide an API key to use the trading simulator.');
-    return;
+  if (loaded.file) {
+    logger.info(`Loaded configuration from ${loaded.file}`);
   }
 }
 
+/**
+ * Effective configuration in config file layout with secrets redacted, and where each setting came from
+ */
+export function getServerConfig(): ReturnType<typeof describeConfig> {
+  return describeConfig(loaded, config);
+}
+
 // Debug startup message
-if (config.DEBUG) {
-  logger.info('Starting environment setup...');
-}
\ No newline at end of file
+logger.debug('Starting environment setup...');
\ No newline at end of file
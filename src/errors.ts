@@ -0,0 +1,95 @@
+import { ClassifiedErrorResponse, ErrorKind, ErrorResponse } from './types.js';
+
+// Classification rules, checked in order. The first rule that matches wins.
+const ERROR_RULES: {
+  kind: ErrorKind;
+  retryable: boolean;
+  hint: string;
+  matches: (status: number, message: string) => boolean;
+}[] = [
+  {
+    kind: ErrorKind.AUTH,
+    retryable: false,
+    hint: 'Check that TRADING_SIM_API_KEY is set and valid for this simulator; retrying will not help.',
+    matches: (status, message) =>
+      status === 401 || status === 403 || /api key|unauthori[sz]ed|forbidden|authenticat/i.test(message)
+  },
+  {
+    kind: ErrorKind.RATE_LIMITED,
+    retryable: true,
+    hint: 'Wait a few seconds before retrying and reduce request frequency; see the rate limits in get_competition_rules.',
+    matches: (status, message) => status === 429 || /rate limit|too many requests/i.test(message)
+  },
+  {
+    kind: ErrorKind.INSUFFICIENT_BALANCE,
+    retryable: false,
+    hint: 'Check get_balances for the source token on the source chain and reduce the amount.',
+    matches: (_status, message) => /insufficient/i.test(message)
+  },
+  {
+    kind: ErrorKind.COMPETITION_INACTIVE,
+    retryable: false,
+    hint: 'Check get_competition_status; trading is only possible while a competition is active and your team is participating.',
+    matches: (_status, message) =>
+      /competition/i.test(message) && /not active|no active|inactive|ended|not started|not participating|not found/i.test(message)
+  },
+  {
+    kind: ErrorKind.UNSUPPORTED_TOKEN,
+    retryable: false,
+    hint: "Verify the token address and chain with get_token_info, or use a registered symbol such as 'USDC@base'.",
+    matches: (_status, message) =>
+      /token/i.test(message) && /unsupported|not supported|not found|unknown|invalid|no price|unable to determine/i.test(message)
+  },
+  {
+    kind: ErrorKind.NETWORK,
+    retryable: true,
+    hint: 'The simulator could not be reached; check TRADING_SIM_API_URL and retry shortly.',
+    matches: (status, message) =>
+      status === 408 || /fetch failed|timed out|ECONN|ENOTFOUND|EAI_AGAIN|socket|network/i.test(message)
+  },
+  {
+    kind: ErrorKind.SERVER,
+    retryable: true,
+    hint: 'The simulator failed to handle the request; retry later. For execute_trade, check get_trades first so the trade is not placed twice.',
+    matches: (status) => status >= 500
+  }
+];
+
+/**
+ * Type guard to check if a response is an ErrorResponse
+ */
+export function isErrorResponse(response: any): response is ErrorResponse {
+  return (
+    response !== null &&
+    typeof response === 'object' &&
+    response.success === false &&
+    'error' in response &&
+    'status' in response
+  );
+}
+
+/**
+ * Classify an API error response
+ *
+ * @param response The error response from the API client
+ * @returns The error response with its kind, retryability and a remediation hint
+ */
+export function classifyError(response: ErrorResponse): ClassifiedErrorResponse {
+  const rule = ERROR_RULES.find((r) => r.matches(response.status, response.error));
+
+  if (!rule) {
+    return {
+      ...response,
+      kind: ErrorKind.BAD_REQUEST,
+      retryable: false,
+      hint: 'The request was rejected; fix the arguments described in the error before retrying.'
+    };
+  }
+
+  return {
+    ...response,
+    kind: rule.kind,
+    retryable: rule.retryable,
+    hint: rule.hint
+  };
+}
@@ -0,0 +1,462 @@
+import { randomUUID } from 'crypto';
+import { logger } from './env.js';
+import { accounts, tradingClient } from './accounts.js';
+import { isErrorResponse } from './errors.js';
+import { submitTrade } from './orders.js';
+import { quotedSlippagePercent } from './batch.js';
+import { BlockchainType, SpecificChain, TradeParams } from './types.js';
+
+// Execution algorithms
+//
+// twap:    split totalAmount into equal slices spread evenly over durationSeconds
+// dca:     trade amountPerSlice every intervalSeconds, `slices` times
+// iceberg: trade the largest slice whose quoted slippage stays under maxSlippagePercent,
+//          every intervalSeconds, until totalAmount is filled
+export const ALGO_TYPES = ['twap', 'dca', 'iceberg'] as const;
+
+export type AlgoType = (typeof ALGO_TYPES)[number];
+
+// Algo order lifecycle states (partial: every planned slice was sent but failed slices left part of the amount unfilled)
+export const ALGO_STATUSES = ['running', 'completed', 'partial', 'cancelled', 'failed'] as const;
+
+export type AlgoStatus = (typeof ALGO_STATUSES)[number];
+
+// Parameters for starting an algo order (token addresses already resolved)
+export interface AlgoOrderParams {
+  type: AlgoType;
+  fromToken: string;
+  toToken: string;
+  fromChain?: BlockchainType;
+  toChain?: BlockchainType;
+  fromSpecificChain?: SpecificChain;
+  toSpecificChain?: SpecificChain;
+  reason: string;
+  totalAmount?: number;          // twap, iceberg
+  slices?: number;               // twap, dca
+  durationSeconds?: number;      // twap
+  amountPerSlice?: number;       // dca
+  intervalSeconds?: number;      // dca, iceberg
+  maxSlippagePercent?: number;   // iceberg
+  minSliceAmount?: number;       // iceberg: smallest slice worth sending (default totalAmount / 64)
+  slippageTolerance?: string;
+  dryRun?: boolean;
+}
+
+// One child trade of an algo order
+export interface AlgoChildTrade {
+  index: number;
+  timestamp: string;
+  amount: number;
+  success: boolean;
+  transactionId?: string;
+  toAmount?: number;
+  quotedSlippagePercent?: number;
+  error?: unknown;
+}
+
+// An algo order and its progress
+export interface AlgoOrder extends AlgoOrderParams {
+  id: string;
+  status: AlgoStatus;
+  account: string;               // Account the slices trade as
+  totalAmount: number;
+  intervalMs: number;
+  createdAt: string;
+  updatedAt: string;
+  nextSliceAt: string | null;
+  note: string | null;           // Latest scheduling note (e.g. why an iceberg slice was deferred)
+  consecutiveFailures: number;   // Failed slices and quotes since the last filled slice
+  children: AlgoChildTrade[];
+  error?: string;
+}
+
+// Progress summary reported with each algo order
+export interface AlgoProgress {
+  executedAmount: number;
+  remainingAmount: number;
+  receivedAmount: number;
+  percentComplete: number;
+  averageRate: number | null;    // toToken received per fromToken spent
+  slicesExecuted: number;
+  slicesFailed: number;
+}
+
+// Bounds on the number of slices
+const MIN_SLICES = 2;
+const MAX_SLICES = 500;
+
+// Default pause between iceberg slices
+const DEFAULT_ICEBERG_INTERVAL_SECONDS = 30;
+
+// Default smallest iceberg slice, as a fraction of the total
+const DEFAULT_ICEBERG_MIN_SLICE_FRACTION = 1 / 64;
+
+// Consecutive failed slices or quotes after which an algo order gives up
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Remaining amounts below this are treated as filled (amounts are sent with 9 decimals)
+const DUST_AMOUNT = 1e-9;
+
+// Finished algo orders kept in memory for list_algo_orders
+const MAX_FINISHED_ALGOS = 100;
+
+/**
+ * Format an amount for the API, rounding down so a slice never exceeds what is left
+ */
+function formatAmount(value: number): string {
+  return (Math.floor(value * 1e9) / 1e9).toFixed(9).replace(/\.?0+$/, '');
+}
+
+/**
+ * Round a progress value for display
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(8));
+}
+
+/**
+ * Summarize the progress of an algo order
+ */
+export function algoProgress(algo: AlgoOrder): AlgoProgress {
+  const filled = algo.children.filter((child) => child.success);
+  const executedAmount = filled.reduce((sum, child) => sum + child.amount, 0);
+  const receivedAmount = filled.reduce((sum, child) => sum + (child.toAmount ?? 0), 0);
+  return {
+    executedAmount: round(executedAmount),
+    remainingAmount: round(Math.max(0, algo.totalAmount - executedAmount)),
+    receivedAmount: round(receivedAmount),
+    percentComplete: algo.totalAmount > 0 ? Math.round((executedAmount / algo.totalAmount) * 10000) / 100 : 0,
+    averageRate: executedAmount > 0 ? round(receivedAmount / executedAmount) : null,
+    slicesExecuted: filled.length,
+    slicesFailed: algo.children.length - filled.length
+  };
+}
+
+/**
+ * Execution algorithm runner
+ *
+ * Runs TWAP, DCA and iceberg orders in the background by scheduling child
+ * trades, each tagged with the parent id in its reason. Algo orders live in
+ * memory and stop when the server stops.
+ */
+export class AlgoRunner {
+  private algos: AlgoOrder[] = [];
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Start an algo order (the first slice is sent immediately)
+   *
+   * @param params The algo parameters
+   * @returns The algo order with its schedule
+   */
+  start(params: AlgoOrderParams): { success: true; algo: AlgoOrder; progress: AlgoProgress } {
+    const now = new Date().toISOString();
+    const algo: AlgoOrder = {
+      id: `algo-${randomUUID()}`,
+      ...params,
+      status: 'running',
+      account: accounts.current(),
+      totalAmount: 0,
+      intervalMs: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextSliceAt: now,
+      note: null,
+      consecutiveFailures: 0,
+      children: []
+    };
+
+    switch (params.type) {
+      case 'twap': {
+        const slices = params.slices;
+        if (!params.totalAmount || !slices || !params.durationSeconds) {
+          throw new Error('twap orders need totalAmount, slices and durationSeconds');
+        }
+        if (!Number.isInteger(slices) || slices < MIN_SLICES || slices > MAX_SLICES) {
+          throw new Error(`slices must be an integer between ${MIN_SLICES} and ${MAX_SLICES}`);
+        }
+        algo.totalAmount = params.totalAmount;
+        // Slices go out at the start of each of the equal sub-periods
+        algo.intervalMs = (params.durationSeconds * 1000) / slices;
+        break;
+      }
+      case 'dca': {
+        const slices = params.slices;
+        if (!params.amountPerSlice || !slices || !params.intervalSeconds) {
+          throw new Error('dca orders need amountPerSlice, slices and intervalSeconds');
+        }
+        if (!Number.isInteger(slices) || slices < MIN_SLICES || slices > MAX_SLICES) {
+          throw new Error(`slices must be an integer between ${MIN_SLICES} and ${MAX_SLICES}`);
+        }
+        algo.totalAmount = params.amountPerSlice * slices;
+        algo.intervalMs = params.intervalSeconds * 1000;
+        break;
+      }
+      case 'iceberg': {
+        if (!params.totalAmount || params.maxSlippagePercent === undefined) {
+          throw new Error('iceberg orders need totalAmount and maxSlippagePercent');
+        }
+        algo.totalAmount = params.totalAmount;
+        algo.intervalMs = (params.intervalSeconds ?? DEFAULT_ICEBERG_INTERVAL_SECONDS) * 1000;
+        algo.minSliceAmount = params.minSliceAmount ?? params.totalAmount * DEFAULT_ICEBERG_MIN_SLICE_FRACTION;
+        break;
+      }
+    }
+
+    this.algos.push(algo);
+    this.prune();
+    logger.info(`[Algos] Started ${algo.type} ${algo.id} for ${algo.totalAmount} of ${algo.fromToken}`);
+    this.schedule(algo, 0);
+
+    return { success: true, algo: this.view(algo), progress: algoProgress(algo) };
+  }
+
+  /**
+   * List algo orders with their progress, newest first
+   *
+   * @param status Optional status filter
+   * @param id Optional algo order id
+   */
+  list(status?: AlgoStatus, id?: string): { success: true; count: number; algos: (AlgoOrder & { progress: AlgoProgress })[] } {
+    const algos = this.algos
+      .filter((algo) => algo.account === accounts.current())
+      .filter((algo) => (!status || algo.status === status) && (!id || algo.id === id))
+      .map((algo) => ({ ...this.view(algo), progress: algoProgress(algo) }))
+      .reverse();
+    if (id && algos.length === 0) {
+      throw new Error(`Algo order ${id} not found`);
+    }
+    return { success: true, count: algos.length, algos };
+  }
+
+  /**
+   * Cancel a running algo order (a slice already in flight still completes)
+   *
+   * @param id The algo order id
+   */
+  cancel(id: string): { success: true; algo: AlgoOrder; progress: AlgoProgress } {
+    const algo = this.algos.find((a) => a.id === id && a.account === accounts.current());
+    if (!algo) {
+      throw new Error(`Algo order ${id} not found`);
+    }
+    if (algo.status !== 'running') {
+      throw new Error(`Algo order ${id} is ${algo.status} and can no longer be cancelled`);
+    }
+
+    this.finish(algo, 'cancelled');
+    logger.info(`[Algos] Cancelled ${algo.id}`);
+    return { success: true, algo: this.view(algo), progress: algoProgress(algo) };
+  }
+
+  /**
+   * Copy an algo order for a response
+   */
+  private view(algo: AlgoOrder): AlgoOrder {
+    return { ...algo, children: algo.children.map((child) => ({ ...child })) };
+  }
+
+  /**
+   * Drop the oldest finished algo orders beyond the retention limit
+   */
+  private prune(): void {
+    const finished = this.algos.filter((algo) => algo.status !== 'running');
+    if (finished.length > MAX_FINISHED_ALGOS) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_ALGOS));
+      this.algos = this.algos.filter((algo) => !dropped.has(algo));
+    }
+  }
+
+  /**
+   * Schedule the next slice
+   */
+  private schedule(algo: AlgoOrder, delayMs: number): void {
+    algo.nextSliceAt = new Date(Date.now() + delayMs).toISOString();
+    const timer = setTimeout(() => {
+      this.timers.delete(algo.id);
+      void accounts.run(algo.account, () => this.runSlice(algo));
+    }, delayMs);
+    // Don't keep the process alive just for pending slices
+    timer.unref();
+    this.timers.set(algo.id, timer);
+  }
+
+  /**
+   * Mark an algo order as finished and stop its timer
+   */
+  private finish(algo: AlgoOrder, status: Exclude<AlgoStatus, 'running'>, error?: string): void {
+    const timer = this.timers.get(algo.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(algo.id);
+    }
+    algo.status = status;
+    algo.nextSliceAt = null;
+    algo.updatedAt = new Date().toISOString();
+    if (error) algo.error = error;
+  }
+
+  /**
+   * Trade parameters for a slice, tagged with the parent id
+   */
+  private sliceParams(algo: AlgoOrder, index: number, amount: number): TradeParams {
+    const params: TradeParams = {
+      fromToken: algo.fromToken,
+      toToken: algo.toToken,
+      amount: formatAmount(amount),
+      reason: `[algo ${algo.id}] ${algo.type} slice ${index + 1}: ${algo.reason}`
+    };
+    if (algo.slippageTolerance) params.slippageTolerance = algo.slippageTolerance;
+    if (algo.fromChain) params.fromChain = algo.fromChain;
+    if (algo.toChain) params.toChain = algo.toChain;
+    if (algo.fromSpecificChain) params.fromSpecificChain = algo.fromSpecificChain;
+    if (algo.toSpecificChain) params.toSpecificChain = algo.toSpecificChain;
+    return params;
+  }
+
+  /**
+   * Quoted slippage in percent for trading an amount
+   */
+  private async quotedSlippage(algo: AlgoOrder, amount: number): Promise<number> {
+    const quote = await tradingClient.getQuote(
+      algo.fromToken,
+      algo.toToken,
+      formatAmount(amount),
+      algo.fromChain,
+      algo.toChain,
+      algo.fromSpecificChain,
+      algo.toSpecificChain
+    );
+    if (isErrorResponse(quote)) {
+      throw new Error(`Quote failed: ${quote.error}`);
+    }
+    return quotedSlippagePercent(quote);
+  }
+
+  /**
+   * Pick the size of the next slice
+   *
+   * @returns The slice amount and its quoted slippage, or null to wait for the next interval
+   */
+  private async nextSlice(algo: AlgoOrder, remaining: number): Promise<{ amount: number; quotedSlippagePercent?: number } | null> {
+    if (algo.type === 'dca') {
+      return { amount: Math.min(algo.amountPerSlice!, remaining) };
+    }
+    if (algo.type === 'twap') {
+      const slicesLeft = Math.max(1, algo.slices! - algo.children.length);
+      return { amount: remaining / slicesLeft };
+    }
+
+    // Iceberg: halve from the remaining amount until the quote is under the cap
+    const minimum = Math.min(algo.minSliceAmount!, remaining);
+    let amount = remaining;
+    for (;;) {
+      const slippage = await this.quotedSlippage(algo, amount);
+      if (slippage <= algo.maxSlippagePercent!) {
+        return { amount, quotedSlippagePercent: round(slippage) };
+      }
+      if (amount <= minimum) break;
+      amount = Math.max(minimum, amount / 2);
+    }
+    algo.note = `Slippage for ${formatAmount(minimum)} is above ${algo.maxSlippagePercent}%; waiting for the next interval`;
+    return null;
+  }
+
+  /**
+   * Whether the full amount (or every planned slice) has been traded
+   */
+  private isDone(algo: AlgoOrder): boolean {
+    return algoProgress(algo).remainingAmount < DUST_AMOUNT ||
+      (algo.type !== 'iceberg' && algo.children.length >= algo.slices!);
+  }
+
+  /**
+   * Finish an algo order that is done: completed if filled, partial if failed slices left a remainder
+   */
+  private complete(algo: AlgoOrder): void {
+    const progress = algoProgress(algo);
+    if (progress.remainingAmount < DUST_AMOUNT) {
+      this.finish(algo, 'completed');
+      logger.info(`[Algos] Completed ${algo.id}`);
+      return;
+    }
+    this.finish(
+      algo,
+      'partial',
+      `${progress.slicesFailed} of ${algo.children.length} slices failed; ${progress.remainingAmount} of ${algo.fromToken} left unfilled`
+    );
+    logger.warn(`[Algos] Finished ${algo.id} with ${progress.remainingAmount} unfilled`);
+  }
+
+  /**
+   * Execute one slice and schedule the next
+   */
+  private async runSlice(algo: AlgoOrder): Promise<void> {
+    if (algo.status !== 'running') {
+      return;
+    }
+
+    const remaining = algoProgress(algo).remainingAmount;
+    if (this.isDone(algo)) {
+      this.complete(algo);
+      return;
+    }
+
+    const index = algo.children.length;
+    let slice: { amount: number; quotedSlippagePercent?: number } | null;
+    try {
+      slice = await this.nextSlice(algo, remaining);
+    } catch (error) {
+      // A failed quote counts toward the consecutive-failure cap like a failed slice
+      slice = null;
+      algo.note = error instanceof Error ? error.message : String(error);
+      algo.consecutiveFailures++;
+    }
+
+    // Cancelled while quoting
+    if (algo.status !== 'running') {
+      return;
+    }
+
+    if (slice) {
+      const params = this.sliceParams(algo, index, slice.amount);
+      const result = await submitTrade(params, { type: 'algo', id: algo.id }, algo.dryRun);
+      const child: AlgoChildTrade = {
+        index,
+        timestamp: new Date().toISOString(),
+        amount: Number(params.amount),
+        success: result.success,
+        quotedSlippagePercent: slice.quotedSlippagePercent
+      };
+      if (result.success) {
+        child.transactionId = result.transaction.id;
+        child.toAmount = result.transaction.toAmount;
+        algo.note = null;
+        algo.consecutiveFailures = 0;
+      } else {
+        child.error = result.error;
+        algo.consecutiveFailures++;
+        logger.warn(`[Algos] Slice ${index + 1} of ${algo.id} failed`);
+      }
+      algo.children.push(child);
+    }
+    algo.updatedAt = new Date().toISOString();
+
+    if (algo.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      this.finish(algo, 'failed', `${MAX_CONSECUTIVE_FAILURES} consecutive slices or quotes failed${algo.note ? ` (last: ${algo.note})` : ''}`);
+      logger.warn(`[Algos] Stopped ${algo.id} after ${MAX_CONSECUTIVE_FAILURES} consecutive failures`);
+      return;
+    }
+
+    if (this.isDone(algo) && algo.status === 'running') {
+      this.complete(algo);
+      return;
+    }
+
+    if (algo.status === 'running') {
+      this.schedule(algo, algo.intervalMs);
+    }
+  }
+}
+
+// Export a pre-configured instance of the runner
+export const algoRunner = new AlgoRunner();
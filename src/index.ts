@@ -1,16 +1,69 @@
 #!/usr/bin/env node
 
-import { logger } from './env.js';
+import { randomUUID } from "crypto";
+import { config, getServerConfig, logger, validateEnv } from './env.js';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SseServer } from "./sse-server.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool
 } from "@modelcontextprotocol/sdk/types.js";
-import { tradingClient } from "./api-client.js";
+import { accounts, compareAccounts, tradingClient } from "./accounts.js";
+import { tokenRegistry } from "./token-registry.js";
+import { TRADING_SIM_RESOURCES, TRADING_SIM_RESOURCE_TEMPLATES, readResource } from "./resources.js";
+import { TRADING_SIM_PROMPTS, getPrompt } from "./prompts.js";
+import { riskManager } from "./risk.js";
+import { dryRunSimulator } from "./dry-run.js";
+import { classifyError, isErrorResponse } from "./errors.js";
+import { CostBasisMethod, getPnl } from "./pnl.js";
+import { PerformancePeriod, getPerformance } from "./performance.js";
+import { portfolioSampler } from "./snapshot-store.js";
+import { JournalQuery, journal } from "./journal.js";
+import { TradeExportOptions, exportTrades } from "./trade-export.js";
+import { IndicatorName, IndicatorOutput, IndicatorPeriods, getIndicators } from "./indicators.js";
+import { BacktestSpec, StrategyRule, runBacktest } from "./backtest.js";
+import { OrderQuery, OrderStatus, OrderType, PlaceOrderParams, orderManager } from "./orders.js";
+import { AlgoOrderParams, AlgoStatus, AlgoType, algoRunner } from "./execution-algos.js";
+import { RebalanceChainTarget, RebalanceOptions, RebalanceTarget, confirmRebalance, previewRebalance } from "./rebalance.js";
+import { PriceRequest, QuoteRequest, getHoldingPrices, getPrices, getQuotes } from "./batch.js";
+import {
+  CACHED_INPUT,
+  CANCEL_ALGO_ORDER_INPUT,
+  CANCEL_ORDER_INPUT,
+  COMPARE_ACCOUNTS_INPUT,
+  EMPTY_INPUT,
+  EXECUTE_TRADE_INPUT,
+  EXPORT_TRADES_INPUT,
+  GET_INDICATORS_INPUT,
+  GET_LEADERBOARD_INPUT,
+  GET_PERFORMANCE_INPUT,
+  GET_PNL_INPUT,
+  GET_PRICE_HISTORY_INPUT,
+  GET_PRICES_INPUT,
+  GET_QUOTE_INPUT,
+  GET_QUOTES_INPUT,
+  GET_TRADES_INPUT,
+  LIST_ALGO_ORDERS_INPUT,
+  LIST_ORDERS_INPUT,
+  OUTPUT_OPTIONS,
+  PLACE_ORDER_INPUT,
+  QUERY_JOURNAL_INPUT,
+  REBALANCE_PORTFOLIO_INPUT,
+  RUN_BACKTEST_INPUT,
+  START_ALGO_ORDER_INPUT,
+  TOKEN_INPUT,
+  UPDATE_PROFILE_INPUT,
+  toolInputSchema,
+} from "./tool-schemas.js";
+import { ObjectSchema, validateSchema } from "./json-schema.js";
+import { ResponseOptions, formatToolResult } from "./response-format.js";
 import {
   BlockchainType,
   SpecificChain,
@@ -20,415 +73,233 @@ import {
   TeamMetadata,
 } from "./types.js";
 
-// Create an MCP server instance using the Server class
-const server = new Server(
-  {
-    name: "trading-simulator-mcp",
-    version: "0.1.0"
-  },
-  {
-    capabilities: {
-      tools: {},     // We support tools
-      resources: {}, // We support resources (even if we just return empty arrays)
-      prompts: {}    // We support prompts (even if we just return empty arrays)
-    }
-  }
-);
-
-// Define the MCP tools
+// Define the MCP tools (input schemas are defined in tool-schemas.ts)
 const TRADING_SIM_TOOLS: Tool[] = [
   // Account Tools
   {
     name: "get_profile",
     description: "Get your team's profile information",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(EMPTY_INPUT)
   },
   {
     name: "update_profile",
     description: "Update your team's profile information",
-    inputSchema: {
-      type: "object",
-      properties: {
-        contactPerson: {
-          type: "string",
-          description: "New contact person name"
-        },
-        metadata: {
-          type: "object",
-          description: "Agent metadata with ref, description, and social information",
-          properties: {
-            ref: {
-              type: "object",
-              properties: {
-                name: {
-                  type: "string",
-                  description: "Agent name"
-                },
-                version: {
-                  type: "string",
-                  description: "Agent version"
-                },
-                url: {
-                  type: "string",
-                  description: "Link to agent documentation or repository"
-                }
-              }
-            },
-            description: {
-              type: "string",
-              description: "Brief description of the agent"
-            },
-            social: {
-              type: "object",
-              properties: {
-                name: {
-                  type: "string",
-                  description: "Agent social name"
-                },
-                email: {
-                  type: "string",
-                  description: "Contact email for the agent"
-                },
-                twitter: {
-                  type: "string",
-                  description: "Twitter handle"
-                }
-              }
-            }
-          }
-        }
-      },
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(UPDATE_PROFILE_INPUT)
   },
   {
     name: "get_balances",
     description: "Get token balances for your team",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(CACHED_INPUT)
   },
   {
     name: "get_portfolio",
     description: "Get portfolio information for your team",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(CACHED_INPUT)
   },
   {
     name: "get_trades",
     description: "Get trade history for your team",
-    inputSchema: {
-      type: "object",
-      properties: {
-        limit: {
-          type: "number",
-          description: "Maximum number of trades to retrieve (default: 20)"
-        },
-        offset: {
-          type: "number",
-          description: "Offset for pagination"
-        },
-        token: {
-          type: "string",
-          description: "Filter by token address"
-        },
-        chain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Filter by blockchain type"
-        }
-      },
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(GET_TRADES_INPUT)
+  },
+  {
+    name: "export_trades",
+    description: "Export the full trade history (all pages) to a CSV or NDJSON file in the configured export directory, returning the file path and summary stats",
+    inputSchema: toolInputSchema(EXPORT_TRADES_INPUT)
+  },
+  {
+    name: "get_pnl",
+    description: "Get realized and unrealized PnL and the return on each position, per token and per chain, rebuilt from the trade history",
+    inputSchema: toolInputSchema(GET_PNL_INPUT)
+  },
+  {
+    name: "get_performance",
+    description: "Get return, max drawdown, volatility, Sharpe/Sortino ratios and best/worst periods from locally recorded portfolio snapshots",
+    inputSchema: toolInputSchema(GET_PERFORMANCE_INPUT)
+  },
+  {
+    name: "list_accounts",
+    description: "List the configured account profiles (with masked API keys) that any tool can run as through its account argument",
+    inputSchema: toolInputSchema(EMPTY_INPUT)
+  },
+  {
+    name: "compare_accounts",
+    description: "Compare the portfolio value and leaderboard rank of several accounts side by side; errors are reported per account",
+    inputSchema: toolInputSchema(COMPARE_ACCOUNTS_INPUT)
   },
   
   // Price Tools
   {
     name: "get_price",
     description: "Get the current price for a token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        token: {
-          type: "string",
-          description: "Token address"
-        },
-        chain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type"
-        },
-        specificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for EVM tokens"
-        }
-      },
-      required: ["token"],
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(TOKEN_INPUT)
+  },
+  {
+    name: "get_prices",
+    description: "Get current prices for several tokens at once, or for every token you hold (held: true); errors are reported per token",
+    inputSchema: toolInputSchema(GET_PRICES_INPUT)
   },
   {
     name: "get_token_info",
     description: "Get detailed information about a token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        token: {
-          type: "string",
-          description: "Token address"
-        },
-        chain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type"
-        },
-        specificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for EVM tokens"
-        }
-      },
-      required: ["token"],
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(TOKEN_INPUT)
   },
   {
     name: "get_price_history",
     description: "Get historical price data for a token",
-    inputSchema: {
-      type: "object",
-      properties: {
-        token: {
-          type: "string",
-          description: "Token address"
-        },
-        startTime: {
-          type: "string",
-          description: "Start time as ISO timestamp"
-        },
-        endTime: {
-          type: "string",
-          description: "End time as ISO timestamp"
-        },
-        interval: {
-          type: "string",
-          enum: ["1m", "5m", "15m", "1h", "4h", "1d"],
-          description: "Time interval for price points"
-        },
-        chain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type"
-        },
-        specificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for EVM tokens"
-        }
-      },
-      required: ["token"],
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(GET_PRICE_HISTORY_INPUT)
+  },
+  {
+    name: "get_indicators",
+    description: "Compute SMA, EMA, RSI, MACD, Bollinger Bands, ATR-style volatility and rate of change over a token's price history, returning the latest values or compact series",
+    inputSchema: toolInputSchema(GET_INDICATORS_INPUT)
   },
   
   // Trading Tools
   {
     name: "execute_trade",
     description: "Execute a trade between tokens",
-    inputSchema: {
-      type: "object",
-      properties: {
-        fromToken: {
-          type: "string", 
-          description: "Source token address"
-        },
-        toToken: {
-          type: "string", 
-          description: "Destination token address"
-        },
-        amount: {
-          type: "string", 
-          description: "Amount of fromToken to trade"
-        },
-        reason: {
-          type: "string",
-          description: "Reason for executing this trade"
-        },
-        slippageTolerance: {
-          type: "string",
-          description: "Optional slippage tolerance percentage (e.g., '0.5' for 0.5%)"
-        },
-        fromChain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type for source token"
-        },
-        toChain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type for destination token"
-        },
-        fromSpecificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for source token"
-        },
-        toSpecificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for destination token"
-        }
-      },
-      required: ["fromToken", "toToken", "amount", "reason"],
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(EXECUTE_TRADE_INPUT)
+  },
+  {
+    name: "run_backtest",
+    description: "Backtest a long-only rule-based strategy (indicator entry/exit rules, sizing, stops) over a token's price history, with slippage modeled on the competition's formula",
+    inputSchema: toolInputSchema(RUN_BACKTEST_INPUT)
+  },
+  {
+    name: "place_order",
+    description: "Place a conditional order (limit buy/sell, stop-loss, take-profit or trailing stop) that the server watches and executes when its price trigger is hit; pending orders survive restarts",
+    inputSchema: toolInputSchema(PLACE_ORDER_INPUT)
+  },
+  {
+    name: "list_orders",
+    description: "List conditional orders with their status, last checked price and resulting trade",
+    inputSchema: toolInputSchema(LIST_ORDERS_INPUT)
+  },
+  {
+    name: "cancel_order",
+    description: "Cancel a pending conditional order",
+    inputSchema: toolInputSchema(CANCEL_ORDER_INPUT)
+  },
+  {
+    name: "start_algo_order",
+    description: "Work a large trade in the background with TWAP, DCA or a slippage-capped iceberg; each child trade's reason carries the parent id",
+    inputSchema: toolInputSchema(START_ALGO_ORDER_INPUT)
+  },
+  {
+    name: "list_algo_orders",
+    description: "List algo orders with their progress and child trades",
+    inputSchema: toolInputSchema(LIST_ALGO_ORDERS_INPUT)
+  },
+  {
+    name: "cancel_algo_order",
+    description: "Cancel a running algo order; slices already traded are kept",
+    inputSchema: toolInputSchema(CANCEL_ALGO_ORDER_INPUT)
+  },
+  {
+    name: "rebalance_portfolio",
+    description: "Preview the trades that bring the portfolio to per-token or per-chain target weights (with quoted slippage and projected drift), then execute the plan only when called again with confirmPlanId; a confirmation where any trade fails is reported as an error with every trade's outcome",
+    inputSchema: toolInputSchema(REBALANCE_PORTFOLIO_INPUT)
+  },
+  {
+    name: "get_dry_run_state",
+    description: "Get simulated dry-run trades and the shadow balance changes they produced",
+    inputSchema: toolInputSchema(EMPTY_INPUT)
+  },
+  {
+    name: "reset_dry_run",
+    description: "Clear simulated dry-run trades and shadow balances",
+    inputSchema: toolInputSchema(EMPTY_INPUT)
+  },
+  {
+    name: "get_risk_policy",
+    description: "Get the risk limits that execute_trade enforces before sending a trade",
+    inputSchema: toolInputSchema(EMPTY_INPUT)
   },
   {
     name: "get_quote",
     description: "Get a quote for a potential trade",
-    inputSchema: {
-      type: "object",
-      properties: {
-        fromToken: {
-          type: "string",
-          description: "Source token address"
-        },
-        toToken: {
-          type: "string",
-          description: "Destination token address"
-        },
-        amount: {
-          type: "string",
-          description: "Amount of fromToken to potentially trade"
-        },
-        fromChain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type for source token"
-        },
-        toChain: {
-          type: "string",
-          enum: ["svm", "evm"],
-          description: "Optional blockchain type for destination token"
-        },
-        fromSpecificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for source token"
-        },
-        toSpecificChain: {
-          type: "string",
-          enum: ["eth", "polygon", "bsc", "arbitrum", "base", "optimism", "avalanche", "linea", "svm"],
-          description: "Optional specific chain for destination token"
-        }
-      },
-      required: ["fromToken", "toToken", "amount"],
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(GET_QUOTE_INPUT)
+  },
+  {
+    name: "get_quotes",
+    description: "Get quotes for several potential trades at once; errors are reported per trade leg",
+    inputSchema: toolInputSchema(GET_QUOTES_INPUT)
   },
   
   // Competition Tools
   {
     name: "get_competition_status",
     description: "Get the status of the current competition",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(EMPTY_INPUT)
   },
   {
     name: "get_leaderboard",
     description: "Get the competition leaderboard",
-    inputSchema: {
-      type: "object",
-      properties: {
-        competitionId: {
-          type: "string",
-          description: "Optional competition ID (if not provided, the active competition is used)"
-        }
-      },
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(GET_LEADERBOARD_INPUT)
   },
   {
     name: "get_competition_rules",
     description: "Get the rules and configuration details for the competition",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(CACHED_INPUT)
+  },
+  
+  // Journal Tools
+  {
+    name: "query_journal",
+    description: "Search the local audit journal of past tool calls and trades (including trade reasons) by tool, token, time and success",
+    inputSchema: toolInputSchema(QUERY_JOURNAL_INPUT)
   },
   
   // Health Tools
   {
     name: "get_health",
     description: "Basic health check for the trading simulator API",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(EMPTY_INPUT)
   },
   {
     name: "get_detailed_health",
     description: "Detailed health check with information about all services",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-      $schema: "http://json-schema.org/draft-07/schema#"
-    }
+    inputSchema: toolInputSchema(EMPTY_INPUT)
+  },
+  {
+    name: "get_server_config",
+    description: "Show the server's effective configuration (secrets redacted) and whether each setting came from a default, the config file, an environment variable or a CLI flag",
+    inputSchema: toolInputSchema(EMPTY_INPUT)
   }
 ];
 
-// Set up request handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TRADING_SIM_TOOLS
-  };
-});
-
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: []
-  };
-});
-
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
+/**
+ * Build a tool result from a response, marking API failures as tool errors
+ * with their classification and a remediation hint
+ */
+function toolResponse(response: unknown) {
+  if (isErrorResponse(response)) {
+    return {
+      content: [{ type: "text", text: JSON.stringify(classifyError(response), null, 2) }],
+      isError: true
+    };
+  }
   return {
-    prompts: []
+    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    isError: false
   };
-});
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args = {} } = request.params;
-  logger.info(`Handling tool call: ${name}`);
+/**
+ * Validate a tool call's arguments and dispatch it to its handler
+ */
+async function handleToolCall(name: string, args: Record<string, unknown>) {
+  // Validate arguments against the tool's declared input schema before any API call
+  const tool = TRADING_SIM_TOOLS.find((t) => t.name === name);
+  if (tool) {
+    const errors = validateSchema(tool.inputSchema as ObjectSchema, args);
+    if (errors.length > 0) {
+      return {
+        content: [{ type: "text", text: `Invalid arguments for ${name}:\n- ${errors.join("\n- ")}` }],
+        isError: true
+      };
+    }
+  }
 
   try {
     // Handle different tools
@@ -436,10 +307,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       // Account Tools
       case "get_profile": {
         const response = await tradingClient.getProfile();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
       }
       
       case "update_profile": {
@@ -451,26 +319,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const metadata = "metadata" in args ? args.metadata as TeamMetadata : undefined;
         
         const response = await tradingClient.updateProfile(contactPerson, metadata);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
       }
         
       case "get_balances": {
-        const response = await tradingClient.getBalances();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        const balances = await tradingClient.getBalances(bypassCache);
+        // Reflect simulated fills once dry-run trades have been made
+        const response = isErrorResponse(balances) || !dryRunSimulator.hasFills()
+          ? balances
+          : dryRunSimulator.applyToBalances(balances);
+        return toolResponse(response);
       }
       
       case "get_portfolio": {
-        const response = await tradingClient.getPortfolio();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        const response = await tradingClient.getPortfolio(bypassCache);
+        return toolResponse(response);
       }
       
       case "get_trades": {
@@ -481,14 +346,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const tradeParams: TradeHistoryParams = {};
         if ("limit" in args) tradeParams.limit = args.limit as number;
         if ("offset" in args) tradeParams.offset = args.offset as number;
-        if ("token" in args) tradeParams.token = args.token as string;
         if ("chain" in args) tradeParams.chain = args.chain as BlockchainType;
+        if ("token" in args) {
+          const resolved = tokenRegistry.resolve(args.token as string, { chain: tradeParams.chain });
+          tradeParams.token = resolved.address;
+          tradeParams.chain = tradeParams.chain ?? resolved.chain;
+        }
         
         const response = await tradingClient.getTradeHistory(tradeParams);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
+      }
+      
+      case "export_trades": {
+        const options: TradeExportOptions = {};
+        if ("format" in args) options.format = args.format as TradeExportOptions['format'];
+        if ("startTime" in args) options.startTime = args.startTime as string;
+        if ("endTime" in args) options.endTime = args.endTime as string;
+        if ("success" in args) options.success = args.success as boolean;
+        if ("chain" in args) options.chain = args.chain as BlockchainType;
+        if ("token" in args) {
+          const resolved = tokenRegistry.resolve(args.token as string, { chain: options.chain });
+          options.token = resolved.address;
+          options.chain = options.chain ?? resolved.chain;
+        }
+        
+        const response = await exportTrades(options);
+        return toolResponse(response);
+      }
+      
+      case "get_pnl": {
+        const method = "method" in args ? args.method as CostBasisMethod : "fifo";
+        const response = await getPnl(method);
+        return toolResponse(response);
+      }
+      
+      case "get_performance": {
+        const startTime = "startTime" in args ? args.startTime as string : undefined;
+        const endTime = "endTime" in args ? args.endTime as string : undefined;
+        const period = "period" in args ? args.period as PerformancePeriod : undefined;
+        const response = await getPerformance(startTime, endTime, period);
+        return toolResponse(response);
+      }
+      
+      case "list_accounts": {
+        return toolResponse({ success: true, current: accounts.current(), accounts: accounts.list() });
+      }
+      
+      case "compare_accounts": {
+        const names = "accounts" in args ? args.accounts as string[] : undefined;
+        const competitionId = "competitionId" in args ? args.competitionId as string : undefined;
+        const response = await compareAccounts(names, competitionId);
+        return toolResponse(response);
       }
       
       // Price Tools
@@ -497,15 +405,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Invalid arguments for get_price");
         }
         
-        const token = args.token as string;
         const chain = "chain" in args ? args.chain as BlockchainType : undefined;
         const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
         
-        const response = await tradingClient.getPrice(token, chain, specificChain);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        const response = await tradingClient.getPrice(
+          resolved.address,
+          chain ?? resolved.chain,
+          specificChain ?? resolved.specificChain,
+          bypassCache
+        );
+        return toolResponse(response);
+      }
+      
+      case "get_prices": {
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        if (args.held === true) {
+          const response = await getHoldingPrices(bypassCache);
+          return toolResponse(response);
+        }
+        if (!("tokens" in args)) {
+          throw new Error("get_prices requires tokens, or held: true to price every held token");
+        }
+        
+        const response = await getPrices(args.tokens as PriceRequest[], bypassCache);
+        return toolResponse(response);
       }
       
       case "get_token_info": {
@@ -513,15 +438,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Invalid arguments for get_token_info");
         }
         
-        const token = args.token as string;
         const chain = "chain" in args ? args.chain as BlockchainType : undefined;
         const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
         
-        const response = await tradingClient.getTokenInfo(token, chain, specificChain);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        const response = await tradingClient.getTokenInfo(
+          resolved.address,
+          chain ?? resolved.chain,
+          specificChain ?? resolved.specificChain,
+          bypassCache
+        );
+        return toolResponse(response);
       }
       
       case "get_price_history": {
@@ -529,21 +457,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Invalid arguments for get_price_history");
         }
         
+        const chain = "chain" in args ? args.chain as BlockchainType : undefined;
+        const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
+        
         const historyParams: PriceHistoryParams = {
-          token: args.token as string
+          token: resolved.address
         };
         
         if ("startTime" in args) historyParams.startTime = args.startTime as string;
         if ("endTime" in args) historyParams.endTime = args.endTime as string;
         if ("interval" in args) historyParams.interval = args.interval as PriceHistoryParams['interval'];
-        if ("chain" in args) historyParams.chain = args.chain as BlockchainType;
-        if ("specificChain" in args) historyParams.specificChain = args.specificChain as SpecificChain;
+        if (chain ?? resolved.chain) historyParams.chain = chain ?? resolved.chain;
+        if (specificChain ?? resolved.specificChain) historyParams.specificChain = specificChain ?? resolved.specificChain;
         
         const response = await tradingClient.getPriceHistory(historyParams);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
+        return toolResponse(response);
+      }
+      
+      case "get_indicators": {
+        const chain = "chain" in args ? args.chain as BlockchainType : undefined;
+        const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
+        
+        const historyParams: PriceHistoryParams = {
+          token: resolved.address
         };
+        
+        if ("startTime" in args) historyParams.startTime = args.startTime as string;
+        if ("endTime" in args) historyParams.endTime = args.endTime as string;
+        if ("interval" in args) historyParams.interval = args.interval as PriceHistoryParams['interval'];
+        if (chain ?? resolved.chain) historyParams.chain = chain ?? resolved.chain;
+        if (specificChain ?? resolved.specificChain) historyParams.specificChain = specificChain ?? resolved.specificChain;
+        
+        const response = await getIndicators(
+          historyParams,
+          "indicators" in args ? args.indicators as IndicatorName[] : undefined,
+          "periods" in args ? args.periods as Partial<IndicatorPeriods> : undefined,
+          "output" in args ? args.output as IndicatorOutput : undefined,
+          "seriesLength" in args ? args.seriesLength as number : undefined
+        );
+        return toolResponse(response);
       }
       
       // Trading Tools
@@ -554,24 +508,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Invalid arguments for execute_trade");
         }
         
+        const fromChain = "fromChain" in args ? args.fromChain as BlockchainType : undefined;
+        const toChain = "toChain" in args ? args.toChain as BlockchainType : undefined;
+        const fromSpecificChain = "fromSpecificChain" in args ? args.fromSpecificChain as SpecificChain : undefined;
+        const toSpecificChain = "toSpecificChain" in args ? args.toSpecificChain as SpecificChain : undefined;
+        const from = tokenRegistry.resolve(args.fromToken as string, { chain: fromChain, specificChain: fromSpecificChain });
+        const to = tokenRegistry.resolve(args.toToken as string, { chain: toChain, specificChain: toSpecificChain });
+        
         const tradeExecParams: TradeParams = {
-          fromToken: args.fromToken as string,
-          toToken: args.toToken as string,
+          fromToken: from.address,
+          toToken: to.address,
           amount: args.amount as string,
           reason: args.reason as string
         };
         
         if ("slippageTolerance" in args) tradeExecParams.slippageTolerance = args.slippageTolerance as string;
-        if ("fromChain" in args) tradeExecParams.fromChain = args.fromChain as BlockchainType;
-        if ("toChain" in args) tradeExecParams.toChain = args.toChain as BlockchainType;
-        if ("fromSpecificChain" in args) tradeExecParams.fromSpecificChain = args.fromSpecificChain as SpecificChain;
-        if ("toSpecificChain" in args) tradeExecParams.toSpecificChain = args.toSpecificChain as SpecificChain;
+        if (fromChain ?? from.chain) tradeExecParams.fromChain = fromChain ?? from.chain;
+        if (toChain ?? to.chain) tradeExecParams.toChain = toChain ?? to.chain;
+        if (fromSpecificChain ?? from.specificChain) tradeExecParams.fromSpecificChain = fromSpecificChain ?? from.specificChain;
+        if (toSpecificChain ?? to.specificChain) tradeExecParams.toSpecificChain = toSpecificChain ?? to.specificChain;
         
-        const response = await tradingClient.executeTrade(tradeExecParams);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        const simulate = dryRunSimulator.shouldSimulate("dryRun" in args ? args.dryRun as boolean : undefined);
+        return riskManager.exclusive(async () => {
+          const riskCheck = await riskManager.checkTrade(tradeExecParams, simulate);
+          if (!riskCheck.approved) {
+            return {
+              content: [{ type: "text", text: JSON.stringify({ success: false, rejected: true, ...riskCheck }, null, 2) }],
+              isError: true
+            };
+          }
+          
+          const response = simulate
+            ? await dryRunSimulator.simulateTrade(tradeExecParams)
+            : await tradingClient.executeTrade(tradeExecParams);
+          return toolResponse(response);
+        });
       }
       
       case "get_quote": {
@@ -580,70 +551,254 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Invalid arguments for get_quote");
         }
         
-        const fromToken = args.fromToken as string;
-        const toToken = args.toToken as string;
         const amount = args.amount as string;
         const fromChain = "fromChain" in args ? args.fromChain as BlockchainType : undefined;
         const toChain = "toChain" in args ? args.toChain as BlockchainType : undefined;
         const fromSpecificChain = "fromSpecificChain" in args ? args.fromSpecificChain as SpecificChain : undefined;
         const toSpecificChain = "toSpecificChain" in args ? args.toSpecificChain as SpecificChain : undefined;
+        const from = tokenRegistry.resolve(args.fromToken as string, { chain: fromChain, specificChain: fromSpecificChain });
+        const to = tokenRegistry.resolve(args.toToken as string, { chain: toChain, specificChain: toSpecificChain });
         
         const response = await tradingClient.getQuote(
-          fromToken, 
-          toToken, 
+          from.address, 
+          to.address, 
           amount, 
-          fromChain, 
-          toChain, 
-          fromSpecificChain, 
-          toSpecificChain
+          fromChain ?? from.chain, 
+          toChain ?? to.chain, 
+          fromSpecificChain ?? from.specificChain, 
+          toSpecificChain ?? to.specificChain
         );
         
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
+        return toolResponse(response);
+      }
+      
+      case "get_quotes": {
+        const response = await getQuotes(args.legs as QuoteRequest[]);
+        return toolResponse(response);
+      }
+      
+      case "run_backtest": {
+        const chain = "chain" in args ? args.chain as BlockchainType : undefined;
+        const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
+        
+        const spec: BacktestSpec = {
+          history: {
+            token: resolved.address,
+            interval: args.interval as PriceHistoryParams['interval'],
+            startTime: args.startTime as string,
+            endTime: args.endTime as string,
+            chain: chain ?? resolved.chain,
+            specificChain: specificChain ?? resolved.specificChain
+          },
+          entry: args.entry as StrategyRule[]
         };
+        
+        if ("exit" in args) spec.exit = args.exit as StrategyRule[];
+        if ("periods" in args) spec.periods = args.periods as Partial<IndicatorPeriods>;
+        if ("positionSizePercent" in args) spec.positionSizePercent = args.positionSizePercent as number;
+        if ("startingCash" in args) spec.startingCash = args.startingCash as number;
+        if ("startingTokenAmount" in args) spec.startingTokenAmount = args.startingTokenAmount as number;
+        if ("stopLossPercent" in args) spec.stopLossPercent = args.stopLossPercent as number;
+        if ("takeProfitPercent" in args) spec.takeProfitPercent = args.takeProfitPercent as number;
+        if ("slippagePercentPer10k" in args) spec.slippagePercentPer10k = args.slippagePercentPer10k as number;
+        if ("refresh" in args) spec.refresh = args.refresh as boolean;
+        
+        const response = await runBacktest(spec);
+        return toolResponse(response);
+      }
+      
+      case "place_order": {
+        const chain = "chain" in args ? args.chain as BlockchainType : undefined;
+        const specificChain = "specificChain" in args ? args.specificChain as SpecificChain : undefined;
+        const resolved = tokenRegistry.resolve(args.token as string, { chain, specificChain });
+        const tokenChain = chain ?? resolved.chain;
+        const tokenSpecificChain = specificChain ?? resolved.specificChain;
+        // Default to USDC on the same chain as the watched token
+        const quote = tokenRegistry.resolve("quoteToken" in args ? args.quoteToken as string : "USDC", {
+          chain: tokenChain,
+          specificChain: tokenSpecificChain
+        });
+        
+        const params: PlaceOrderParams = {
+          type: args.type as OrderType,
+          token: resolved.address,
+          quoteToken: quote.address,
+          amount: args.amount as string,
+          reason: args.reason as string
+        };
+        
+        if (tokenChain) params.chain = tokenChain;
+        if (tokenSpecificChain) params.specificChain = tokenSpecificChain;
+        if (quote.chain ?? tokenChain) params.quoteChain = quote.chain ?? tokenChain;
+        if (quote.specificChain ?? tokenSpecificChain) params.quoteSpecificChain = quote.specificChain ?? tokenSpecificChain;
+        if ("triggerPrice" in args) params.triggerPrice = args.triggerPrice as number;
+        if ("trailPercent" in args) params.trailPercent = args.trailPercent as number;
+        if ("slippageTolerance" in args) params.slippageTolerance = args.slippageTolerance as string;
+        if ("expiresAt" in args) params.expiresAt = args.expiresAt as string;
+        if ("dryRun" in args) params.dryRun = args.dryRun as boolean;
+        
+        const response = await orderManager.place(params);
+        return toolResponse(response);
+      }
+      
+      case "list_orders": {
+        const query: OrderQuery = {};
+        if ("status" in args) query.status = args.status as OrderStatus;
+        if ("token" in args) query.token = tokenRegistry.resolve(args.token as string).address;
+        
+        const response = await orderManager.list(query);
+        return toolResponse(response);
+      }
+      
+      case "cancel_order": {
+        const response = await orderManager.cancel(args.orderId as string);
+        return toolResponse(response);
+      }
+      
+      case "start_algo_order": {
+        const fromChain = "fromChain" in args ? args.fromChain as BlockchainType : undefined;
+        const toChain = "toChain" in args ? args.toChain as BlockchainType : undefined;
+        const fromSpecificChain = "fromSpecificChain" in args ? args.fromSpecificChain as SpecificChain : undefined;
+        const toSpecificChain = "toSpecificChain" in args ? args.toSpecificChain as SpecificChain : undefined;
+        const from = tokenRegistry.resolve(args.fromToken as string, { chain: fromChain, specificChain: fromSpecificChain });
+        const to = tokenRegistry.resolve(args.toToken as string, { chain: toChain, specificChain: toSpecificChain });
+        
+        const params: AlgoOrderParams = {
+          type: args.type as AlgoType,
+          fromToken: from.address,
+          toToken: to.address,
+          reason: args.reason as string
+        };
+        
+        if (fromChain ?? from.chain) params.fromChain = fromChain ?? from.chain;
+        if (toChain ?? to.chain) params.toChain = toChain ?? to.chain;
+        if (fromSpecificChain ?? from.specificChain) params.fromSpecificChain = fromSpecificChain ?? from.specificChain;
+        if (toSpecificChain ?? to.specificChain) params.toSpecificChain = toSpecificChain ?? to.specificChain;
+        if ("totalAmount" in args) params.totalAmount = Number(args.totalAmount);
+        if ("amountPerSlice" in args) params.amountPerSlice = Number(args.amountPerSlice);
+        if ("slices" in args) params.slices = args.slices as number;
+        if ("durationSeconds" in args) params.durationSeconds = args.durationSeconds as number;
+        if ("intervalSeconds" in args) params.intervalSeconds = args.intervalSeconds as number;
+        if ("maxSlippagePercent" in args) params.maxSlippagePercent = args.maxSlippagePercent as number;
+        if ("minSliceAmount" in args) params.minSliceAmount = Number(args.minSliceAmount);
+        if ("slippageTolerance" in args) params.slippageTolerance = args.slippageTolerance as string;
+        if ("dryRun" in args) params.dryRun = args.dryRun as boolean;
+        
+        const response = algoRunner.start(params);
+        return toolResponse(response);
+      }
+      
+      case "list_algo_orders": {
+        const status = "status" in args ? args.status as AlgoStatus : undefined;
+        const algoId = "algoId" in args ? args.algoId as string : undefined;
+        const response = algoRunner.list(status, algoId);
+        return toolResponse(response);
+      }
+      
+      case "cancel_algo_order": {
+        const response = algoRunner.cancel(args.algoId as string);
+        return toolResponse(response);
+      }
+      
+      case "rebalance_portfolio": {
+        if ("confirmPlanId" in args) {
+          const response = await confirmRebalance(args.confirmPlanId as string);
+          return toolResponse(response);
+        }
+        if (!("targets" in args) && !("chainTargets" in args)) {
+          throw new Error("rebalance_portfolio needs targets or chainTargets to preview, or confirmPlanId to execute a preview");
+        }
+        
+        const targets: RebalanceTarget[] = ((args.targets ?? []) as RebalanceTarget[]).map((target) => {
+          const resolved = tokenRegistry.resolve(target.token, { chain: target.chain, specificChain: target.specificChain });
+          return {
+            token: resolved.address,
+            chain: target.chain ?? resolved.chain,
+            specificChain: target.specificChain ?? resolved.specificChain,
+            weightPercent: target.weightPercent
+          };
+        });
+        
+        const options: RebalanceOptions = {};
+        if ("driftThresholdPercent" in args) options.driftThresholdPercent = args.driftThresholdPercent as number;
+        if ("reason" in args) options.reason = args.reason as string;
+        if ("dryRun" in args) options.dryRun = args.dryRun as boolean;
+        
+        const chainTargets = (args.chainTargets ?? []) as RebalanceChainTarget[];
+        const response = await previewRebalance(targets, options, chainTargets);
+        return toolResponse(response);
+      }
+      
+      case "get_dry_run_state": {
+        const response = dryRunSimulator.getState();
+        return toolResponse(response);
+      }
+      
+      case "reset_dry_run": {
+        dryRunSimulator.reset();
+        return toolResponse({ success: true, message: "Dry-run state cleared" });
+      }
+      
+      case "get_risk_policy": {
+        const response = { enabled: riskManager.isEnabled(), policy: riskManager.getPolicy() };
+        return toolResponse(response);
       }
       
       // Competition Tools
       case "get_competition_status": {
         const response = await tradingClient.getCompetitionStatus();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
       }
       
       case "get_leaderboard": {
         const competitionId = "competitionId" in args ? args.competitionId as string : undefined;
         const response = await tradingClient.getLeaderboard(competitionId);
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
       }
       
       case "get_competition_rules": {
-        const response = await tradingClient.getRules();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-        };
+        const bypassCache = "bypassCache" in args ? args.bypassCache as boolean : false;
+        const response = await tradingClient.getRules(bypassCache);
+        return toolResponse(response);
       }
         
+      // Journal Tools
+      case "query_journal": {
+        const query: JournalQuery = {};
+        if ("tool" in args) query.tool = args.tool as string;
+        if ("startTime" in args) query.startTime = args.startTime as string;
+        if ("endTime" in args) query.endTime = args.endTime as string;
+        if ("success" in args) query.success = args.success as boolean;
+        if ("limit" in args) query.limit = args.limit as number;
+        if ("token" in args) {
+          // Match the token as given and, when it resolves, its address
+          const token = args.token as string;
+          query.tokens = [token];
+          try {
+            query.tokens.push(tokenRegistry.resolve(token).address);
+          } catch {
+            // Unknown or ambiguous symbols still match entries that used the same text
+          }
+        }
+        
+        const response = await journal.query(query);
+        return toolResponse(response);
+      }
+      
       // Health Tools
       case "get_health": {
         const response = await tradingClient.getHealthStatus();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
       }
         
       case "get_detailed_health": {
         const response = await tradingClient.getDetailedHealthStatus();
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-          isError: false
-        };
+        return toolResponse(response);
+      }
+      
+      case "get_server_config": {
+        return toolResponse({ success: true, ...getServerConfig() });
       }
       
       default:
@@ -662,18 +817,137 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true
     };
   }
-});
+}
+
+/**
+ * Create an MCP server with every handler registered
+ *
+ * Each connected transport needs its own server instance; the API client,
+ * caches, order manager and journal are module-level and shared by all of them.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "trading-simulator-mcp",
+      version: "0.1.0"
+    },
+    {
+      capabilities: {
+        tools: {},     // We support tools
+        resources: {}, // We support read-only resources and resource templates
+        prompts: {}    // We support parameterized trading workflow prompts
+      }
+    }
+  );
+
+  // Set up request handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TRADING_SIM_TOOLS
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: TRADING_SIM_RESOURCES
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: TRADING_SIM_RESOURCE_TEMPLATES
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    logger.info(`Handling resource read: ${uri}`);
+
+    return {
+      contents: await readResource(uri)
+    };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: TRADING_SIM_PROMPTS
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    logger.info(`Handling prompt request: ${name}`);
+
+    return getPrompt(name, args);
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: { account, fields, ...args } = {} } = request.params;
+    logger.info(`Handling tool call: ${name}${account !== undefined ? ` as ${account}` : ""}`);
+
+    if (account !== undefined && (typeof account !== "string" || !accounts.has(account))) {
+      return {
+        content: [{ type: "text", text: `Unknown account ${JSON.stringify(account)}. Available accounts: ${accounts.names().join(", ")}` }],
+        isError: true
+      };
+    }
+
+    // export_trades declares its own format argument (the file format); other tools take it as the response format
+    const output: Record<string, unknown> = { fields };
+    const tool = TRADING_SIM_TOOLS.find((t) => t.name === name);
+    if ((tool?.inputSchema as ObjectSchema | undefined)?.properties.format === OUTPUT_OPTIONS.properties.format) {
+      output.format = args.format;
+      delete args.format;
+    }
+
+    const outputErrors = validateSchema(OUTPUT_OPTIONS, output);
+    if (outputErrors.length > 0) {
+      return {
+        content: [{ type: "text", text: `Invalid arguments for ${name}:\n- ${outputErrors.join("\n- ")}` }],
+        isError: true
+      };
+    }
+
+    // Run the call and its journal entry as the selected account, tagging every log line with the call
+    const context = { callId: randomUUID().slice(0, 8), tool: name, account: account ?? accounts.getDefault() };
+    return logger.withContext(context, () => accounts.run(account, async () => {
+      const startedAt = Date.now();
+      const result = await handleToolCall(name, args);
+      await journal.recordToolCall(name, args, result, Date.now() - startedAt);
+      logger.debug(`Tool call ${name} finished in ${Date.now() - startedAt}ms${result.isError ? " with an error" : ""}`);
+      // The journal keeps the full JSON response; the client gets the requested format and fields
+      return formatToolResult(name, result, output as ResponseOptions);
+    }));
+  });
+
+  return server;
+}
 
 async function main() {
   try {
-    // Create a transport for stdio
-    const transport = new StdioServerTransport();
+    // Refuse to start with an invalid or incomplete configuration
+    validateEnv(accounts.getErrors());
+
+    if (config.TRADING_SIM_TRANSPORT === "sse") {
+      // Serve any number of MCP clients over HTTP with Server-Sent Events
+      const url = await new SseServer(createServer).start();
+      logger.info(`Trading Simulator MCP server listening on ${url}/sse`);
+    } else {
+      // Create a transport for stdio
+      const transport = new StdioServerTransport();
 
-    // Connect the server to the transport
-    await server.connect(transport);
-    logger.info("Trading Simulator MCP server started");
+      // Connect the server to the transport
+      await createServer().connect(transport);
+      logger.info("Trading Simulator MCP server started");
+    }
+    
+    // Record the equity curve used by get_performance
+    portfolioSampler.start();
+    
+    // Watch prices for pending conditional orders
+    orderManager.start();
   } catch (error) {
-    logger.error("Failed to start server:", error);
+    logger.error("Failed to start server:", error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
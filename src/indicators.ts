@@ -0,0 +1,361 @@
+import { tradingClient } from './accounts.js';
+import { isErrorResponse } from './errors.js';
+import { ApiResponse, ErrorResponse, PriceHistoryParams, PriceHistoryPoint } from './types.js';
+
+// Indicators that can be requested
+export const INDICATOR_NAMES = ['sma', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'roc'] as const;
+
+export type IndicatorName = (typeof INDICATOR_NAMES)[number];
+
+// Output series produced by computeIndicators
+export const INDICATOR_SERIES_NAMES = [
+  'price',
+  'sma',
+  'ema',
+  'rsi',
+  'macd.macd',
+  'macd.signal',
+  'macd.histogram',
+  'bollinger.middle',
+  'bollinger.upper',
+  'bollinger.lower',
+  'atr',
+  'atrPercent',
+  'roc'
+] as const;
+
+export type IndicatorSeriesName = (typeof INDICATOR_SERIES_NAMES)[number];
+
+// Indicator periods (in price points of the chosen interval)
+export interface IndicatorPeriods {
+  sma: number;
+  ema: number;
+  rsi: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+  bollinger: number;
+  bollingerStdDev: number;
+  atr: number;
+  roc: number;
+}
+
+// Conventional defaults
+export const DEFAULT_INDICATOR_PERIODS: IndicatorPeriods = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  bollinger: 20,
+  bollingerStdDev: 2,
+  atr: 14,
+  roc: 10
+};
+
+// A series aligned with the input prices (null until enough points exist)
+export type Series = (number | null)[];
+
+// Computed indicator series, keyed by output name (e.g. macd.signal)
+export type IndicatorSeries = Record<string, Series>;
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): Series {
+  const result: Series = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first period
+ */
+export function ema(values: number[], period: number): Series {
+  const result: Series = [];
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(null);
+    } else if (previous === null) {
+      previous = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+      result.push(previous);
+    } else {
+      previous = values[i] * k + previous * (1 - k);
+      result.push(previous);
+    }
+  }
+  return result;
+}
+
+/**
+ * RSI from average gain and loss (50 for a flat series with neither)
+ */
+function rsiValue(gain: number, loss: number): number {
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+export function rsi(values: number[], period: number): Series {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+  result[period] = rsiValue(gain, loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = rsiValue(gain, loss);
+  }
+  return result;
+}
+
+/**
+ * MACD line, signal line and histogram
+ */
+export function macd(values: number[], fast: number, slow: number, signal: number): { macd: Series; signal: Series; histogram: Series } {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] === null || slowEma[i] === null ? null : fastEma[i]! - slowEma[i]!
+  );
+
+  // Signal is an EMA over the defined part of the MACD line
+  const start = line.findIndex((v) => v !== null);
+  const signalLine: Series = values.map(() => null);
+  if (start !== -1) {
+    ema(line.slice(start) as number[], signal).forEach((v, i) => {
+      signalLine[start + i] = v;
+    });
+  }
+
+  return {
+    macd: line,
+    signal: signalLine,
+    histogram: line.map((v, i) => (v === null || signalLine[i] === null ? null : v - signalLine[i]!))
+  };
+}
+
+/**
+ * Bollinger Bands (middle SMA plus/minus a multiple of the standard deviation)
+ */
+export function bollinger(values: number[], period: number, stdDevs: number): { middle: Series; upper: Series; lower: Series } {
+  const middle = sma(values, period);
+  const upper: Series = [];
+  const lower: Series = [];
+  for (let i = 0; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      continue;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    upper.push(mean + stdDevs * deviation);
+    lower.push(mean - stdDevs * deviation);
+  }
+  return { middle, upper, lower };
+}
+
+/**
+ * ATR-style volatility: Wilder average of absolute close-to-close moves
+ * (the price history has no highs and lows, so the true range is the move)
+ */
+export function atr(values: number[], period: number): Series {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let average = 0;
+  for (let i = 1; i <= period; i++) {
+    average += Math.abs(values[i] - values[i - 1]);
+  }
+  average /= period;
+  result[period] = average;
+
+  for (let i = period + 1; i < values.length; i++) {
+    average = (average * (period - 1) + Math.abs(values[i] - values[i - 1])) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Rate of change in percent over a period
+ */
+export function roc(values: number[], period: number): Series {
+  return values.map((v, i) =>
+    i < period || values[i - period] === 0 ? null : (v / values[i - period] - 1) * 100
+  );
+}
+
+/**
+ * Compute the requested indicators over a price history
+ *
+ * @param history Price points, oldest first
+ * @param indicators Indicators to compute
+ * @param periods Periods to use (missing values fall back to the defaults)
+ * @returns Series aligned with the history, keyed by output name
+ */
+export function computeIndicators(
+  history: PriceHistoryPoint[],
+  indicators: readonly IndicatorName[] = INDICATOR_NAMES,
+  periods: Partial<IndicatorPeriods> = {}
+): IndicatorSeries {
+  const p = { ...DEFAULT_INDICATOR_PERIODS, ...periods };
+  const prices = history.map((point) => point.price);
+  const series: IndicatorSeries = { price: prices };
+
+  for (const indicator of indicators) {
+    switch (indicator) {
+      case 'sma':
+        series.sma = sma(prices, p.sma);
+        break;
+      case 'ema':
+        series.ema = ema(prices, p.ema);
+        break;
+      case 'rsi':
+        series.rsi = rsi(prices, p.rsi);
+        break;
+      case 'macd': {
+        const result = macd(prices, p.macdFast, p.macdSlow, p.macdSignal);
+        series['macd.macd'] = result.macd;
+        series['macd.signal'] = result.signal;
+        series['macd.histogram'] = result.histogram;
+        break;
+      }
+      case 'bollinger': {
+        const result = bollinger(prices, p.bollinger, p.bollingerStdDev);
+        series['bollinger.middle'] = result.middle;
+        series['bollinger.upper'] = result.upper;
+        series['bollinger.lower'] = result.lower;
+        break;
+      }
+      case 'atr':
+        series.atr = atr(prices, p.atr);
+        series.atrPercent = series.atr.map((v, i) => (v === null || prices[i] === 0 ? null : (v / prices[i]) * 100));
+        break;
+      case 'roc':
+        series.roc = roc(prices, p.roc);
+        break;
+    }
+  }
+
+  return series;
+}
+
+// Output shapes for get_indicators
+export type IndicatorOutput = 'latest' | 'series';
+
+// Default number of points returned in series output
+const DEFAULT_SERIES_LENGTH = 50;
+
+/**
+ * Round to 6 significant digits to keep responses compact
+ */
+function compact(value: number | null): number | null {
+  return value === null ? null : Number(value.toPrecision(6));
+}
+
+/**
+ * Nest dotted series names (macd.signal) into objects
+ */
+function nest(values: Record<string, number | null>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const groups: Record<string, Record<string, number | null>> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const [group, key] = name.split('.');
+    if (key) {
+      groups[group] = { ...groups[group], [key]: value };
+      result[group] = groups[group];
+    } else {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fetch price history and compute indicators over it
+ *
+ * @param params Price history parameters (token, chain, interval, time range)
+ * @param indicators Indicators to compute
+ * @param periods Indicator periods
+ * @param output Latest values only, or compact series
+ * @param seriesLength Number of most recent points in series output
+ * @returns The indicators or an error response
+ */
+export async function getIndicators(
+  params: PriceHistoryParams,
+  indicators: readonly IndicatorName[] = INDICATOR_NAMES,
+  periods: Partial<IndicatorPeriods> = {},
+  output: IndicatorOutput = 'latest',
+  seriesLength: number = DEFAULT_SERIES_LENGTH
+): Promise<(ApiResponse & Record<string, unknown>) | ErrorResponse> {
+  const response = await tradingClient.getPriceHistory(params);
+  if (isErrorResponse(response)) {
+    return response;
+  }
+
+  const history = [...response.history].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const series = computeIndicators(history, indicators, periods);
+  const last = history.length - 1;
+
+  const result = {
+    success: true,
+    token: response.token,
+    chain: response.chain,
+    specificChain: response.specificChain,
+    interval: response.interval,
+    points: history.length,
+    from: history[0]?.timestamp ?? null,
+    to: history[last]?.timestamp ?? null,
+    periods: { ...DEFAULT_INDICATOR_PERIODS, ...periods }
+  };
+
+  const missing = Object.keys(series).filter((name) => last < 0 || series[name][last] === null);
+  const notes = missing.length > 0
+    ? [`Not enough price points for: ${missing.join(', ')}. Widen the time range or use a shorter interval.`]
+    : [];
+
+  if (output === 'series') {
+    const start = Math.max(0, history.length - seriesLength);
+    return {
+      ...result,
+      timestamps: history.slice(start).map((point) => point.timestamp),
+      series: Object.fromEntries(
+        Object.entries(series).map(([name, values]) => [name, values.slice(start).map(compact)])
+      ),
+      notes
+    };
+  }
+
+  return {
+    ...result,
+    latest: last < 0 ? null : {
+      timestamp: history[last].timestamp,
+      ...nest(Object.fromEntries(Object.entries(series).map(([name, values]) => [name, compact(values[last])])))
+    },
+    notes
+  };
+}
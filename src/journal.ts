@@ -0,0 +1,257 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config, logger } from './env.js';
+import { accounts } from './accounts.js';
+import type { SubmittedTrade } from './orders.js';
+import type { TradeParams } from './types.js';
+
+// Tools whose full response is kept in the journal (everything that can move funds)
+const RESPONSE_JOURNALED_TOOLS = new Set(['execute_trade', 'place_order', 'cancel_order', 'start_algo_order', 'cancel_algo_order', 'rebalance_portfolio']);
+
+// Default and maximum number of entries returned by a query
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+
+// Tool result as returned to the MCP client
+interface ToolResult {
+  content: { type: string; text?: string }[];
+  isError?: boolean;
+}
+
+// Conditional order, algo order or rebalance plan that placed a trade
+export interface TradeOrigin {
+  type: 'order' | 'algo' | 'rebalance';
+  id: string;
+}
+
+// One journaled tool call
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  account?: string;          // Account the call ran as
+  origin?: TradeOrigin;      // Set on trades placed in the background rather than by a tool call
+  arguments: Record<string, unknown>;
+  success: boolean;
+  latencyMs: number;
+  tokens: string[];          // Token arguments and trade addresses, for filtering
+  error?: unknown;           // Error text or classified error for failed calls
+  response?: unknown;        // Full response for trade tools (e.g. the TradeResponse with its reason)
+}
+
+// Filters accepted by query_journal
+export interface JournalQuery {
+  tool?: string;
+  tokens?: string[];         // Match entries involving any of these (symbols or addresses)
+  startTime?: string;
+  endTime?: string;
+  success?: boolean;
+  limit?: number;
+}
+
+/**
+ * Parse tool result text as JSON, falling back to the raw text
+ */
+function parseResultText(result: ToolResult): unknown {
+  const text = result.content.map((item) => item.text ?? '').join('\n');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Collect every string value under a key ending in "token" (e.g. token, fromToken)
+ */
+function collectTokens(value: unknown, tokens: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectTokens(item, tokens));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (/token$/i.test(key) && typeof item === 'string') {
+        tokens.add(item);
+      } else {
+        collectTokens(item, tokens);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Append-only audit journal
+ *
+ * Records every tool call as a JSON line with its arguments, outcome and
+ * latency, keeping the full response for trade tools so the reason behind
+ * each trade outlives the MCP session.
+ */
+export class Journal {
+  private readonly filePath: string | null;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new journal
+   *
+   * @param filePath Path to the JSON lines file (null disables journaling)
+   */
+  constructor(filePath: string | null = config.TRADING_SIM_JOURNAL_FILE) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Whether tool calls are being recorded
+   */
+  isEnabled(): boolean {
+    return this.filePath !== null;
+  }
+
+  /**
+   * Append an entry (writes are serialized so lines never interleave)
+   */
+  private append(entry: JournalEntry): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    this.pending = this.pending
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      })
+      .catch((error) => {
+        logger.warn(`[Journal] Failed to write entry: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return this.pending;
+  }
+
+  /**
+   * Record a completed tool call
+   *
+   * @param tool The tool name
+   * @param args The call arguments
+   * @param result The tool result returned to the client
+   * @param latencyMs Time taken to handle the call
+   */
+  async recordToolCall(tool: string, args: Record<string, unknown>, result: ToolResult, latencyMs: number): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const success = !result.isError;
+    const parsed = !success || RESPONSE_JOURNALED_TOOLS.has(tool) ? parseResultText(result) : undefined;
+
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool,
+      account: accounts.current(),
+      arguments: args,
+      success,
+      latencyMs,
+      tokens: [...collectTokens([args, RESPONSE_JOURNALED_TOOLS.has(tool) ? parsed : undefined])]
+    };
+    if (!success) entry.error = parsed;
+    if (RESPONSE_JOURNALED_TOOLS.has(tool)) entry.response = parsed;
+
+    await this.append(entry);
+  }
+
+  /**
+   * Record a trade placed by a conditional order, algo slice or rebalance
+   *
+   * Such trades have no tool call of their own, so each one is journaled as an
+   * execute_trade entry with the resolved trade parameters and its origin.
+   *
+   * @param origin The order, algo or plan that placed the trade
+   * @param params The trade parameters
+   * @param outcome The transaction, or the error or rejected risk check
+   * @param latencyMs Time taken to check and execute the trade
+   */
+  async recordTrade(
+    origin: TradeOrigin,
+    params: TradeParams,
+    outcome: SubmittedTrade,
+    latencyMs: number
+  ): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: 'execute_trade',
+      account: accounts.current(),
+      origin,
+      arguments: { ...params },
+      success: outcome.success,
+      latencyMs,
+      tokens: [...collectTokens([params, outcome])],
+      response: outcome
+    };
+    if (!outcome.success) entry.error = outcome.error;
+
+    await this.append(entry);
+  }
+
+  /**
+   * Query the journal, newest first
+   *
+   * @param query Filters and result limit
+   * @returns Matching entries
+   */
+  async query(query: JournalQuery = {}): Promise<{ success: true; file: string | null; count: number; entries: JournalEntry[] }> {
+    if (!this.filePath) {
+      return { success: true, file: null, count: 0, entries: [] };
+    }
+
+    // Make sure writes already queued are visible
+    await this.pending;
+
+    let text = '';
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const start = query.startTime ? Date.parse(query.startTime) : undefined;
+    const end = query.endTime ? Date.parse(query.endTime) : undefined;
+    const tokens = query.tokens?.map((t) => t.toLowerCase());
+    const limit = Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+
+    const entries: JournalEntry[] = [];
+    const lines = text.split('\n');
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      if (!lines[i].trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        continue; // Partially written line
+      }
+
+      // Only show the current account's calls (entries from before accounts belong to the default)
+      if ((entry.account ?? accounts.getDefault()) !== accounts.current()) continue;
+
+      const time = Date.parse(entry.timestamp);
+      if (query.tool && entry.tool !== query.tool) continue;
+      if (query.success !== undefined && entry.success !== query.success) continue;
+      if (start !== undefined && time < start) continue;
+      if (end !== undefined && time > end) continue;
+      if (tokens && !entry.tokens.some((t) => tokens.includes(t.toLowerCase()))) continue;
+
+      entries.push(entry);
+    }
+
+    return { success: true, file: this.filePath, count: entries.length, entries };
+  }
+}
+
+// Export a pre-configured instance of the journal
+export const journal = new Journal();
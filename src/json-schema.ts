@@ -0,0 +1,247 @@
+// JSON Schema subset used for tool input schemas and the config file. Each
+// builder below returns plain JSON Schema while keeping enough type
+// information to derive the matching TypeScript type with FromSchema.
+
+export interface StringSchema {
+  type: 'string';
+  description?: string;
+  pattern?: string;
+  format?: 'date-time';
+  minLength?: number;
+}
+
+export interface EnumSchema<E extends string> {
+  type: 'string';
+  enum: readonly E[];
+  description?: string;
+}
+
+export interface NumberSchema {
+  type: 'number' | 'integer';
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema {
+  type: 'boolean';
+  description?: string;
+}
+
+export interface ArraySchema<I extends JsonSchema = JsonSchema> {
+  type: 'array';
+  items: I;
+  description?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema<
+  P extends Record<string, JsonSchema> = Record<string, JsonSchema>,
+  R extends keyof P = keyof P
+> {
+  type: 'object';
+  description?: string;
+  properties: P;
+  required?: readonly R[];
+  additionalProperties?: boolean;
+}
+
+export type JsonSchema =
+  | StringSchema
+  | EnumSchema<string>
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Derive the TypeScript type described by a schema
+export type FromSchema<S> =
+  S extends EnumSchema<infer E> ? E :
+  S extends StringSchema ? string :
+  S extends NumberSchema ? number :
+  S extends BooleanSchema ? boolean :
+  S extends ArraySchema<infer I> ? FromSchema<I>[] :
+  S extends ObjectSchema<infer P, infer R>
+    ? Simplify<{ [K in R]: FromSchema<P[K]> } & { [K in Exclude<keyof P, R>]?: FromSchema<P[K]> }>
+    : unknown;
+
+/**
+ * Schema builders
+ */
+export const schema = {
+  string(description: string, options: Omit<StringSchema, 'type' | 'description'> = {}): StringSchema {
+    return { type: 'string', description, ...options };
+  },
+
+  enum<E extends string>(values: readonly E[], description: string): EnumSchema<E> {
+    return { type: 'string', enum: values, description };
+  },
+
+  number(description: string, options: Omit<NumberSchema, 'type' | 'description'> = {}): NumberSchema {
+    return { type: 'number', description, ...options };
+  },
+
+  integer(description: string, options: Omit<NumberSchema, 'type' | 'description'> = {}): NumberSchema {
+    return { type: 'integer', description, ...options };
+  },
+
+  boolean(description: string): BooleanSchema {
+    return { type: 'boolean', description };
+  },
+
+  array<I extends JsonSchema>(items: I, description: string, options: Omit<ArraySchema<I>, 'type' | 'items' | 'description'> = {}): ArraySchema<I> {
+    return { type: 'array', items, description, ...options };
+  },
+
+  object<P extends Record<string, JsonSchema>, R extends keyof P & string = never>(
+    properties: P,
+    required: readonly R[] = [],
+    description?: string
+  ): ObjectSchema<P, R> {
+    return {
+      type: 'object',
+      ...(description ? { description } : {}),
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  },
+
+  /**
+   * Add properties to an object schema, keeping its required list
+   */
+  extend<P extends Record<string, JsonSchema>, R extends keyof P & string, P2 extends Record<string, JsonSchema>, R2 extends keyof P2 & string = never>(
+    base: ObjectSchema<P, R>,
+    properties: P2,
+    required: readonly R2[] = []
+  ): ObjectSchema<P & P2, R | R2> {
+    return schema.object<P & P2, R | R2>(
+      { ...base.properties, ...properties },
+      [...(base.required ?? []), ...required]
+    );
+  }
+};
+
+// Positive decimal amount such as "100" or "0.5"
+export const AMOUNT_PATTERN = '^(?=.*[1-9])\\d+(\\.\\d+)?$';
+
+// Non-negative decimal such as "0.5"
+export const DECIMAL_PATTERN = '^\\d+(\\.\\d+)?$';
+
+// Readable messages for the patterns used in tool schemas
+const PATTERN_MESSAGES: Record<string, string> = {
+  [AMOUNT_PATTERN]: 'must be a positive decimal string such as "100" or "0.5"',
+  [DECIMAL_PATTERN]: 'must be a non-negative decimal string such as "0.5"'
+};
+
+/**
+ * Describe a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 50 ? `${value.slice(0, 50)}...` : value);
+  if (typeof value === 'object') return 'object';
+  return String(value);
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param input The schema to validate against
+ * @param value The value to validate
+ * @param path The property path used in error messages
+ * @returns Field-level error messages (empty if the value is valid)
+ */
+export function validateSchema(input: JsonSchema & { additionalProperties?: boolean }, value: unknown, path: string = ''): string[] {
+  const field = path || 'arguments';
+
+  switch (input.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${field}: must be a string (got ${describe(value)})`];
+      }
+      if ('enum' in input) {
+        return input.enum.includes(value)
+          ? []
+          : [`${field}: must be one of ${input.enum.join(', ')} (got ${describe(value)})`];
+      }
+      if (input.minLength !== undefined && value.length < input.minLength) {
+        return [`${field}: must not be empty`];
+      }
+      if (input.pattern && !new RegExp(input.pattern).test(value)) {
+        const expected = PATTERN_MESSAGES[input.pattern] ?? `must match ${input.pattern}`;
+        return [`${field}: ${expected} (got ${describe(value)})`];
+      }
+      if (input.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        return [`${field}: must be an ISO timestamp (got ${describe(value)})`];
+      }
+      return [];
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${field}: must be a number (got ${describe(value)})`];
+      }
+      if (input.type === 'integer' && !Number.isInteger(value)) {
+        return [`${field}: must be an integer (got ${value})`];
+      }
+      if (input.minimum !== undefined && value < input.minimum) {
+        return [`${field}: must be >= ${input.minimum} (got ${value})`];
+      }
+      if (input.maximum !== undefined && value > input.maximum) {
+        return [`${field}: must be <= ${input.maximum} (got ${value})`];
+      }
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${field}: must be a boolean (got ${describe(value)})`];
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${field}: must be an array (got ${describe(value)})`];
+      }
+      if (input.minItems !== undefined && value.length < input.minItems) {
+        return [`${field}: must contain at least ${input.minItems} item(s)`];
+      }
+      if (input.maxItems !== undefined && value.length > input.maxItems) {
+        return [`${field}: must contain at most ${input.maxItems} item(s)`];
+      }
+      return value.flatMap((item, index) => validateSchema(input.items, item, `${field}[${index}]`));
+    }
+
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${field}: must be an object (got ${describe(value)})`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      const prefix = path ? `${path}.` : '';
+
+      for (const key of input.required ?? []) {
+        if (record[key] === undefined) {
+          errors.push(`${prefix}${key}: is required`);
+        }
+      }
+
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = input.properties[key];
+        if (!propertySchema) {
+          if (input.additionalProperties === false) {
+            errors.push(`${prefix}${key}: is not a recognized argument`);
+          }
+          continue;
+        }
+        if (propertyValue !== undefined) {
+          errors.push(...validateSchema(propertySchema, propertyValue, `${prefix}${key}`));
+        }
+      }
+
+      return errors;
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import fs from 'fs';
+import path from 'path';
+import { inspect } from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
+import chalk from 'chalk';
+
+// Log levels, most severe first
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'trace'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Output formats: colored text lines or one JSON object per line
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+// Structured fields attached to a log line (e.g. a request's correlation id)
+export type LogFields = Record<string, unknown>;
+
+// Logger settings
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  file?: string | null;              // Also append every line to this file (null disables the file sink)
+  fileMaxBytes?: number;             // Rotate the file once it would grow past this size
+  fileMaxFiles?: number;             // Rotated files to keep (app.log.1 ... app.log.N)
+}
+
+// Text-format label for each level
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  error: chalk.red('[ERROR]'),
+  warn: chalk.yellow('[WARN]'),
+  info: chalk.blue('[INFO]'),
+  debug: chalk.gray('[DEBUG]'),
+  trace: chalk.gray('[TRACE]')
+};
+
+// Field names whose values are always redacted
+const SECRET_FIELD_PATTERN = /^(api[-_]?key|authorization|auth[-_]?token|password|secret)$/i;
+
+// Secret values embedded in text: bearer tokens and key/value pairs such as "apiKey": "..."
+const BEARER_PATTERN = /(Bearer\s+)[^\s"',]+/gi;
+const SECRET_PAIR_PATTERN = /(["']?(?:api[-_]?key|authorization|auth[-_]?token|password|secret)["']?\s*[:=]\s*["']?)(?!Bearer\s)([^\s"',}]+)/gi;
+
+const REDACTED = '[REDACTED]';
+
+// Secrets shorter than this are not redacted by value (too likely to match ordinary text)
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Rotating log file
+ *
+ * Lines are appended synchronously so nothing is lost on a crash. Once the
+ * file would grow past the size limit it is renamed to <file>.1, older files
+ * shift up by one and the oldest beyond the limit is deleted.
+ */
+class RotatingFile {
+  private readonly filePath: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number | null = null;
+
+  constructor(filePath: string, maxBytes: number, maxFiles: number) {
+    this.filePath = filePath;
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  /**
+   * Append a line, rotating first if it would not fit
+   */
+  write(line: string): void {
+    if (this.size === null) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.filePath, line, 'utf8');
+    this.size += bytes;
+  }
+
+  /**
+   * Shift <file> to <file>.1, <file>.1 to <file>.2 and so on
+   */
+  private rotate(): void {
+    fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${this.filePath}.${i}`)) {
+        fs.renameSync(`${this.filePath}.${i}`, `${this.filePath}.${i + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.rmSync(this.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Shared logger state (settings, sinks and registered secrets)
+ */
+interface LoggerState {
+  level: LogLevel;
+  format: LogFormat;
+  file: RotatingFile | null;
+  secrets: Set<string>;
+  context: AsyncLocalStorage<LogFields>;
+}
+
+/**
+ * Leveled logger
+ *
+ * Writes to stderr (stdout carries the MCP stdio transport) and optionally to
+ * a rotating file, as text or JSON lines. Child loggers add fixed fields such
+ * as a request id; withContext() adds fields to every line logged while a
+ * function runs. API keys, bearer tokens and registered secrets are redacted
+ * from messages and fields before anything is written.
+ */
+export class Logger {
+  private state: LoggerState = {
+    level: 'info',
+    format: 'text',
+    file: null,
+    secrets: new Set(),
+    context: new AsyncLocalStorage<LogFields>()
+  };
+  private fields: LogFields = {};
+
+  /**
+   * Create a new logger (defaults: info level, text format, no file)
+   *
+   * @param options Logger settings
+   */
+  constructor(options: LoggerOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Change the logger settings (shared with every child logger)
+   *
+   * @param options Settings to change
+   */
+  configure(options: LoggerOptions): void {
+    if (options.level) this.state.level = options.level;
+    if (options.format) this.state.format = options.format;
+    if (options.file !== undefined) {
+      this.state.file = options.file
+        ? new RotatingFile(options.file, options.fileMaxBytes ?? 10 * 1024 * 1024, options.fileMaxFiles ?? 5)
+        : null;
+    }
+  }
+
+  /**
+   * Current minimum level
+   */
+  getLevel(): LogLevel {
+    return this.state.level;
+  }
+
+  /**
+   * Whether lines at a level are written (use to skip building expensive messages)
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.state.level);
+  }
+
+  /**
+   * Redact a secret value wherever it appears in log output
+   *
+   * @param secret The secret (ignored if empty or very short)
+   */
+  addSecret(secret: string | undefined): void {
+    if (secret && secret.trim().length >= MIN_SECRET_LENGTH) {
+      this.state.secrets.add(secret.trim());
+    }
+  }
+
+  /**
+   * Create a logger that adds fields to every line
+   *
+   * @param fields Fields such as { requestId }
+   */
+  child(fields: LogFields): Logger {
+    const child = new Logger();
+    child.state = this.state;
+    child.fields = { ...this.fields, ...fields };
+    return child;
+  }
+
+  /**
+   * Run a function with fields added to every line logged while it runs
+   *
+   * @param fields Fields such as { callId, tool }
+   * @param fn The function to run
+   */
+  withContext<T>(fields: LogFields, fn: () => T): T {
+    return this.state.context.run({ ...this.state.context.getStore(), ...fields }, fn);
+  }
+
+  /**
+   * Log at error level
+   */
+  error(...args: unknown[]): void {
+    this.write('error', args);
+  }
+
+  /**
+   * Log at warn level
+   */
+  warn(...args: unknown[]): void {
+    this.write('warn', args);
+  }
+
+  /**
+   * Log at info level
+   */
+  info(...args: unknown[]): void {
+    this.write('info', args);
+  }
+
+  /**
+   * Log at debug level
+   */
+  debug(...args: unknown[]): void {
+    this.write('debug', args);
+  }
+
+  /**
+   * Log at trace level
+   */
+  trace(...args: unknown[]): void {
+    this.write('trace', args);
+  }
+
+  /**
+   * Redact secrets from text
+   */
+  private redact(text: string): string {
+    let result = text.replace(BEARER_PATTERN, `$1${REDACTED}`).replace(SECRET_PAIR_PATTERN, `$1${REDACTED}`);
+    for (const secret of this.state.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Redact secrets from a field value, by field name and by content
+   */
+  private redactValue(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (value instanceof Error) {
+      return { message: this.redact(value.message), stack: value.stack ? this.redact(value.stack) : undefined };
+    }
+    if (Array.isArray(value)) {
+      return depth > 5 ? '[Array]' : value.map((item) => this.redactValue(item, depth + 1));
+    }
+    if (value && typeof value === 'object') {
+      if (depth > 5) return '[Object]';
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_FIELD_PATTERN.test(key) && item !== undefined && item !== null ? REDACTED : this.redactValue(item, depth + 1)
+      ]));
+    }
+    return value;
+  }
+
+  /**
+   * Render a log argument as text (objects are inspected rather than printed as [object Object])
+   */
+  private stringify(arg: unknown): string {
+    if (typeof arg === 'string') {
+      return arg;
+    }
+    if (arg instanceof Error) {
+      return arg.stack ?? arg.message;
+    }
+    return inspect(this.redactValue(arg), { depth: 6, breakLength: Infinity, compact: true });
+  }
+
+  /**
+   * Format and write one line to every sink
+   */
+  private write(level: LogLevel, args: unknown[]): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const message = this.redact(args.map((arg) => this.stringify(arg)).join(' '));
+    const fields = this.redactValue({ ...this.state.context.getStore(), ...this.fields }) as LogFields;
+
+    let plain: string;
+    let colored: string;
+    if (this.state.format === 'json') {
+      plain = colored = `${JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields })}\n`;
+    } else {
+      const suffix = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join('');
+      plain = `${new Date().toISOString()} [${level.toUpperCase()}] ${message}${suffix}\n`;
+      colored = `${LEVEL_LABELS[level]} ${message}${suffix ? chalk.gray(suffix) : ''}\n`;
+    }
+
+    process.stderr.write(colored);
+    if (this.state.file) {
+      try {
+        this.state.file.write(plain);
+      } catch (error) {
+        // Keep logging to stderr if the file becomes unwritable
+        process.stderr.write(`${LEVEL_LABELS.error} Failed to write log file: ${error instanceof Error ? error.message : String(error)}\n`);
+        this.state.file = null;
+      }
+    }
+  }
+}
+
+// Export a pre-configured logger (settings are applied from the environment in env.ts)
+export const logger = new Logger();
@@ -0,0 +1,713 @@
+#!/usr/bin/env node
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+import { logger } from './env.js';
+import { TokenRegistryEntry, sameTokenAddress, tokenRegistry } from './token-registry.js';
+import {
+  BlockchainType,
+  CompetitionStatus,
+  PortfolioSource,
+  SpecificChain,
+  TeamMetadata,
+  TokenBalance,
+  TradeTransaction,
+} from './types.js';
+
+// Scripted price path: prices stepped through at a fixed interval, holding the last value
+export interface ScriptedPricePath {
+  points: number[];
+  stepMs: number;
+}
+
+// Options for the mock Trading Simulator server
+export interface MockServerOptions {
+  port?: number;                     // Port to listen on (0 picks a free port)
+  host?: string;                     // Bind address
+  apiKey?: string;                   // Required bearer token (any key is accepted if unset)
+  tokens?: TokenRegistryEntry[];     // Tradable tokens (defaults to the token registry)
+  basePrices?: Record<string, number>; // Starting USD prices by symbol
+  pricePaths?: Record<string, ScriptedPricePath>; // Scripted prices by token address
+  initialUsdc?: number;              // Starting USDC balance on every chain that has USDC
+  allowCrossChainTrading?: boolean;
+  competitionActive?: boolean;
+  volatility?: number;               // Amplitude of the deterministic price wave (0.02 = ±2%)
+}
+
+// Default USD prices by symbol
+const DEFAULT_BASE_PRICES: Record<string, number> = {
+  USDC: 1,
+  USDT: 1,
+  SOL: 150,
+  ETH: 3000,
+  WETH: 3000
+};
+
+// Period of the deterministic price wave
+const PRICE_WAVE_PERIOD_MS = 60 * 60 * 1000;
+
+// Slippage grows 0.5% per $10k traded, capped at 5%
+const SLIPPAGE_PER_10K_USD = 0.005;
+const MAX_SLIPPAGE = 0.05;
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '1h': 3_600_000,
+  '4h': 14_400_000,
+  '1d': 86_400_000
+};
+
+/**
+ * Error returned to the client with an HTTP status
+ */
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Body of PUT /api/account/profile
+interface ProfileUpdateBody {
+  contactPerson?: string;
+  metadata?: TeamMetadata;
+}
+
+// Body of POST /api/trade/execute
+interface TradeBody {
+  fromToken?: string;
+  toToken?: string;
+  amount?: string;
+  reason?: string;
+  fromSpecificChain?: string;
+  toSpecificChain?: string;
+}
+
+/**
+ * Check that a request body is a JSON object
+ */
+function bodyObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new MockHttpError(400, 'INVALID_REQUEST', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Read an optional string field of a request body
+ */
+function optionalString(fields: Record<string, unknown>, key: string): string | undefined {
+  const value = fields[key];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new MockHttpError(400, 'INVALID_REQUEST', `${key} must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Parse the body of a profile update
+ */
+function parseProfileUpdate(body: unknown): ProfileUpdateBody {
+  const fields = bodyObject(body);
+  const metadata = fields.metadata;
+  if (metadata !== undefined && (!metadata || typeof metadata !== 'object' || Array.isArray(metadata))) {
+    throw new MockHttpError(400, 'INVALID_REQUEST', 'metadata must be an object');
+  }
+  return { contactPerson: optionalString(fields, 'contactPerson'), metadata: metadata as TeamMetadata | undefined };
+}
+
+/**
+ * Parse the body of a trade execution
+ */
+function parseTradeBody(body: unknown): TradeBody {
+  const fields = bodyObject(body);
+  return {
+    fromToken: optionalString(fields, 'fromToken'),
+    toToken: optionalString(fields, 'toToken'),
+    amount: optionalString(fields, 'amount'),
+    reason: optionalString(fields, 'reason'),
+    fromSpecificChain: optionalString(fields, 'fromSpecificChain'),
+    toSpecificChain: optionalString(fields, 'toSpecificChain')
+  };
+}
+
+/**
+ * Stable hash of a string in [0, 1), used to give each token its own price phase
+ */
+function hashUnit(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 2 ** 32;
+}
+
+/**
+ * Mock Trading Simulator
+ *
+ * In-memory stand-in for the Trading Simulator API that implements every
+ * route used by TradingSimulatorClient, with deterministic or scripted
+ * prices, simulated slippage and balances, for local development and tests.
+ */
+export class MockTradingSimulator {
+  private readonly options: Required<Omit<MockServerOptions, 'apiKey' | 'tokens' | 'pricePaths'>> &
+    Pick<MockServerOptions, 'apiKey'>;
+  private readonly tokens: TokenRegistryEntry[];
+  private readonly pricePaths: Record<string, ScriptedPricePath>;
+  private readonly manualPrices = new Map<string, number>();
+  private readonly startedAt = Date.now();
+  private server: http.Server | null = null;
+  private balances: TokenBalance[] = [];
+  private trades: TradeTransaction[] = [];
+  private readonly teamId = 'mock-team';
+  private readonly competitionId = 'mock-competition';
+  private profile: { contactPerson: string; metadata?: TeamMetadata; updatedAt: string };
+
+  /**
+   * Create a new mock simulator
+   *
+   * @param options Server, market and account settings
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 3000,
+      host: options.host ?? '127.0.0.1',
+      apiKey: options.apiKey,
+      basePrices: { ...DEFAULT_BASE_PRICES, ...options.basePrices },
+      initialUsdc: options.initialUsdc ?? 10000,
+      allowCrossChainTrading: options.allowCrossChainTrading ?? true,
+      competitionActive: options.competitionActive ?? true,
+      volatility: options.volatility ?? 0.02
+    };
+    this.tokens = options.tokens ?? tokenRegistry.list();
+    this.pricePaths = options.pricePaths ?? {};
+    this.profile = { contactPerson: 'Mock Agent', updatedAt: new Date().toISOString() };
+    this.reset();
+  }
+
+  /**
+   * Restore the starting balances and clear trades and manual prices
+   */
+  reset(): void {
+    this.trades = [];
+    this.manualPrices.clear();
+    this.balances = this.tokens
+      .filter((token) => token.symbol === 'USDC')
+      .map((token) => ({
+        token: token.address,
+        amount: this.options.initialUsdc,
+        chain: token.chain,
+        specificChain: token.specificChain
+      }));
+  }
+
+  /**
+   * Pin a token's price until reset
+   *
+   * @param address The token address
+   * @param price The USD price
+   */
+  setPrice(address: string, price: number): void {
+    this.manualPrices.set(address.toLowerCase(), price);
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The base URL of the running server
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('[MockServer] Unhandled error:', error instanceof Error ? error.message : String(error));
+        this.send(res, 500, { success: false, error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(this.options.port, this.options.host, resolve));
+    const address = this.server.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => this.server!.close((error) => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  /**
+   * Find a tradable token by address and optional chain
+   */
+  private findToken(address: string, specificChain?: string | null): TokenRegistryEntry {
+    const token = this.tokens.find((t) =>
+      sameTokenAddress(t.address, address) && (!specificChain || t.specificChain === specificChain)
+    );
+    if (!token) {
+      throw new MockHttpError(400, 'UNSUPPORTED_TOKEN', `Unsupported token: ${address}${specificChain ? ` on ${specificChain}` : ''}`);
+    }
+    return token;
+  }
+
+  /**
+   * Price of a token at a point in time
+   */
+  private priceAt(token: TokenRegistryEntry, time: number): number {
+    const manual = this.manualPrices.get(token.address.toLowerCase());
+    if (manual !== undefined) {
+      return manual;
+    }
+
+    const path = Object.entries(this.pricePaths).find(([address]) => sameTokenAddress(address, token.address))?.[1];
+    if (path && path.points.length > 0) {
+      const step = Math.max(0, Math.floor((time - this.startedAt) / path.stepMs));
+      return path.points[Math.min(step, path.points.length - 1)];
+    }
+
+    const base = this.options.basePrices[token.symbol] ?? 1;
+    // Stablecoins stay pegged; everything else follows a deterministic wave
+    if (base === 1 && /^USD/.test(token.symbol)) {
+      return 1;
+    }
+    const phase = hashUnit(token.address) * 2 * Math.PI;
+    const wave = Math.sin((2 * Math.PI * time) / PRICE_WAVE_PERIOD_MS + phase);
+    return Math.round(base * (1 + this.options.volatility * wave) * 1e6) / 1e6;
+  }
+
+  /**
+   * Find or create the balance entry for a token
+   */
+  private balanceOf(token: TokenRegistryEntry): TokenBalance {
+    let balance = this.balances.find((b) => sameTokenAddress(b.token, token.address) && b.specificChain === token.specificChain);
+    if (!balance) {
+      balance = { token: token.address, amount: 0, chain: token.chain, specificChain: token.specificChain };
+      this.balances.push(balance);
+    }
+    return balance;
+  }
+
+  /**
+   * Price a trade, applying slippage
+   */
+  private quote(query: URLSearchParams) {
+    const fromAddress = query.get('fromToken');
+    const toAddress = query.get('toToken');
+    const amount = Number(query.get('amount'));
+    if (!fromAddress || !toAddress || !Number.isFinite(amount) || amount <= 0) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', 'fromToken, toToken and a positive amount are required');
+    }
+
+    const from = this.findToken(fromAddress, query.get('fromSpecificChain'));
+    const to = this.findToken(toAddress, query.get('toSpecificChain'));
+    if (from.specificChain !== to.specificChain && !this.options.allowCrossChainTrading) {
+      throw new MockHttpError(400, 'CROSS_CHAIN_DISABLED', 'Cross-chain trading is disabled for this competition');
+    }
+
+    const now = Date.now();
+    const fromPrice = this.priceAt(from, now);
+    const toPrice = this.priceAt(to, now);
+    const usdValue = amount * fromPrice;
+    const slippage = Math.min(MAX_SLIPPAGE, (usdValue / 10000) * SLIPPAGE_PER_10K_USD);
+    const toAmount = (usdValue * (1 - slippage)) / toPrice;
+
+    return { from, to, amount, fromPrice, toPrice, toAmount, slippage };
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const method = (req.method ?? 'GET').toUpperCase();
+    const route = `${method} ${url.pathname}`;
+
+    try {
+      if (!url.pathname.startsWith('/api/health')) {
+        this.authenticate(req);
+      }
+      const body = method === 'GET' ? null : await this.readBody(req);
+      this.send(res, 200, this.route(route, url.searchParams, body));
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        this.send(res, error.status, { success: false, error: { code: error.code, message: error.message } });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check the bearer token when an API key is configured
+   */
+  private authenticate(req: http.IncomingMessage): void {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('Bearer ') || header.length <= 'Bearer '.length) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Missing API key');
+    }
+    if (this.options.apiKey && header !== `Bearer ${this.options.apiKey}`) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body
+   */
+  private async readBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (!text) {
+      return {};
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new MockHttpError(400, 'INVALID_JSON', 'Request body must be valid JSON');
+    }
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Dispatch a request to its handler
+   */
+  private route(route: string, query: URLSearchParams, body: unknown): unknown {
+    switch (route) {
+      case 'GET /api/account/profile':
+        return this.getProfile();
+      case 'PUT /api/account/profile':
+        return this.updateProfile(parseProfileUpdate(body));
+      case 'GET /api/account/balances':
+        return { success: true, teamId: this.teamId, balances: this.balances.map((b) => ({ ...b })) };
+      case 'GET /api/account/portfolio':
+        return this.getPortfolio();
+      case 'GET /api/account/trades':
+        return this.getTrades(query);
+      case 'GET /api/price':
+        return this.getPrice(query);
+      case 'GET /api/price/token-info':
+        return this.getTokenInfo(query);
+      case 'GET /api/price/history':
+        return this.getPriceHistory(query);
+      case 'GET /api/trade/quote':
+        return this.getQuote(query);
+      case 'POST /api/trade/execute':
+        return this.executeTrade(parseTradeBody(body));
+      case 'GET /api/competition/status':
+        return this.getCompetitionStatus();
+      case 'GET /api/competition/leaderboard':
+        return this.getLeaderboard();
+      case 'GET /api/competition/rules':
+        return this.getRules();
+      case 'GET /api/health':
+        return { success: true, status: 'ok', version: 'mock', uptime: this.uptime(), timestamp: new Date().toISOString() };
+      case 'GET /api/health/detailed':
+        return this.getDetailedHealth();
+      default:
+        throw new MockHttpError(404, 'NOT_FOUND', `Route not found: ${route}`);
+    }
+  }
+
+  private uptime(): number {
+    return Math.floor((Date.now() - this.startedAt) / 1000);
+  }
+
+  private getProfile() {
+    return {
+      success: true,
+      team: {
+        id: this.teamId,
+        name: 'Mock Team',
+        email: 'mock@example.com',
+        contactPerson: this.profile.contactPerson,
+        metadata: this.profile.metadata,
+        createdAt: new Date(this.startedAt).toISOString(),
+        updatedAt: this.profile.updatedAt
+      }
+    };
+  }
+
+  private updateProfile(body: ProfileUpdateBody) {
+    if (body.contactPerson !== undefined) this.profile.contactPerson = body.contactPerson;
+    if (body.metadata !== undefined) this.profile.metadata = body.metadata;
+    this.profile.updatedAt = new Date().toISOString();
+    return this.getProfile();
+  }
+
+  private portfolioValue(): number {
+    const now = Date.now();
+    return this.balances.reduce((sum, b) => sum + b.amount * this.priceAt(this.findToken(b.token, b.specificChain), now), 0);
+  }
+
+  private getPortfolio() {
+    const now = Date.now();
+    const tokens = this.balances.map((b) => {
+      const price = this.priceAt(this.findToken(b.token, b.specificChain), now);
+      return { ...b, price, value: b.amount * price };
+    });
+    return {
+      success: true,
+      teamId: this.teamId,
+      totalValue: tokens.reduce((sum, t) => sum + t.value, 0),
+      tokens,
+      snapshotTime: new Date(now).toISOString(),
+      source: PortfolioSource.LIVE_CALCULATION
+    };
+  }
+
+  private getTrades(query: URLSearchParams) {
+    const limit = Number(query.get('limit') ?? 20);
+    const offset = Number(query.get('offset') ?? 0);
+    const token = query.get('token');
+    const chain = query.get('chain');
+
+    const trades = [...this.trades]
+      .reverse()
+      .filter((t) => !token || sameTokenAddress(t.fromToken, token) || sameTokenAddress(t.toToken, token))
+      .filter((t) => !chain || t.fromChain === chain || t.toChain === chain)
+      .slice(offset, offset + limit);
+
+    return { success: true, teamId: this.teamId, trades };
+  }
+
+  private requireToken(query: URLSearchParams): TokenRegistryEntry {
+    const address = query.get('token');
+    if (!address) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', 'token is required');
+    }
+    return this.findToken(address, query.get('specificChain'));
+  }
+
+  private getPrice(query: URLSearchParams) {
+    const token = this.requireToken(query);
+    return {
+      success: true,
+      price: this.priceAt(token, Date.now()),
+      token: token.address,
+      chain: token.chain,
+      specificChain: token.specificChain,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private getTokenInfo(query: URLSearchParams) {
+    const token = this.requireToken(query);
+    return {
+      success: true,
+      token: token.address,
+      chain: token.chain,
+      specificChain: token.specificChain,
+      symbol: token.symbol,
+      name: token.name ?? token.symbol,
+      decimals: token.decimals,
+      price: this.priceAt(token, Date.now())
+    };
+  }
+
+  private getPriceHistory(query: URLSearchParams) {
+    const token = this.requireToken(query);
+    const interval = query.get('interval') ?? '1h';
+    const step = INTERVAL_MS[interval];
+    if (!step) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', `Unsupported interval: ${interval}`);
+    }
+
+    const end = query.get('endTime') ? Date.parse(query.get('endTime')!) : Date.now();
+    const start = query.get('startTime') ? Date.parse(query.get('startTime')!) : end - 24 * 3_600_000;
+    if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', 'startTime and endTime must be ISO timestamps with startTime before endTime');
+    }
+
+    const history = [];
+    // Cap the number of points so wide ranges stay cheap
+    for (let time = Math.max(start, end - step * 1000); time <= end; time += step) {
+      history.push({ timestamp: new Date(time).toISOString(), price: this.priceAt(token, time) });
+    }
+
+    return {
+      success: true,
+      token: token.address,
+      chain: token.chain,
+      specificChain: token.specificChain,
+      interval,
+      history
+    };
+  }
+
+  private getQuote(query: URLSearchParams) {
+    const quote = this.quote(query);
+    return {
+      success: true,
+      fromToken: quote.from.address,
+      toToken: quote.to.address,
+      fromAmount: quote.amount,
+      toAmount: quote.toAmount,
+      exchangeRate: quote.toAmount / quote.amount,
+      slippage: quote.slippage * 100,
+      prices: { fromToken: quote.fromPrice, toToken: quote.toPrice },
+      chains: { fromChain: quote.from.chain, toChain: quote.to.chain },
+      fromSpecificChain: quote.from.specificChain,
+      toSpecificChain: quote.to.specificChain
+    };
+  }
+
+  private executeTrade(body: TradeBody) {
+    if (!this.options.competitionActive) {
+      throw new MockHttpError(403, 'COMPETITION_INACTIVE', 'No active competition');
+    }
+    if (!body.reason) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', 'reason is required');
+    }
+
+    const query = new URLSearchParams();
+    for (const key of ['fromToken', 'toToken', 'amount', 'fromSpecificChain', 'toSpecificChain'] as const) {
+      const value = body[key];
+      if (value !== undefined) query.set(key, value);
+    }
+    const quote = this.quote(query);
+
+    const fromBalance = this.balanceOf(quote.from);
+    if (fromBalance.amount < quote.amount) {
+      throw new MockHttpError(400, 'INSUFFICIENT_BALANCE', `Insufficient balance: ${fromBalance.amount} available, ${quote.amount} required`);
+    }
+
+    fromBalance.amount -= quote.amount;
+    this.balanceOf(quote.to).amount += quote.toAmount;
+
+    const transaction: TradeTransaction = {
+      id: randomUUID(),
+      teamId: this.teamId,
+      competitionId: this.competitionId,
+      fromToken: quote.from.address,
+      toToken: quote.to.address,
+      fromAmount: quote.amount,
+      toAmount: quote.toAmount,
+      price: quote.toAmount / quote.amount,
+      success: true,
+      reason: body.reason,
+      timestamp: new Date().toISOString(),
+      fromChain: quote.from.chain,
+      toChain: quote.to.chain,
+      fromSpecificChain: quote.from.specificChain,
+      toSpecificChain: quote.to.specificChain
+    };
+    this.trades.push(transaction);
+
+    return { success: true, transaction };
+  }
+
+  private competition() {
+    return {
+      id: this.competitionId,
+      name: 'Mock Competition',
+      description: 'Local mock competition',
+      startDate: new Date(this.startedAt).toISOString(),
+      endDate: null,
+      status: this.options.competitionActive ? CompetitionStatus.ACTIVE : CompetitionStatus.COMPLETED,
+      allowCrossChainTrading: this.options.allowCrossChainTrading,
+      createdAt: new Date(this.startedAt).toISOString(),
+      updatedAt: new Date(this.startedAt).toISOString()
+    };
+  }
+
+  private getCompetitionStatus() {
+    return {
+      success: true,
+      active: this.options.competitionActive,
+      competition: this.competition(),
+      participating: true
+    };
+  }
+
+  private getLeaderboard() {
+    const ours = this.portfolioValue();
+    const entries = [
+      { teamId: this.teamId, teamName: 'Mock Team', portfolioValue: ours },
+      { teamId: 'mock-rival-1', teamName: 'Rival One', portfolioValue: this.options.initialUsdc * 3.1 },
+      { teamId: 'mock-rival-2', teamName: 'Rival Two', portfolioValue: this.options.initialUsdc * 2.9 }
+    ]
+      .sort((a, b) => b.portfolioValue - a.portfolioValue)
+      .map((entry, index) => ({ rank: index + 1, ...entry, active: true }));
+
+    return { success: true, competition: this.competition(), leaderboard: entries, hasInactiveTeams: false };
+  }
+
+  private getRules() {
+    const evmChains = [...new Set(this.tokens.filter((t) => t.chain === BlockchainType.EVM).map((t) => t.specificChain))];
+    return {
+      success: true,
+      rules: {
+        tradingRules: [
+          'Trades require a reason',
+          'Trades must not exceed the available balance',
+          this.options.allowCrossChainTrading ? 'Cross-chain trading is allowed' : 'Cross-chain trading is disabled'
+        ],
+        rateLimits: [
+          '100 requests per minute for trade operations',
+          '300 requests per minute for price queries',
+          '30 requests per minute for balance and portfolio checks',
+          '3000 requests per minute across all endpoints'
+        ],
+        availableChains: {
+          svm: this.tokens.some((t) => t.specificChain === SpecificChain.SVM),
+          evm: evmChains
+        },
+        slippageFormula: `slippage = min(${MAX_SLIPPAGE * 100}%, ${SLIPPAGE_PER_10K_USD * 100}% per $10,000 traded)`,
+        portfolioSnapshots: { interval: '5 minutes' }
+      }
+    };
+  }
+
+  private getDetailedHealth() {
+    return {
+      success: true,
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: this.uptime(),
+      version: 'mock',
+      services: {
+        priceTracker: 'ok',
+        balanceManager: 'ok',
+        tradeSimulator: 'ok',
+        competitionManager: 'ok',
+        teamManager: 'ok'
+      }
+    };
+  }
+}
+
+// Run as a standalone server when executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = new MockTradingSimulator({
+    port: Number(process.env.MOCK_SERVER_PORT ?? 3000),
+    host: process.env.MOCK_SERVER_HOST ?? '127.0.0.1',
+    apiKey: process.env.MOCK_SERVER_API_KEY || undefined
+  });
+  mock.start()
+    .then((url) => logger.info(`Mock Trading Simulator listening on ${url}`))
+    .catch((error) => {
+      logger.error('Failed to start mock server:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    });
+}
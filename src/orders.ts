@@ -0,0 +1,496 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config, logger } from './env.js';
+import { accounts, tradingClient } from './accounts.js';
+import { riskManager } from './risk.js';
+import { dryRunSimulator } from './dry-run.js';
+import { TradeOrigin, journal } from './journal.js';
+import { isErrorResponse } from './errors.js';
+import { BlockchainType, ErrorResponse, SpecificChain, TradeParams, TradeTransaction } from './types.js';
+
+// Conditional order types
+export const ORDER_TYPES = ['limit_buy', 'limit_sell', 'stop_loss', 'take_profit', 'trailing_stop'] as const;
+
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+// Order lifecycle states
+export const ORDER_STATUSES = ['pending', 'triggered', 'filled', 'failed', 'cancelled', 'expired'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// A conditional order
+//
+// limit_buy spends `amount` of the quote token on the watched token when its
+// price falls to the trigger; every other type sells `amount` of the watched
+// token into the quote token.
+export interface ConditionalOrder {
+  id: string;
+  type: OrderType;
+  status: OrderStatus;
+  account?: string;                  // Account that placed the order (the default account if missing)
+  token: string;                     // Watched token address
+  chain?: BlockchainType;
+  specificChain?: SpecificChain;
+  quoteToken: string;                // Token received on sells and spent on buys (usually USDC)
+  quoteChain?: BlockchainType;
+  quoteSpecificChain?: SpecificChain;
+  amount: string;                    // Amount of the token being sold (quote token for limit_buy)
+  triggerPrice?: number;             // USD trigger (all types except trailing_stop)
+  trailPercent?: number;             // trailing_stop: sell this % below the highest price seen
+  highWaterMark?: number;            // trailing_stop: highest price seen since placement
+  reason: string;
+  slippageTolerance?: string;
+  dryRun?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt?: string;
+  lastPrice?: number;
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+  transactionId?: string;
+  error?: unknown;
+}
+
+// Parameters for placing an order (token addresses already resolved)
+export type PlaceOrderParams = Pick<
+  ConditionalOrder,
+  'type' | 'token' | 'chain' | 'specificChain' | 'quoteToken' | 'quoteChain' | 'quoteSpecificChain' |
+  'amount' | 'triggerPrice' | 'trailPercent' | 'reason' | 'slippageTolerance' | 'dryRun' | 'expiresAt'
+>;
+
+// Filters accepted by list_orders
+export interface OrderQuery {
+  status?: OrderStatus;
+  token?: string;
+}
+
+// Outcome of a trade placed by a background order
+export type SubmittedTrade =
+  | { success: true; transaction: TradeTransaction }
+  | { success: false; error: unknown };
+
+// Finished orders kept in the orders file (pending orders are always kept)
+const MAX_FINISHED_ORDERS = 200;
+
+/**
+ * Account an order belongs to
+ */
+function ownerOf(order: { account?: string }): string {
+  return order.account ?? accounts.getDefault();
+}
+
+/**
+ * Round a USD price for display
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+/**
+ * Risk-check and execute a trade on behalf of a background order
+ *
+ * Applies the same risk policy and dry-run handling as execute_trade, one
+ * trade per account at a time, and journals the outcome with the order that
+ * placed the trade. Never throws: failures come back as an error string or
+ * the rejected risk check.
+ *
+ * @param params The trade parameters (with chains already resolved)
+ * @param origin The order, algo or rebalance plan placing the trade
+ * @param dryRun Per-order dry-run flag (defaults to the server setting)
+ */
+export async function submitTrade(params: TradeParams, origin: TradeOrigin, dryRun?: boolean): Promise<SubmittedTrade> {
+  const startedAt = Date.now();
+  const result = await executeTrade(params, dryRun);
+  await journal.recordTrade(origin, params, result, Date.now() - startedAt);
+  return result;
+}
+
+/**
+ * Risk-check and execute a trade, catching every failure
+ */
+async function executeTrade(params: TradeParams, dryRun?: boolean): Promise<SubmittedTrade> {
+  try {
+    const simulate = dryRunSimulator.shouldSimulate(dryRun);
+    return await riskManager.exclusive(async (): Promise<SubmittedTrade> => {
+      const riskCheck = await riskManager.checkTrade(params, simulate);
+      if (!riskCheck.approved) {
+        return { success: false, error: { rejected: true, ...riskCheck } };
+      }
+
+      const response = simulate
+        ? await dryRunSimulator.simulateTrade(params)
+        : await tradingClient.executeTrade(params);
+      return isErrorResponse(response)
+        ? { success: false, error: response.error }
+        : { success: true, transaction: response.transaction };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Order manager
+ *
+ * Keeps conditional orders in a JSON file so pending orders survive restarts,
+ * and polls token prices on an interval. When an order's trigger is hit it
+ * runs the trade through the risk check and executes it (or simulates it in
+ * dry-run mode) with the order id in the trade reason.
+ */
+export class OrderManager {
+  private readonly filePath: string;
+  private readonly intervalMs: number;
+  private orders: ConditionalOrder[] = [];
+  private loaded: Promise<void> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private lastCheckAt: string | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Create a new order manager
+   *
+   * @param filePath Path to the orders file
+   * @param intervalMs Price polling interval in milliseconds (0 disables the watcher)
+   */
+  constructor(
+    filePath: string = path.join(config.TRADING_SIM_DATA_DIR, 'orders.json'),
+    intervalMs: number = config.TRADING_SIM_ORDER_POLL_INTERVAL_MS
+  ) {
+    this.filePath = filePath;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Load the orders file once
+   */
+  private ensureLoaded(): Promise<void> {
+    this.loaded ??= fs.promises.readFile(this.filePath, 'utf8')
+      .then((text) => {
+        const orders = JSON.parse(text);
+        this.orders = Array.isArray(orders) ? orders : [];
+        // A trade that was in flight when the server stopped may or may not have executed
+        for (const order of this.orders.filter((o) => o.status === 'triggered')) {
+          order.status = 'failed';
+          order.error = 'Server stopped while the order was executing; check get_trades before placing it again';
+        }
+      })
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn(`[Orders] Ignoring unreadable orders file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+    return this.loaded;
+  }
+
+  /**
+   * Write the orders file (writes are serialized and replace the file atomically)
+   */
+  private save(): Promise<void> {
+    const finished = this.orders.filter((order) => order.status !== 'pending' && order.status !== 'triggered');
+    if (finished.length > MAX_FINISHED_ORDERS) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_ORDERS));
+      this.orders = this.orders.filter((order) => !dropped.has(order));
+    }
+
+    const content = JSON.stringify(this.orders, null, 2);
+    this.pending = this.pending
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const temporary = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(temporary, content, 'utf8');
+        await fs.promises.rename(temporary, this.filePath);
+      })
+      .catch((error) => {
+        logger.warn(`[Orders] Failed to write ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return this.pending;
+  }
+
+  /**
+   * Update an order and persist the change
+   */
+  private async update(order: ConditionalOrder, changes: Partial<ConditionalOrder>): Promise<void> {
+    Object.assign(order, changes, { updatedAt: new Date().toISOString() });
+    await this.save();
+  }
+
+  /**
+   * Place a conditional order
+   *
+   * Reads the current price so untradeable tokens are rejected up front and
+   * trailing stops start from the current price.
+   *
+   * @param params The order parameters
+   * @returns The stored order and current price, or an error response
+   */
+  async place(params: PlaceOrderParams): Promise<{ success: true; order: ConditionalOrder; currentPrice: number } | ErrorResponse> {
+    if (params.type === 'trailing_stop') {
+      if (params.trailPercent === undefined || params.trailPercent <= 0 || params.trailPercent >= 100) {
+        throw new Error('trailing_stop orders need a trailPercent between 0 and 100');
+      }
+    } else if (params.triggerPrice === undefined || params.triggerPrice <= 0) {
+      throw new Error(`${params.type} orders need a positive triggerPrice`);
+    }
+    if (params.expiresAt && Date.parse(params.expiresAt) <= Date.now()) {
+      throw new Error('expiresAt must be in the future');
+    }
+
+    await this.ensureLoaded();
+
+    const price = await tradingClient.getPrice(params.token, params.chain, params.specificChain, true);
+    if (isErrorResponse(price)) {
+      return price;
+    }
+    if (price.price === null) {
+      throw new Error(`No price is available for ${params.token}, so an order on it could never trigger`);
+    }
+
+    const now = new Date().toISOString();
+    const order: ConditionalOrder = {
+      id: `ord-${randomUUID()}`,
+      ...params,
+      account: accounts.current(),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      lastPrice: price.price,
+      lastCheckedAt: now
+    };
+    if (order.type === 'trailing_stop') {
+      order.highWaterMark = price.price;
+    }
+
+    this.orders.push(order);
+    await this.save();
+    logger.info(`[Orders] Placed ${order.type} order ${order.id}`);
+
+    return { success: true, order: { ...order }, currentPrice: price.price };
+  }
+
+  /**
+   * List orders, newest first
+   *
+   * @param query Optional status and token filters
+   */
+  async list(query: OrderQuery = {}): Promise<{ success: true; watcher: ReturnType<OrderManager['getStatus']>; count: number; orders: ConditionalOrder[] }> {
+    await this.ensureLoaded();
+
+    const orders = this.orders
+      .filter((order) => ownerOf(order) === accounts.current())
+      .filter((order) => !query.status || order.status === query.status)
+      .filter((order) => !query.token || order.token.toLowerCase() === query.token.toLowerCase())
+      .map((order) => ({ ...order }))
+      .reverse();
+
+    return { success: true, watcher: this.getStatus(), count: orders.length, orders };
+  }
+
+  /**
+   * Cancel a pending order
+   *
+   * @param id The order id
+   * @returns The cancelled order
+   */
+  async cancel(id: string): Promise<{ success: true; order: ConditionalOrder }> {
+    await this.ensureLoaded();
+
+    const order = this.orders.find((o) => o.id === id && ownerOf(o) === accounts.current());
+    if (!order) {
+      throw new Error(`Order ${id} not found`);
+    }
+    if (order.status !== 'pending') {
+      throw new Error(`Order ${id} is ${order.status} and can no longer be cancelled`);
+    }
+
+    await this.update(order, { status: 'cancelled' });
+    logger.info(`[Orders] Cancelled order ${id}`);
+    return { success: true, order: { ...order } };
+  }
+
+  /**
+   * Start the price watcher (checks immediately)
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    void this.check();
+    this.timer = setInterval(() => void this.check(), this.intervalMs);
+    // Don't keep the process alive just for watching prices
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the price watcher
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Watcher state for reporting
+   */
+  getStatus(): { running: boolean; intervalMs: number; file: string; lastCheckAt: string | null; lastError: string | null } {
+    return {
+      running: this.timer !== null,
+      intervalMs: this.intervalMs,
+      file: this.filePath,
+      lastCheckAt: this.lastCheckAt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Check every pending order against the current price and fire triggered ones
+   */
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      await this.ensureLoaded();
+
+      const now = Date.now();
+      for (const order of this.orders.filter((o) => o.status === 'pending' && o.expiresAt && Date.parse(o.expiresAt) <= now)) {
+        await this.update(order, { status: 'expired' });
+        logger.info(`[Orders] Order ${order.id} expired`);
+      }
+
+      // One price lookup per watched token and account, made and acted on as that account
+      const groups = new Map<string, ConditionalOrder[]>();
+      for (const order of this.orders.filter((o) => o.status === 'pending')) {
+        const key = `${ownerOf(order)}|${order.token.toLowerCase()}|${order.specificChain ?? order.chain ?? ''}`;
+        groups.set(key, [...(groups.get(key) ?? []), order]);
+      }
+
+      // Problems with individual groups don't stop the others; they are reported together
+      const errors: string[] = [];
+      for (const orders of groups.values()) {
+        if (!accounts.has(ownerOf(orders[0]))) {
+          const error = `Account ${ownerOf(orders[0])} is no longer configured`;
+          errors.push(error);
+          logger.warn(`[Orders] Skipping ${orders.length} order(s): ${error}`);
+          continue;
+        }
+        await accounts.run(ownerOf(orders[0]), async () => {
+          const { token, chain, specificChain } = orders[0];
+          const price = await tradingClient.getPrice(token, chain, specificChain, true);
+          if (isErrorResponse(price) || price.price === null) {
+            const error = isErrorResponse(price) ? price.error : `No price for ${token}`;
+            errors.push(`Failed to price ${token}: ${error}`);
+            logger.warn(`[Orders] Failed to price ${token}: ${error}`);
+            return;
+          }
+
+          for (const order of orders) {
+            // The order may have been cancelled while the price was being fetched
+            if (order.status !== 'pending') continue;
+            await this.evaluate(order, price.price);
+          }
+        });
+      }
+
+      this.lastCheckAt = new Date().toISOString();
+      this.lastError = errors.length > 0 ? errors.join('; ') : null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Orders] Price check failed: ${this.lastError}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Update an order with a new price and execute it if its trigger is hit
+   */
+  private async evaluate(order: ConditionalOrder, price: number): Promise<void> {
+    const changes: Partial<ConditionalOrder> = { lastPrice: price, lastCheckedAt: new Date().toISOString() };
+
+    let triggered: boolean;
+    switch (order.type) {
+      case 'limit_buy':
+      case 'stop_loss':
+        triggered = price <= order.triggerPrice!;
+        break;
+      case 'limit_sell':
+      case 'take_profit':
+        triggered = price >= order.triggerPrice!;
+        break;
+      case 'trailing_stop': {
+        const high = Math.max(order.highWaterMark ?? price, price);
+        changes.highWaterMark = high;
+        triggered = price <= high * (1 - order.trailPercent! / 100);
+        break;
+      }
+    }
+
+    if (!triggered) {
+      // Persist a raised trailing high so a restart doesn't reset the trail; price readings stay in memory
+      if (changes.highWaterMark !== undefined && changes.highWaterMark !== order.highWaterMark) {
+        await this.update(order, changes);
+      } else {
+        Object.assign(order, changes);
+      }
+      return;
+    }
+
+    // Persist the trigger before trading so a crash mid-trade never fires the order twice
+    await this.update(order, { ...changes, status: 'triggered', triggeredAt: changes.lastCheckedAt, triggeredPrice: price });
+    logger.info(`[Orders] ${order.type} order ${order.id} triggered at ${price}`);
+
+    const result = await this.execute(order, price);
+    await this.update(order, result);
+  }
+
+  /**
+   * Execute a triggered order
+   *
+   * @returns The final order state
+   */
+  private async execute(order: ConditionalOrder, price: number): Promise<Partial<ConditionalOrder>> {
+    const buy = order.type === 'limit_buy';
+    const trigger = order.type === 'trailing_stop'
+      ? `${order.trailPercent}% below high of ${round(order.highWaterMark!)}`
+      : `trigger ${order.triggerPrice}`;
+
+    const params: TradeParams = {
+      fromToken: buy ? order.quoteToken : order.token,
+      toToken: buy ? order.token : order.quoteToken,
+      amount: order.amount,
+      reason: `[order ${order.id}] ${order.type} at ${round(price)} (${trigger}): ${order.reason}`
+    };
+    const from = buy
+      ? { chain: order.quoteChain, specificChain: order.quoteSpecificChain }
+      : { chain: order.chain, specificChain: order.specificChain };
+    const to = buy
+      ? { chain: order.chain, specificChain: order.specificChain }
+      : { chain: order.quoteChain, specificChain: order.quoteSpecificChain };
+
+    if (order.slippageTolerance) params.slippageTolerance = order.slippageTolerance;
+    if (from.chain) params.fromChain = from.chain;
+    if (to.chain) params.toChain = to.chain;
+    if (from.specificChain) params.fromSpecificChain = from.specificChain;
+    if (to.specificChain) params.toSpecificChain = to.specificChain;
+
+    const result = await submitTrade(params, { type: 'order', id: order.id }, order.dryRun);
+    if (!result.success) {
+      logger.warn(`[Orders] Order ${order.id} failed: ${typeof result.error === 'string' ? result.error : 'rejected by risk policy'}`);
+      return { status: 'failed', error: result.error };
+    }
+
+    logger.info(`[Orders] Order ${order.id} filled (${result.transaction.id})`);
+    return { status: 'filled', transactionId: result.transaction.id };
+  }
+}
+
+// Export a pre-configured instance of the order manager
+export const orderManager = new OrderManager();
@@ -0,0 +1,169 @@
+import { PortfolioSnapshot, portfolioSampler, snapshotStoreFor } from './snapshot-store.js';
+
+// Period lengths used to resample the equity curve
+export const PERFORMANCE_PERIODS = {
+  '1h': 3_600_000,
+  '4h': 14_400_000,
+  '1d': 86_400_000
+} as const;
+
+export type PerformancePeriod = keyof typeof PERFORMANCE_PERIODS;
+
+// Crypto markets trade around the clock
+const MS_PER_YEAR = 365 * 86_400_000;
+
+// Return over one resampled period
+export interface PeriodReturn {
+  start: string;
+  end: string;
+  returnPercent: number;
+}
+
+// Performance metrics for a window of the equity curve
+export interface PerformanceReport {
+  success: true;
+  window: { start: string; end: string; snapshots: number };
+  period: PerformancePeriod;
+  startValue: number;
+  endValue: number;
+  returnPercent: number;
+  maxDrawdown: { percent: number; peakTime: string; troughTime: string } | null;
+  volatilityPercent: number | null;           // Std dev of period returns
+  annualizedVolatilityPercent: number | null;
+  sharpeRatio: number | null;                 // Annualized, risk-free rate of zero
+  sortinoRatio: number | null;                // Annualized, downside deviation only
+  bestPeriod: PeriodReturn | null;
+  worstPeriod: PeriodReturn | null;
+  periods: number;
+}
+
+/**
+ * Round a ratio or percentage for display
+ */
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Keep the last snapshot in each period, oldest first
+ */
+function resample(snapshots: PortfolioSnapshot[], periodMs: number): PortfolioSnapshot[] {
+  const closes = new Map<number, PortfolioSnapshot>();
+  for (const snapshot of snapshots) {
+    closes.set(Math.floor(Date.parse(snapshot.timestamp) / periodMs), snapshot);
+  }
+  return [...closes.entries()].sort(([a], [b]) => a - b).map(([, snapshot]) => snapshot);
+}
+
+/**
+ * Largest peak-to-trough fall in value
+ */
+function maxDrawdown(snapshots: PortfolioSnapshot[]): PerformanceReport['maxDrawdown'] {
+  let peak = snapshots[0];
+  let worst: PerformanceReport['maxDrawdown'] = null;
+
+  for (const snapshot of snapshots) {
+    if (snapshot.totalValue > peak.totalValue) {
+      peak = snapshot;
+      continue;
+    }
+    const drawdown = peak.totalValue > 0 ? (peak.totalValue - snapshot.totalValue) / peak.totalValue : 0;
+    if (drawdown > 0 && (!worst || drawdown * 100 > worst.percent)) {
+      worst = { percent: round(drawdown * 100), peakTime: peak.timestamp, troughTime: snapshot.timestamp };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Compute performance metrics for an equity curve
+ *
+ * @param snapshots Snapshots in the window, oldest first
+ * @param period Period used for returns, volatility and best/worst periods
+ * @returns The report, or null if there are fewer than two snapshots
+ */
+export function computePerformance(snapshots: PortfolioSnapshot[], period: PerformancePeriod = '1h'): PerformanceReport | null {
+  if (snapshots.length < 2) {
+    return null;
+  }
+
+  const periodMs = PERFORMANCE_PERIODS[period];
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+
+  // Period returns between consecutive period closes, starting from the first snapshot
+  const closes = [first, ...resample(snapshots, periodMs).filter((s) => s !== first)];
+  const returns: PeriodReturn[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1].totalValue > 0) {
+      returns.push({
+        start: closes[i - 1].timestamp,
+        end: closes[i].timestamp,
+        returnPercent: (closes[i].totalValue / closes[i - 1].totalValue - 1) * 100
+      });
+    }
+  }
+
+  const values = returns.map((r) => r.returnPercent / 100);
+  const mean = values.reduce((sum, r) => sum + r, 0) / (values.length || 1);
+  const stdDev = values.length > 1
+    ? Math.sqrt(values.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (values.length - 1))
+    : null;
+  const downsideDev = values.length > 1
+    ? Math.sqrt(values.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / values.length)
+    : null;
+  const annualization = Math.sqrt(MS_PER_YEAR / periodMs);
+
+  const sorted = [...returns].sort((a, b) => b.returnPercent - a.returnPercent);
+  const rounded = (r: PeriodReturn | undefined) => (r ? { ...r, returnPercent: round(r.returnPercent) } : null);
+
+  return {
+    success: true,
+    window: { start: first.timestamp, end: last.timestamp, snapshots: snapshots.length },
+    period,
+    startValue: first.totalValue,
+    endValue: last.totalValue,
+    returnPercent: first.totalValue > 0 ? round((last.totalValue / first.totalValue - 1) * 100) : 0,
+    maxDrawdown: maxDrawdown(snapshots),
+    volatilityPercent: stdDev === null ? null : round(stdDev * 100),
+    annualizedVolatilityPercent: stdDev === null ? null : round(stdDev * annualization * 100),
+    sharpeRatio: stdDev ? round((mean / stdDev) * annualization) : null,
+    sortinoRatio: downsideDev ? round((mean / downsideDev) * annualization) : null,
+    bestPeriod: rounded(sorted[0]),
+    worstPeriod: rounded(sorted[sorted.length - 1]),
+    periods: returns.length
+  };
+}
+
+/**
+ * Report performance over a window of the recorded equity curve
+ *
+ * @param startTime Optional ISO start of the window
+ * @param endTime Optional ISO end of the window
+ * @param period Period used for returns, volatility and best/worst periods
+ * @throws Error if there are not enough snapshots in the window
+ */
+export async function getPerformance(
+  startTime?: string,
+  endTime?: string,
+  period: PerformancePeriod = '1h'
+): Promise<PerformanceReport> {
+  const snapshots = await snapshotStoreFor().read(
+    startTime ? new Date(startTime) : undefined,
+    endTime ? new Date(endTime) : undefined
+  );
+
+  const report = computePerformance(snapshots, period);
+  if (!report) {
+    const { running, intervalMs, file } = portfolioSampler.getStatus();
+    throw new Error(
+      `Not enough portfolio snapshots in this window (${snapshots.length} found, at least 2 needed). ` +
+      (running
+        ? `The sampler records one every ${Math.round(intervalMs / 1000)}s to ${file}.`
+        : 'The sampler is disabled; set TRADING_SIM_SNAPSHOT_INTERVAL_MS to a positive value to record snapshots.')
+    );
+  }
+  return report;
+}
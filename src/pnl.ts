@@ -0,0 +1,354 @@
+import { tradingClient } from './accounts.js';
+import { tokenRegistry } from './token-registry.js';
+import { isErrorResponse } from './errors.js';
+import { ErrorResponse, SpecificChain, TokenPortfolioItem, TradeTransaction } from './types.js';
+
+// Cost-basis accounting method
+export type CostBasisMethod = 'fifo' | 'average';
+
+// Symbols treated as the $1 quote currency when valuing trades
+const STABLECOIN_SYMBOLS = new Set(['USDC', 'USDT', 'USDBC', 'DAI']);
+
+// PnL for a single token position
+export interface PositionPnl {
+  token: string;
+  symbol?: string;
+  chain: string;
+  specificChain: string | null;
+  amount: number;            // Amount still held according to the trade history
+  costBasis: number;         // USD cost of the amount still held
+  averageCost: number | null;
+  currentPrice: number | null;
+  marketValue: number | null;
+  realizedPnl: number;
+  unrealizedPnl: number | null;
+  totalPnl: number;
+  returnPercent: number | null; // Total PnL as % of everything spent acquiring the token
+  untrackedAmount: number;   // Amount sold that was never bought in the trade history (e.g. starting balances)
+  unknownCostAmount: number; // Amount held with no known cost (received for untracked amounts), left out of costBasis
+}
+
+// PnL aggregated per chain
+export interface ChainPnl {
+  chain: string;
+  specificChain: string | null;
+  costBasis: number;
+  marketValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  returnPercent: number | null;
+}
+
+// Full PnL report
+export interface PnlReport {
+  success: true;
+  method: CostBasisMethod;
+  asOf: string;
+  tradesProcessed: number;
+  totals: {
+    costBasis: number;
+    marketValue: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    totalPnl: number;
+    returnPercent: number | null;
+  };
+  byToken: PositionPnl[];
+  byChain: ChainPnl[];
+  notes: string[];
+}
+
+// Open quantity at a unit cost
+interface Lot {
+  amount: number;
+  unitCost: number | null;   // null: received in a swap for an amount with no known cost
+}
+
+// Running state for one token
+interface Position {
+  token: string;
+  chain: string;
+  specificChain: string | null;
+  lots: Lot[];               // FIFO lots (under average cost, one blended lot plus one of unknown cost)
+  realizedPnl: number;
+  acquiredCost: number;
+  untrackedAmount: number;
+}
+
+/**
+ * Round a USD value or percentage for display
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Key identifying a token on a specific chain
+ */
+function positionKey(token: string, specificChain: string | null): string {
+  return `${token.toLowerCase()}@${specificChain ?? ''}`;
+}
+
+/**
+ * Check whether a token is a stablecoin valued at $1
+ */
+export function isStablecoin(token: string, specificChain?: string | null): boolean {
+  const entry = tokenRegistry.findByAddress(token, { specificChain: (specificChain ?? undefined) as SpecificChain | undefined });
+  return entry !== undefined && STABLECOIN_SYMBOLS.has(entry.symbol.toUpperCase());
+}
+
+/**
+ * Cost-basis tracker
+ *
+ * Replays trades oldest first. Stablecoins are the quote currency: buying a
+ * token with USDC opens a lot at the USDC spent, and selling into USDC
+ * realizes the difference against the lots consumed. Token-to-token swaps
+ * carry the consumed cost over to the acquired token without realizing PnL;
+ * whatever a swap receives for amounts with no known cost has no known cost either.
+ */
+export class CostBasisTracker {
+  private readonly method: CostBasisMethod;
+  private readonly positions = new Map<string, Position>();
+
+  constructor(method: CostBasisMethod) {
+    this.method = method;
+  }
+
+  private position(token: string, chain: string, specificChain: string | null): Position {
+    const key = positionKey(token, specificChain);
+    let position = this.positions.get(key);
+    if (!position) {
+      position = { token, chain, specificChain, lots: [], realizedPnl: 0, acquiredCost: 0, untrackedAmount: 0 };
+      this.positions.set(key, position);
+    }
+    return position;
+  }
+
+  /**
+   * Remove an amount from a position
+   *
+   * @returns The cost of the amount removed and the part of it with no known cost
+   */
+  private consume(position: Position, amount: number): { cost: number; untracked: number } {
+    let remaining = amount;
+    let cost = 0;
+    let untracked = 0;
+
+    while (remaining > 1e-12 && position.lots.length > 0) {
+      const lot = position.lots[0];
+      const used = Math.min(lot.amount, remaining);
+      if (lot.unitCost === null) {
+        untracked += used;
+      } else {
+        cost += used * lot.unitCost;
+      }
+      lot.amount -= used;
+      remaining -= used;
+      if (lot.amount <= 1e-12) {
+        position.lots.shift();
+      }
+    }
+
+    return { cost, untracked: untracked + Math.max(0, remaining) };
+  }
+
+  /**
+   * Add an amount to a position at a total cost (null if the cost is unknown)
+   */
+  private acquire(position: Position, amount: number, cost: number | null): void {
+    if (cost !== null) {
+      position.acquiredCost += cost;
+    }
+    // Under average cost, known costs blend into one lot and unknown-cost amounts collect in another
+    const blended = this.method === 'average'
+      ? position.lots.find((lot) => (lot.unitCost === null) === (cost === null))
+      : undefined;
+    if (blended) {
+      const total = blended.amount + amount;
+      if (blended.unitCost !== null && cost !== null) {
+        blended.unitCost = total > 0 ? (blended.amount * blended.unitCost + cost) / total : 0;
+      }
+      blended.amount = total;
+    } else if (amount > 0) {
+      position.lots.push({ amount, unitCost: cost === null ? null : cost / amount });
+    }
+  }
+
+  /**
+   * Apply a successful trade
+   */
+  apply(trade: TradeTransaction): void {
+    const fromStable = isStablecoin(trade.fromToken, trade.fromSpecificChain);
+    const toStable = isStablecoin(trade.toToken, trade.toSpecificChain);
+
+    if (fromStable && toStable) {
+      return;
+    }
+
+    if (fromStable) {
+      // Buy: the stablecoin spent is the cost
+      this.acquire(this.position(trade.toToken, trade.toChain, trade.toSpecificChain), trade.toAmount, trade.fromAmount);
+      return;
+    }
+
+    const from = this.position(trade.fromToken, trade.fromChain, trade.fromSpecificChain);
+    const { cost, untracked } = this.consume(from, trade.fromAmount);
+    from.untrackedAmount += untracked;
+    const trackedShare = trade.fromAmount > 0 ? (trade.fromAmount - untracked) / trade.fromAmount : 0;
+
+    if (toStable) {
+      // Sell: proceeds less the cost of the lots consumed. Untracked amounts have
+      // no known cost, so their share of the proceeds is not counted as profit.
+      from.realizedPnl += trade.toAmount * trackedShare - cost;
+      return;
+    }
+
+    // Swap: carry the consumed cost over to the acquired token. The share received
+    // for untracked amounts has no known cost, so it goes into an unknown-cost lot.
+    const to = this.position(trade.toToken, trade.toChain, trade.toSpecificChain);
+    const trackedAmount = trade.toAmount * trackedShare;
+    this.acquire(to, trackedAmount, cost);
+    this.acquire(to, trade.toAmount - trackedAmount, null);
+  }
+
+  /**
+   * Build the report from the replayed positions and current prices
+   *
+   * @param prices Current portfolio items used to value open positions
+   */
+  report(tradesProcessed: number, prices: TokenPortfolioItem[]): PnlReport {
+    const byToken: PositionPnl[] = [];
+    const chains = new Map<string, ChainPnl>();
+    const chainAcquiredCost = new Map<string, number>();
+
+    for (const position of this.positions.values()) {
+      const amount = position.lots.reduce((sum, lot) => sum + lot.amount, 0);
+      const knownAmount = position.lots.reduce((sum, lot) => sum + (lot.unitCost === null ? 0 : lot.amount), 0);
+      const costBasis = position.lots.reduce((sum, lot) => sum + lot.amount * (lot.unitCost ?? 0), 0);
+      const priced = prices.find((item) =>
+        positionKey(item.token, item.specificChain) === positionKey(position.token, position.specificChain)
+      ) ?? prices.find((item) => item.token.toLowerCase() === position.token.toLowerCase());
+      const currentPrice = priced?.price ?? null;
+      const marketValue = currentPrice === null ? null : amount * currentPrice;
+      // Unknown-cost amounts have no basis to measure a gain against
+      const unrealizedPnl = currentPrice === null ? null : knownAmount * currentPrice - costBasis;
+      const totalPnl = position.realizedPnl + (unrealizedPnl ?? 0);
+
+      byToken.push({
+        token: position.token,
+        symbol: tokenRegistry.findByAddress(position.token)?.symbol,
+        chain: position.chain,
+        specificChain: position.specificChain,
+        amount,
+        costBasis: round(costBasis),
+        averageCost: knownAmount > 0 ? costBasis / knownAmount : null,
+        currentPrice,
+        marketValue: marketValue === null ? null : round(marketValue),
+        realizedPnl: round(position.realizedPnl),
+        unrealizedPnl: unrealizedPnl === null ? null : round(unrealizedPnl),
+        totalPnl: round(totalPnl),
+        returnPercent: position.acquiredCost > 0 ? round((totalPnl / position.acquiredCost) * 100) : null,
+        untrackedAmount: position.untrackedAmount,
+        unknownCostAmount: amount - knownAmount
+      });
+
+      const chainKey = position.specificChain ?? position.chain;
+      const chain = chains.get(chainKey) ?? {
+        chain: position.chain,
+        specificChain: position.specificChain,
+        costBasis: 0,
+        marketValue: 0,
+        realizedPnl: 0,
+        unrealizedPnl: 0,
+        totalPnl: 0,
+        returnPercent: null
+      };
+      chain.costBasis += costBasis;
+      chain.marketValue += marketValue ?? 0;
+      chain.realizedPnl += position.realizedPnl;
+      chain.unrealizedPnl += unrealizedPnl ?? 0;
+      chain.totalPnl += totalPnl;
+      chains.set(chainKey, chain);
+      chainAcquiredCost.set(chainKey, (chainAcquiredCost.get(chainKey) ?? 0) + position.acquiredCost);
+    }
+
+    const byChain = [...chains.entries()].map(([chainKey, chain]) => ({
+      ...chain,
+      costBasis: round(chain.costBasis),
+      marketValue: round(chain.marketValue),
+      realizedPnl: round(chain.realizedPnl),
+      unrealizedPnl: round(chain.unrealizedPnl),
+      totalPnl: round(chain.totalPnl),
+      returnPercent: chainAcquiredCost.get(chainKey) ? round((chain.totalPnl / chainAcquiredCost.get(chainKey)!) * 100) : null
+    }));
+
+    const acquiredCost = [...this.positions.values()].reduce((sum, p) => sum + p.acquiredCost, 0);
+    const totals = byToken.reduce(
+      (sum, p) => ({
+        costBasis: sum.costBasis + p.costBasis,
+        marketValue: sum.marketValue + (p.marketValue ?? 0),
+        realizedPnl: sum.realizedPnl + p.realizedPnl,
+        unrealizedPnl: sum.unrealizedPnl + (p.unrealizedPnl ?? 0),
+        totalPnl: sum.totalPnl + p.totalPnl
+      }),
+      { costBasis: 0, marketValue: 0, realizedPnl: 0, unrealizedPnl: 0, totalPnl: 0 }
+    );
+
+    const notes = ['Stablecoins are valued at $1 and are not reported as positions.'];
+    if (byToken.some((p) => p.untrackedAmount > 0)) {
+      notes.push('Some sales exceeded the purchases in the trade history (e.g. starting balances); untrackedAmount shows how much had no known cost.');
+    }
+    if (byToken.some((p) => p.unknownCostAmount > 1e-12)) {
+      notes.push('Some holdings were received in swaps for amounts with no known cost; unknownCostAmount shows how much, and it is left out of costBasis and unrealized PnL.');
+    }
+    if (byToken.some((p) => p.amount > 0 && p.currentPrice === null)) {
+      notes.push('Positions missing from the current portfolio have no current price, so their unrealized PnL is null.');
+    }
+
+    return {
+      success: true,
+      method: this.method,
+      asOf: new Date().toISOString(),
+      tradesProcessed,
+      totals: {
+        costBasis: round(totals.costBasis),
+        marketValue: round(totals.marketValue),
+        realizedPnl: round(totals.realizedPnl),
+        unrealizedPnl: round(totals.unrealizedPnl),
+        totalPnl: round(totals.totalPnl),
+        returnPercent: acquiredCost > 0 ? round((totals.totalPnl / acquiredCost) * 100) : null
+      },
+      byToken: byToken.sort((a, b) => b.totalPnl - a.totalPnl),
+      byChain,
+      notes
+    };
+  }
+}
+
+/**
+ * Compute realized and unrealized PnL from the trade history and current prices
+ *
+ * @param method Cost-basis method (FIFO or average cost)
+ * @returns The PnL report or an error response
+ */
+export async function getPnl(method: CostBasisMethod = 'fifo'): Promise<PnlReport | ErrorResponse> {
+  const [history, portfolio] = await Promise.all([tradingClient.getAllTrades(), tradingClient.getPortfolio()]);
+  if (isErrorResponse(history)) {
+    return history;
+  }
+  if (isErrorResponse(portfolio)) {
+    return portfolio;
+  }
+
+  const trades = history.trades
+    .filter((trade) => trade.success)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const tracker = new CostBasisTracker(method);
+  for (const trade of trades) {
+    tracker.apply(trade);
+  }
+
+  return tracker.report(trades.length, portfolio.tokens);
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { config, logger } from './env.js';
+import { tradingClient } from './accounts.js';
+import { isErrorResponse } from './errors.js';
+import { ErrorResponse, PriceHistoryParams, PriceHistoryResponse } from './types.js';
+
+// A price series loaded from the cache or the API
+export interface CachedPriceSeries extends PriceHistoryResponse {
+  cached: boolean;
+}
+
+/**
+ * File-backed price history cache
+ *
+ * Stores price history responses for fixed, fully elapsed time ranges so
+ * backtests over the same window are repeatable and don't hit the API again.
+ * Ranges that end in the future are always fetched live.
+ */
+export class PriceSeriesCache {
+  private readonly directory: string;
+
+  /**
+   * Create a new price series cache
+   *
+   * @param directory Directory for cached series files
+   */
+  constructor(directory: string = path.join(config.TRADING_SIM_DATA_DIR, 'price-cache')) {
+    this.directory = directory;
+  }
+
+  /**
+   * File path for a set of price history parameters
+   */
+  private fileFor(params: PriceHistoryParams): string {
+    const key = [params.token.toLowerCase(), params.chain, params.specificChain, params.interval, params.startTime, params.endTime]
+      .map((part) => part ?? '')
+      .join('|');
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+  }
+
+  /**
+   * Get a price series, from the cache when possible
+   *
+   * @param params Price history parameters
+   * @param refresh Ignore any cached copy and fetch again
+   * @returns The series (flagged with whether it came from the cache) or an error response
+   */
+  async get(params: PriceHistoryParams, refresh: boolean = false): Promise<CachedPriceSeries | ErrorResponse> {
+    const cacheable = !!params.startTime && !!params.endTime && Date.parse(params.endTime) <= Date.now();
+    const file = this.fileFor(params);
+
+    if (cacheable && !refresh) {
+      try {
+        const cached = JSON.parse(await fs.promises.readFile(file, 'utf8')) as PriceHistoryResponse;
+        return { ...cached, cached: true };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn(`[PriceSeriesCache] Ignoring unreadable cache file ${file}`);
+        }
+      }
+    }
+
+    const response = await tradingClient.getPriceHistory(params);
+    if (isErrorResponse(response)) {
+      return response;
+    }
+
+    if (cacheable) {
+      try {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(file, JSON.stringify(response), 'utf8');
+      } catch (error) {
+        logger.warn(`[PriceSeriesCache] Failed to write ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { ...response, cached: false };
+  }
+}
+
+// Export a pre-configured instance of the cache
+export const priceSeriesCache = new PriceSeriesCache();
@@ -0,0 +1,232 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { tradingClient } from "./accounts.js";
+import { tokenRegistry } from "./token-registry.js";
+import { classifyError, isErrorResponse } from "./errors.js";
+import { ApiResponse, ErrorResponse } from "./types.js";
+
+// Default and maximum number of trades reviewed by the post-mortem prompt
+const DEFAULT_POST_MORTEM_TRADES = 10;
+const MAX_POST_MORTEM_TRADES = 100;
+
+// Define the MCP prompts
+export const TRADING_SIM_PROMPTS: Prompt[] = [
+  {
+    name: "daily_portfolio_review",
+    description: "Review the current portfolio, balances and competition standing",
+    arguments: []
+  },
+  {
+    name: "pre_trade_checklist",
+    description: "Checklist to work through before trading fromToken into toToken",
+    arguments: [
+      {
+        name: "fromToken",
+        description: "Source token address or symbol (e.g. 'USDC@base', 'SOL')",
+        required: true
+      },
+      {
+        name: "toToken",
+        description: "Destination token address or symbol (e.g. 'USDC@base', 'SOL')",
+        required: true
+      },
+      {
+        name: "amount",
+        description: "Optional amount of fromToken to trade; includes a live quote when provided",
+        required: false
+      }
+    ]
+  },
+  {
+    name: "competition_strategy_brief",
+    description: "Strategy brief based on the competition rules, leaderboard and current portfolio",
+    arguments: []
+  },
+  {
+    name: "trade_post_mortem",
+    description: "Post-mortem review of the last N trades",
+    arguments: [
+      {
+        name: "count",
+        description: `Number of recent trades to review (default: ${DEFAULT_POST_MORTEM_TRADES}, max: ${MAX_POST_MORTEM_TRADES})`,
+        required: false
+      }
+    ]
+  }
+];
+
+/**
+ * Render an API response as a fenced JSON block, or a note if the request failed
+ */
+function formatSection(title: string, response: ApiResponse | ErrorResponse): string {
+  if (isErrorResponse(response)) {
+    const { error, kind } = classifyError(response);
+    return `## ${title}\n\n_Unavailable (${kind}): ${error}_`;
+  }
+  return `## ${title}\n\n\`\`\`json\n${JSON.stringify(response, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Wrap prompt text in a single user message
+ */
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text }
+      }
+    ]
+  };
+}
+
+/**
+ * Build the daily portfolio review prompt
+ */
+async function dailyPortfolioReview(): Promise<GetPromptResult> {
+  const [portfolio, status] = await Promise.all([
+    tradingClient.getPortfolio(),
+    tradingClient.getCompetitionStatus()
+  ]);
+
+  return userPrompt("Daily portfolio review", [
+    "Perform the daily portfolio review for our trading simulator team using the live data below.",
+    "",
+    "1. Summarize total portfolio value and the largest positions by value and by chain.",
+    "2. Flag any position above 25% of total value, and any idle stablecoin balance above 50%.",
+    "3. Note positions whose price data looks stale or missing.",
+    "4. Check the competition status and how much time remains.",
+    "5. Propose at most three concrete actions for today, each with a one-line rationale. Do not execute any trade.",
+    "",
+    formatSection("Portfolio", portfolio),
+    "",
+    formatSection("Competition status", status)
+  ].join("\n"));
+}
+
+/**
+ * Build the pre-trade checklist prompt
+ */
+async function preTradeChecklist(args: Record<string, string>): Promise<GetPromptResult> {
+  const { fromToken, toToken, amount } = args;
+  if (!fromToken || !toToken) {
+    throw new Error("pre_trade_checklist requires fromToken and toToken");
+  }
+
+  const from = tokenRegistry.resolve(fromToken);
+  const to = tokenRegistry.resolve(toToken);
+
+  const [portfolio, rules, quote] = await Promise.all([
+    tradingClient.getPortfolio(),
+    tradingClient.getRules(),
+    amount
+      ? tradingClient.getQuote(from.address, to.address, amount, from.chain, to.chain, from.specificChain, to.specificChain)
+      : Promise.resolve(null)
+  ]);
+
+  const sections = [
+    `Work through this pre-trade checklist before trading ${fromToken} -> ${toToken}${amount ? ` (amount: ${amount})` : ""}.`,
+    "",
+    `- From: ${from.address}${from.specificChain ? ` on ${from.specificChain}` : ""}`,
+    `- To: ${to.address}${to.specificChain ? ` on ${to.specificChain}` : ""}`,
+    "",
+    "1. Confirm both addresses are on the intended chains and that cross-chain trading is allowed by the rules.",
+    "2. Confirm the portfolio holds enough of the source token, leaving a USDC reserve for later trades.",
+    "3. Check that the trade keeps any single position below 25% of portfolio value.",
+    "4. Estimate slippage using the competition's slippage formula and the quote below, and reduce size if it is material.",
+    "5. Write a specific, falsifiable reason for the trade; it is recorded with the trade.",
+    "6. Only call execute_trade if every item passes. Otherwise explain which item failed.",
+    "",
+    formatSection("Portfolio", portfolio),
+    "",
+    formatSection("Competition rules", rules)
+  ];
+
+  if (quote) {
+    sections.push("", formatSection("Quote", quote));
+  }
+
+  return userPrompt(`Pre-trade checklist for ${fromToken} -> ${toToken}`, sections.join("\n"));
+}
+
+/**
+ * Build the competition strategy brief prompt
+ */
+async function competitionStrategyBrief(): Promise<GetPromptResult> {
+  const [rules, status, leaderboard, portfolio] = await Promise.all([
+    tradingClient.getRules(),
+    tradingClient.getCompetitionStatus(),
+    tradingClient.getLeaderboard(),
+    tradingClient.getPortfolio()
+  ]);
+
+  return userPrompt("Competition strategy brief", [
+    "Write a strategy brief for the current trading competition using the live data below.",
+    "",
+    "1. Summarize the rules that constrain strategy: available chains, rate limits, slippage formula and snapshot interval.",
+    "2. State our current rank and the portfolio value gap to the teams directly above us.",
+    "3. Describe the risk posture this position calls for (defend, steady growth or catch up) and why.",
+    "4. List the chains and tokens to focus on, and anything the rules make expensive or impossible.",
+    "5. End with a short list of guardrails the agent must follow for the rest of the competition.",
+    "",
+    formatSection("Competition rules", rules),
+    "",
+    formatSection("Competition status", status),
+    "",
+    formatSection("Leaderboard", leaderboard),
+    "",
+    formatSection("Portfolio", portfolio)
+  ].join("\n"));
+}
+
+/**
+ * Build the trade post-mortem prompt
+ */
+async function tradePostMortem(args: Record<string, string>): Promise<GetPromptResult> {
+  const count = args.count ? Number(args.count) : DEFAULT_POST_MORTEM_TRADES;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_POST_MORTEM_TRADES) {
+    throw new Error(`count must be an integer between 1 and ${MAX_POST_MORTEM_TRADES}`);
+  }
+
+  const [trades, portfolio] = await Promise.all([
+    tradingClient.getTradeHistory({ limit: count }),
+    tradingClient.getPortfolio()
+  ]);
+
+  return userPrompt(`Post-mortem of the last ${count} trades`, [
+    `Run a post-mortem on our last ${count} trades using the live data below.`,
+    "",
+    "1. For each trade, restate its recorded reason and judge whether the outcome matched it.",
+    "2. Identify failed trades and their errors, and whether they were avoidable.",
+    "3. Estimate the cost of slippage and of trades that were reversed shortly after.",
+    "4. Group mistakes into recurring patterns (sizing, timing, chain selection, missing reason).",
+    "5. Finish with at most three changes to our trading process, ordered by expected impact.",
+    "",
+    formatSection("Trades", trades),
+    "",
+    formatSection("Current portfolio", portfolio)
+  ].join("\n"));
+}
+
+/**
+ * Build a prompt with live data filled in
+ *
+ * @param name The prompt name
+ * @param args The prompt arguments
+ * @returns The rendered prompt
+ * @throws Error if the prompt is unknown or its arguments are invalid
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  switch (name) {
+    case "daily_portfolio_review":
+      return dailyPortfolioReview();
+    case "pre_trade_checklist":
+      return preTradeChecklist(args);
+    case "competition_strategy_brief":
+      return competitionStrategyBrief();
+    case "trade_post_mortem":
+      return tradePostMortem(args);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
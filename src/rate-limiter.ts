@@ -0,0 +1,148 @@
+// API areas that can carry their own rate limit
+export type RateLimitCategory = 'trade' | 'price' | 'account' | 'global';
+
+// Rate limits in requests per minute, by category
+export type RateLimits = Partial<Record<RateLimitCategory, number>>;
+
+/**
+ * Sleep for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket
+ *
+ * Allows bursts up to the bucket capacity and refills continuously
+ * at the configured rate.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * Create a new token bucket
+   *
+   * @param requestsPerMinute Sustained request rate (also used as the burst capacity)
+   */
+  constructor(requestsPerMinute: number) {
+    this.capacity = Math.max(1, requestsPerMinute);
+    this.refillPerMs = requestsPerMinute / 60_000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Add the tokens accrued since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  async acquire(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * Map an API path to its rate limit category
+ */
+export function rateLimitCategory(path: string): RateLimitCategory {
+  if (path.startsWith('/api/trade')) return 'trade';
+  if (path.startsWith('/api/price')) return 'price';
+  if (path.startsWith('/api/account')) return 'account';
+  return 'global';
+}
+
+/**
+ * Parse human-readable rate limits from the competition rules
+ *
+ * Understands entries such as "100 requests per minute for trade operations"
+ * or "10 requests per second". Entries that mention trade, price or account
+ * apply to that category; anything else becomes the global limit.
+ *
+ * @param rateLimits The `rateLimits` strings from CompetitionRulesResponse
+ * @returns Limits in requests per minute by category
+ */
+export function parseRateLimits(rateLimits: string[]): RateLimits {
+  const limits: RateLimits = {};
+  const perMinute: Record<string, number> = { second: 60, minute: 1, hour: 1 / 60 };
+
+  for (const entry of rateLimits) {
+    const match = /(\d+(?:\.\d+)?)\s*requests?\s*(?:per|\/|every)\s*(second|minute|hour)/i.exec(entry);
+    if (!match) {
+      continue;
+    }
+
+    const rate = Number(match[1]) * perMinute[match[2].toLowerCase()];
+    const category: RateLimitCategory =
+      /trad/i.test(entry) ? 'trade' :
+      /price/i.test(entry) ? 'price' :
+      /account|balance|portfolio/i.test(entry) ? 'account' :
+      'global';
+
+    // Keep the strictest limit when several entries map to the same category
+    limits[category] = Math.min(limits[category] ?? Infinity, rate);
+  }
+
+  return limits;
+}
+
+/**
+ * Client-side rate limiter
+ *
+ * Holds one token bucket per category plus an optional global bucket
+ * that every request passes through.
+ */
+export class RateLimiter {
+  private buckets: Partial<Record<RateLimitCategory, TokenBucket>> = {};
+
+  /**
+   * Create a new rate limiter
+   *
+   * @param limits Initial limits in requests per minute by category
+   */
+  constructor(limits: RateLimits = {}) {
+    this.configure(limits);
+  }
+
+  /**
+   * Replace the configured limits
+   *
+   * @param limits Limits in requests per minute by category
+   */
+  configure(limits: RateLimits): void {
+    this.buckets = {};
+    for (const [category, rate] of Object.entries(limits) as [RateLimitCategory, number][]) {
+      if (rate > 0 && Number.isFinite(rate)) {
+        this.buckets[category] = new TokenBucket(rate);
+      }
+    }
+  }
+
+  /**
+   * Wait for capacity to send a request to the given path
+   *
+   * @param path The API endpoint path
+   */
+  async acquire(path: string): Promise<void> {
+    await this.buckets.global?.acquire();
+    const category = rateLimitCategory(path);
+    if (category !== 'global') {
+      await this.buckets[category]?.acquire();
+    }
+  }
+}
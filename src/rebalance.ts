@@ -0,0 +1,523 @@
+import { randomUUID } from 'crypto';
+import { config } from './env.js';
+import { accounts, tradingClient } from './accounts.js';
+import { sameTokenAddress, tokenRegistry } from './token-registry.js';
+import { isErrorResponse } from './errors.js';
+import { dryRunSimulator } from './dry-run.js';
+import { submitTrade } from './orders.js';
+import { mapWithConcurrency, quotedSlippagePercent } from './batch.js';
+import { BlockchainType, ErrorResponse, SpecificChain, TradeParams } from './types.js';
+
+// Target weight for one token (address already resolved)
+export interface RebalanceTarget {
+  token: string;
+  chain?: BlockchainType;
+  specificChain?: SpecificChain;
+  weightPercent: number;
+}
+
+// Target weight for everything held on one chain except its USDC
+export interface RebalanceChainTarget {
+  specificChain: SpecificChain;
+  weightPercent: number;
+}
+
+// Preview settings
+export interface RebalanceOptions {
+  driftThresholdPercent?: number;    // Positions closer than this to their target are left alone
+  reason?: string;
+  dryRun?: boolean;
+}
+
+// A position before and after the planned trades
+export interface RebalancePosition {
+  token: string;
+  symbol?: string;
+  chain: BlockchainType;
+  specificChain: SpecificChain | null;
+  amount: number;
+  price: number;
+  value: number;
+  currentPercent: number;
+  targetPercent: number | null;      // null for USDC without a target, which absorbs the difference
+  driftPercent: number | null;       // Percentage points above (+) or below (-) the target
+  projectedPercent: number;
+  projectedDriftPercent: number | null;
+}
+
+// A chain target before and after the planned trades
+export interface RebalanceChainPosition {
+  specificChain: SpecificChain;
+  targetPercent: number;
+  currentPercent: number;
+  projectedPercent: number;
+  projectedDriftPercent: number;
+}
+
+// A planned trade
+export interface RebalanceTrade {
+  step: number;
+  fromToken: string;
+  fromSymbol?: string;
+  toToken: string;
+  toSymbol?: string;
+  fromChain: BlockchainType;
+  toChain: BlockchainType;
+  fromSpecificChain: SpecificChain | null;
+  toSpecificChain: SpecificChain | null;
+  amount: string;
+  valueUsd: number;
+  estimatedToAmount: number | null;
+  estimatedSlippagePercent: number | null;
+  quoteError?: string;
+}
+
+// A previewed rebalance, kept until confirmed or expired
+export interface RebalancePlan {
+  success: true;
+  planId: string;
+  account: string;                   // Account the plan was previewed for (only it can confirm)
+  createdAt: string;
+  expiresAt: string;
+  totalValue: number;
+  driftThresholdPercent: number;
+  withinThreshold: boolean;
+  positions: RebalancePosition[];
+  chainTargets?: RebalanceChainPosition[];
+  trades: RebalanceTrade[];
+  warnings: string[];
+  reason: string;
+  dryRun?: boolean;
+}
+
+// Default drift (percentage points) below which a position is not traded
+const DEFAULT_DRIFT_THRESHOLD_PERCENT = 1;
+
+// Trades smaller than this (USD) are dropped from the plan
+const MIN_TRADE_VALUE_USD = 1;
+
+// How long a previewed plan can be confirmed
+const PLAN_TTL_MS = 5 * 60 * 1000;
+
+// Previewed plans awaiting confirmation
+const plans = new Map<string, RebalancePlan>();
+
+/**
+ * Round a USD value or percentage for display
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Format an amount for the API, rounding down so a trade never exceeds the balance
+ */
+function formatAmount(value: number): string {
+  return (Math.floor(value * 1e9) / 1e9).toFixed(9).replace(/\.?0+$/, '');
+}
+
+/**
+ * Chain key used to group positions that can trade with each other directly
+ */
+function chainKey(position: { chain: BlockchainType; specificChain: SpecificChain | null }): string {
+  return position.specificChain ?? position.chain;
+}
+
+/**
+ * Positions a chain target covers: everything on the chain except its USDC
+ */
+function chainHoldings(positions: RebalancePosition[], specificChain: SpecificChain): RebalancePosition[] {
+  return positions.filter((position) => chainKey(position) === specificChain && position.symbol !== 'USDC');
+}
+
+/**
+ * Registry symbol for a token on a chain
+ */
+function symbolOf(token: string, specificChain: SpecificChain | null): string | undefined {
+  return tokenRegistry.findByAddress(token, { specificChain: specificChain ?? undefined })?.symbol;
+}
+
+/**
+ * Preview the trades that bring the portfolio to the target weights
+ *
+ * A chain target sets the combined weight of every token on that chain except
+ * USDC. Token targets on the chain count toward it, and the rest is spread
+ * over the chain's other holdings in proportion to their value. Holdings
+ * without a token or chain target are sold, except USDC, which funds buys and
+ * receives sale proceeds. Overweight and underweight positions on the same
+ * chain are swapped directly; anything left over goes through that chain's
+ * USDC. The plan is quoted, stored, and executed only by confirmRebalance.
+ *
+ * @param targets Target weights in percent (at most 100 in total with the chain targets; the rest stays in USDC)
+ * @param options Drift threshold, trade reason and dry-run flag
+ * @param chainTargets Target weights in percent for whole chains
+ * @returns The plan or an error response
+ */
+export async function previewRebalance(
+  targets: RebalanceTarget[],
+  options: RebalanceOptions = {},
+  chainTargets: RebalanceChainTarget[] = []
+): Promise<RebalancePlan | ErrorResponse> {
+  const threshold = options.driftThresholdPercent ?? DEFAULT_DRIFT_THRESHOLD_PERCENT;
+  const totalWeight = targets.reduce((sum, target) => sum + target.weightPercent, 0);
+  if (totalWeight > 100.0001) {
+    throw new Error(`Target weights add up to ${round(totalWeight)}%; they must not exceed 100%`);
+  }
+  targets.forEach((target, i) => {
+    const duplicate = targets.findIndex((other) =>
+      sameTokenAddress(other.token, target.token) && (other.specificChain ?? null) === (target.specificChain ?? null));
+    if (duplicate !== i) {
+      throw new Error(`Token ${target.token} has more than one target`);
+    }
+  });
+  chainTargets.forEach((target, i) => {
+    if (chainTargets.findIndex((other) => other.specificChain === target.specificChain) !== i) {
+      throw new Error(`Chain ${target.specificChain} has more than one target`);
+    }
+  });
+
+  const portfolio = await tradingClient.getPortfolio(true);
+  if (isErrorResponse(portfolio)) {
+    return portfolio;
+  }
+  const totalValue = portfolio.tokens.reduce((sum, item) => sum + item.value, 0);
+  if (totalValue <= 0) {
+    throw new Error('The portfolio has no value to rebalance');
+  }
+
+  const positions: RebalancePosition[] = portfolio.tokens
+    .filter((item) => item.amount > 0)
+    .map((item) => ({
+      token: item.token,
+      symbol: symbolOf(item.token, item.specificChain),
+      chain: item.chain,
+      specificChain: item.specificChain,
+      amount: item.amount,
+      price: item.price,
+      value: item.value,
+      currentPercent: (item.value / totalValue) * 100,
+      targetPercent: null,
+      driftPercent: null,
+      projectedPercent: 0,
+      projectedDriftPercent: null
+    }));
+  const warnings: string[] = [];
+
+  // Attach targets to holdings, pricing target tokens that aren't held yet
+  for (const target of targets) {
+    const held = positions.filter((position) =>
+      sameTokenAddress(position.token, target.token) &&
+      (!target.specificChain || position.specificChain === target.specificChain));
+    if (held.length > 1) {
+      throw new Error(`${target.token} is held on several chains; give a chain for its target`);
+    }
+    if (held.length === 1) {
+      held[0].targetPercent = target.weightPercent;
+      continue;
+    }
+
+    const price = await tradingClient.getPrice(target.token, target.chain, target.specificChain);
+    if (isErrorResponse(price)) {
+      return price;
+    }
+    if (price.price === null) {
+      throw new Error(`No price is available for ${target.token}`);
+    }
+    const specificChain = (target.specificChain ?? price.specificChain ?? null) as SpecificChain | null;
+    positions.push({
+      token: target.token,
+      symbol: symbolOf(target.token, specificChain),
+      chain: target.chain ?? price.chain,
+      specificChain,
+      amount: 0,
+      price: price.price,
+      value: 0,
+      currentPercent: 0,
+      targetPercent: target.weightPercent,
+      driftPercent: null,
+      projectedPercent: 0,
+      projectedDriftPercent: null
+    });
+  }
+
+  // Spread each chain target, less its token targets, over the chain's other holdings by value
+  for (const target of chainTargets) {
+    const onChain = chainHoldings(positions, target.specificChain);
+    const pinned = onChain.reduce((sum, position) => sum + (position.targetPercent ?? 0), 0);
+    if (pinned > target.weightPercent + 0.0001) {
+      throw new Error(`Token targets on ${target.specificChain} add up to ${round(pinned)}%, above its ${target.weightPercent}% chain target`);
+    }
+    const open = onChain.filter((position) => position.targetPercent === null);
+    const openValue = open.reduce((sum, position) => sum + position.value, 0);
+    const remainder = target.weightPercent - pinned;
+    if (remainder > 0.0001 && openValue <= 0) {
+      throw new Error(`Nothing without a token target is held on ${target.specificChain} to make up its ${target.weightPercent}% chain target; add token targets on ${target.specificChain}`);
+    }
+    for (const position of open) {
+      position.targetPercent = openValue > 0 ? (remainder * position.value) / openValue : 0;
+    }
+  }
+  const allocated = positions.reduce((sum, position) => sum + (position.targetPercent ?? 0), 0);
+  if (allocated > 100.0001) {
+    throw new Error(`Target weights add up to ${round(allocated)}% with the chain targets; they must not exceed 100%`);
+  }
+
+  // Untargeted holdings are sold, except USDC which is the cash remainder
+  for (const position of positions) {
+    if (position.targetPercent === null && position.symbol !== 'USDC') {
+      position.targetPercent = 0;
+    }
+    if (position.targetPercent !== null) {
+      position.driftPercent = position.currentPercent - position.targetPercent;
+    }
+  }
+
+  // USD to move per position (negative = sell), for positions past the threshold
+  const deltas = new Map<RebalancePosition, number>();
+  for (const position of positions) {
+    if (position.driftPercent !== null && Math.abs(position.driftPercent) >= threshold) {
+      deltas.set(position, (-position.driftPercent / 100) * totalValue);
+    }
+  }
+
+  const legs: { from: RebalancePosition; to: RebalancePosition; value: number }[] = [];
+  const funding: { to: RebalancePosition; value: number }[] = [];
+  const usdcFor = (key: string): RebalancePosition | undefined => {
+    const existing = positions.find((p) => chainKey(p) === key && p.symbol === 'USDC');
+    if (existing) return existing;
+    const entry = tokenRegistry.findBySymbol('USDC').find((e) => (e.specificChain ?? e.chain) === key);
+    if (!entry) return undefined;
+    const usdc: RebalancePosition = {
+      token: entry.address,
+      symbol: 'USDC',
+      chain: entry.chain,
+      specificChain: entry.specificChain ?? null,
+      amount: 0,
+      price: 1,
+      value: 0,
+      currentPercent: 0,
+      targetPercent: null,
+      driftPercent: null,
+      projectedPercent: 0,
+      projectedDriftPercent: null
+    };
+    positions.push(usdc);
+    return usdc;
+  };
+
+  for (const key of new Set([...deltas.keys()].map(chainKey))) {
+    const onChain = [...deltas.entries()].filter(([position]) => chainKey(position) === key);
+    const sellers = onChain.filter(([, delta]) => delta < 0).map(([position, delta]) => ({ position, left: -delta })).sort((a, b) => b.left - a.left);
+    const buyers = onChain.filter(([, delta]) => delta > 0).map(([position, delta]) => ({ position, left: delta })).sort((a, b) => b.left - a.left);
+
+    // Swap overweight into underweight positions directly
+    for (const seller of sellers) {
+      for (const buyer of buyers) {
+        const value = Math.min(seller.left, buyer.left);
+        if (value <= 0) continue;
+        legs.push({ from: seller.position, to: buyer.position, value });
+        seller.left -= value;
+        buyer.left -= value;
+      }
+    }
+
+    // Route whatever is left through this chain's USDC
+    const usdc = sellers.some((s) => s.left > 0 && s.position.symbol !== 'USDC') || buyers.some((b) => b.left > 0 && b.position.symbol !== 'USDC')
+      ? usdcFor(key)
+      : undefined;
+    for (const seller of sellers.filter((s) => s.left > 0 && s.position.symbol !== 'USDC')) {
+      if (!usdc) {
+        warnings.push(`No USDC is known on ${key}; ${seller.position.symbol ?? seller.position.token} can't be sold down`);
+        continue;
+      }
+      legs.push({ from: seller.position, to: usdc, value: seller.left });
+    }
+    for (const buyer of buyers.filter((b) => b.left > 0 && b.position.symbol !== 'USDC')) {
+      if (!usdc) {
+        warnings.push(`No USDC is known on ${key}; ${buyer.position.symbol ?? buyer.position.token} can't be bought`);
+        continue;
+      }
+      funding.push({ to: buyer.position, value: buyer.left });
+    }
+
+    // Check that the chain's USDC covers the buys it funds
+    if (usdc) {
+      const needed = funding.filter((f) => chainKey(f.to) === key).reduce((sum, f) => sum + f.value, 0);
+      const available = usdc.value +
+        legs.filter((leg) => leg.to === usdc).reduce((sum, leg) => sum + leg.value, 0) -
+        legs.filter((leg) => leg.from === usdc).reduce((sum, leg) => sum + leg.value, 0);
+      if (needed > available + MIN_TRADE_VALUE_USD) {
+        warnings.push(`Buys on ${key} need $${round(needed)} of USDC but about $${round(available)} will be available; they will be reduced to the balance when executed`);
+      }
+    }
+  }
+
+  // Sells and direct swaps first, then USDC-funded buys
+  const planned = [
+    ...legs,
+    ...funding.map((f) => ({ from: usdcFor(chainKey(f.to))!, to: f.to, value: f.value }))
+  ].filter((leg) => leg.value >= MIN_TRADE_VALUE_USD);
+
+  const quotes = await mapWithConcurrency(planned, config.TRADING_SIM_BATCH_CONCURRENCY, (leg) =>
+    tradingClient.getQuote(
+      leg.from.token,
+      leg.to.token,
+      formatAmount(leg.value / leg.from.price),
+      leg.from.chain,
+      leg.to.chain,
+      leg.from.specificChain ?? undefined,
+      leg.to.specificChain ?? undefined
+    )
+  );
+
+  const trades: RebalanceTrade[] = planned.map((leg, i) => {
+    const quote = quotes[i];
+    const trade: RebalanceTrade = {
+      step: i + 1,
+      fromToken: leg.from.token,
+      fromSymbol: leg.from.symbol,
+      toToken: leg.to.token,
+      toSymbol: leg.to.symbol,
+      fromChain: leg.from.chain,
+      toChain: leg.to.chain,
+      fromSpecificChain: leg.from.specificChain,
+      toSpecificChain: leg.to.specificChain,
+      amount: formatAmount(leg.value / leg.from.price),
+      valueUsd: round(leg.value),
+      estimatedToAmount: isErrorResponse(quote) ? null : quote.toAmount,
+      estimatedSlippagePercent: isErrorResponse(quote) ? null : Number(quotedSlippagePercent(quote).toFixed(4))
+    };
+    if (isErrorResponse(quote)) {
+      trade.quoteError = quote.error;
+    }
+
+    // Project the trade onto the positions, net of quoted slippage
+    leg.from.value -= leg.value;
+    leg.to.value += isErrorResponse(quote) ? leg.value : quote.toAmount * leg.to.price;
+    return trade;
+  });
+
+  const projectedTotal = positions.reduce((sum, position) => sum + position.value, 0);
+  const chains = chainTargets.map((target): RebalanceChainPosition => {
+    const onChain = chainHoldings(positions, target.specificChain);
+    const projectedPercent = round((onChain.reduce((sum, position) => sum + position.value, 0) / projectedTotal) * 100);
+    return {
+      specificChain: target.specificChain,
+      targetPercent: target.weightPercent,
+      currentPercent: round(onChain.reduce((sum, position) => sum + position.currentPercent, 0)),
+      projectedPercent,
+      projectedDriftPercent: round(projectedPercent - target.weightPercent)
+    };
+  });
+  for (const position of positions) {
+    position.projectedPercent = round((position.value / projectedTotal) * 100);
+    position.projectedDriftPercent = position.targetPercent === null ? null : round(position.projectedPercent - position.targetPercent);
+    position.value = round(position.amount * position.price);
+    position.currentPercent = round(position.currentPercent);
+    position.driftPercent = position.driftPercent === null ? null : round(position.driftPercent);
+  }
+
+  const now = Date.now();
+  const plan: RebalancePlan = {
+    success: true,
+    planId: `rebalance-${randomUUID()}`,
+    account: accounts.current(),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + PLAN_TTL_MS).toISOString(),
+    totalValue: round(totalValue),
+    driftThresholdPercent: threshold,
+    withinThreshold: trades.length === 0,
+    positions: positions.sort((a, b) => b.currentPercent - a.currentPercent),
+    ...(chains.length > 0 ? { chainTargets: chains } : {}),
+    trades,
+    warnings,
+    reason: options.reason ?? 'Portfolio rebalance',
+    dryRun: options.dryRun
+  };
+
+  for (const [id, stored] of plans) {
+    if (Date.parse(stored.expiresAt) <= now) plans.delete(id);
+  }
+  if (trades.length > 0) {
+    plans.set(plan.planId, plan);
+  }
+  return plan;
+}
+
+/**
+ * Execute a previewed plan
+ *
+ * Trades run in plan order. Each amount is capped at the live balance so
+ * buys funded by earlier sales still go through after slippage.
+ *
+ * @param planId The id returned by previewRebalance
+ * @returns The outcome of every trade (an error response if any trade failed)
+ */
+export async function confirmRebalance(planId: string): Promise<Record<string, unknown>> {
+  const plan = plans.get(planId);
+  if (!plan || plan.account !== accounts.current()) {
+    throw new Error(`Rebalance plan ${planId} not found; plans can be confirmed once, within ${PLAN_TTL_MS / 60000} minutes of the preview`);
+  }
+  plans.delete(planId);
+  if (Date.parse(plan.expiresAt) <= Date.now()) {
+    throw new Error(`Rebalance plan ${planId} expired at ${plan.expiresAt}; preview it again`);
+  }
+
+  const results: Record<string, unknown>[] = [];
+  for (const trade of plan.trades) {
+    const live = await tradingClient.getBalances(true);
+    const balances = isErrorResponse(live) || !dryRunSimulator.shouldSimulate(plan.dryRun) || !dryRunSimulator.hasFills()
+      ? live
+      : dryRunSimulator.applyToBalances(live);
+    const available = isErrorResponse(balances)
+      ? Infinity
+      : balances.balances
+        .filter((b) => sameTokenAddress(b.token, trade.fromToken) && (!b.specificChain || !trade.fromSpecificChain || b.specificChain === trade.fromSpecificChain))
+        .reduce((sum, b) => sum + b.amount, 0);
+    const amount = Math.min(Number(trade.amount), available);
+    if (amount <= 0) {
+      results.push({ step: trade.step, success: false, error: `Insufficient balance: no ${trade.fromSymbol ?? trade.fromToken} left to trade` });
+      continue;
+    }
+
+    const params: TradeParams = {
+      fromToken: trade.fromToken,
+      toToken: trade.toToken,
+      amount: formatAmount(amount),
+      reason: `[rebalance ${plan.planId}] step ${trade.step}/${plan.trades.length}: ${plan.reason}`,
+      fromChain: trade.fromChain,
+      toChain: trade.toChain
+    };
+    if (trade.fromSpecificChain) params.fromSpecificChain = trade.fromSpecificChain;
+    if (trade.toSpecificChain) params.toSpecificChain = trade.toSpecificChain;
+
+    const result = await submitTrade(params, { type: 'rebalance', id: plan.planId }, plan.dryRun);
+    results.push(result.success
+      ? { step: trade.step, success: true, amount: params.amount, transaction: result.transaction }
+      : { step: trade.step, success: false, amount: params.amount, error: result.error });
+  }
+
+  const failures = results.filter((result) => !result.success);
+  const summary = {
+    planId: plan.planId,
+    executed: results.length - failures.length,
+    failed: failures.length,
+    results
+  };
+  if (failures.length === 0) {
+    return { success: true, ...summary, message: 'Rebalance complete. Preview again to check the remaining drift.' };
+  }
+
+  // Report partial execution as an error so the failed legs can't be mistaken for success
+  const reasons = failures.map((result) =>
+    `step ${result.step}: ${typeof result.error === 'string' ? result.error : 'rejected by risk policy'}`
+  );
+  const response: ErrorResponse & Record<string, unknown> = {
+    success: false,
+    error: `${failures.length} of ${results.length} rebalance trades failed (${reasons.join('; ')})`,
+    status: 400,
+    ...summary,
+    message: 'Some trades failed. Preview again to plan the remaining drift.'
+  };
+  return response;
+}
@@ -0,0 +1,164 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { tradingClient } from "./accounts.js";
+import { tokenRegistry } from "./token-registry.js";
+import { classifyError, isErrorResponse } from "./errors.js";
+import { ApiResponse, ErrorResponse } from "./types.js";
+
+// URI scheme shared by every resource exposed by this server
+export const RESOURCE_SCHEME = "tradingsim://";
+
+// Define the static MCP resources
+export const TRADING_SIM_RESOURCES: Resource[] = [
+  // Account Resources
+  {
+    uri: "tradingsim://profile",
+    name: "Team profile",
+    description: "Your team's profile information",
+    mimeType: "application/json"
+  },
+  {
+    uri: "tradingsim://portfolio",
+    name: "Portfolio",
+    description: "Current portfolio positions and total value",
+    mimeType: "application/json"
+  },
+  {
+    uri: "tradingsim://balances",
+    name: "Balances",
+    description: "Token balances across all supported chains",
+    mimeType: "application/json"
+  },
+  {
+    uri: "tradingsim://trades",
+    name: "Trade history",
+    description: "Most recent trades for your team",
+    mimeType: "application/json"
+  },
+
+  // Competition Resources
+  {
+    uri: "tradingsim://competition/status",
+    name: "Competition status",
+    description: "Status of the current competition",
+    mimeType: "application/json"
+  },
+  {
+    uri: "tradingsim://competition/rules",
+    name: "Competition rules",
+    description: "Trading rules, rate limits and available chains",
+    mimeType: "application/json"
+  },
+  {
+    uri: "tradingsim://leaderboard",
+    name: "Leaderboard",
+    description: "Leaderboard for the active competition",
+    mimeType: "application/json"
+  },
+
+  // Health Resources
+  {
+    uri: "tradingsim://health",
+    name: "API health",
+    description: "Basic health status of the trading simulator API",
+    mimeType: "application/json"
+  }
+];
+
+// Define the MCP resource templates
+export const TRADING_SIM_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "tradingsim://price/{token}",
+    name: "Token price",
+    description: "Current price for a token address or symbol (e.g. 'USDC@base', 'SOL')",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "tradingsim://token/{token}",
+    name: "Token info",
+    description: "Detailed information for a token address or symbol (e.g. 'USDC@base', 'SOL')",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "tradingsim://trades/{token}",
+    name: "Trades by token",
+    description: "Trade history filtered by a token address or symbol",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "tradingsim://leaderboard/{competitionId}",
+    name: "Competition leaderboard",
+    description: "Leaderboard for a specific competition",
+    mimeType: "application/json"
+  }
+];
+
+type ResourceLoader = () => Promise<ApiResponse | ErrorResponse>;
+type TemplateLoader = (param: string) => Promise<ApiResponse | ErrorResponse>;
+
+// Loaders for the static resources, keyed by URI
+const RESOURCE_LOADERS: Record<string, ResourceLoader> = {
+  "tradingsim://profile": () => tradingClient.getProfile(),
+  "tradingsim://portfolio": () => tradingClient.getPortfolio(),
+  "tradingsim://balances": () => tradingClient.getBalances(),
+  "tradingsim://trades": () => tradingClient.getTradeHistory(),
+  "tradingsim://competition/status": () => tradingClient.getCompetitionStatus(),
+  "tradingsim://competition/rules": () => tradingClient.getRules(),
+  "tradingsim://leaderboard": () => tradingClient.getLeaderboard(),
+  "tradingsim://health": () => tradingClient.getHealthStatus()
+};
+
+// Loaders for the templated resources, keyed by the path prefix before the parameter
+const TEMPLATE_LOADERS: Record<string, TemplateLoader> = {
+  price: (token) => {
+    const resolved = tokenRegistry.resolve(token);
+    return tradingClient.getPrice(resolved.address, resolved.chain, resolved.specificChain);
+  },
+  token: (token) => {
+    const resolved = tokenRegistry.resolve(token);
+    return tradingClient.getTokenInfo(resolved.address, resolved.chain, resolved.specificChain);
+  },
+  trades: (token) => {
+    const resolved = tokenRegistry.resolve(token);
+    return tradingClient.getTradeHistory({ token: resolved.address, chain: resolved.chain });
+  },
+  leaderboard: (competitionId) => tradingClient.getLeaderboard(competitionId)
+};
+
+/**
+ * Read a resource by URI
+ *
+ * @param uri The resource URI (static or matching one of the templates)
+ * @returns The resource contents as JSON text
+ * @throws Error if the URI is unknown or the API request fails
+ */
+export async function readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }[]> {
+  let loader: ResourceLoader | undefined = RESOURCE_LOADERS[uri];
+
+  if (!loader && uri.startsWith(RESOURCE_SCHEME)) {
+    const path = uri.slice(RESOURCE_SCHEME.length);
+    const slash = path.indexOf("/");
+    if (slash !== -1) {
+      const templateLoader = TEMPLATE_LOADERS[path.slice(0, slash)];
+      const param = decodeURIComponent(path.slice(slash + 1));
+      if (templateLoader && param) {
+        loader = () => templateLoader(param);
+      }
+    }
+  }
+
+  if (!loader) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const response = await loader();
+  if (isErrorResponse(response)) {
+    const { error, kind, hint } = classifyError(response);
+    throw new Error(`Failed to read resource ${uri}: ${error} (${kind}). ${hint}`);
+  }
+
+  return [{
+    uri,
+    mimeType: "application/json",
+    text: JSON.stringify(response, null, 2)
+  }];
+}
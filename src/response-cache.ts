@@ -0,0 +1,110 @@
+import { ApiResponse, CacheMetadata, ErrorResponse } from './types.js';
+
+// A cached successful response
+interface CacheEntry {
+  response: ApiResponse;
+  storedAt: number;
+  ttlMs: number;
+}
+
+/**
+ * In-memory TTL cache for API responses
+ *
+ * Only successful responses are stored. Concurrent requests for the same
+ * key share a single in-flight promise.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<ApiResponse | ErrorResponse>>();
+  private generation = 0;
+
+  /**
+   * Return a cached response or load and store a fresh one
+   *
+   * @param key The cache key (typically the request path)
+   * @param ttlMs Time to live in milliseconds (0 disables caching for the key)
+   * @param bypassCache Skip the cache and in-flight de-duplication
+   * @param loader Function that performs the request
+   * @returns The response annotated with cache metadata
+   */
+  async getOrLoad<T extends ApiResponse>(
+    key: string,
+    ttlMs: number,
+    bypassCache: boolean,
+    loader: () => Promise<T | ErrorResponse>
+  ): Promise<T | ErrorResponse> {
+    if (ttlMs <= 0) {
+      return loader();
+    }
+
+    if (!bypassCache) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        const ageMs = Date.now() - entry.storedAt;
+        if (ageMs < entry.ttlMs) {
+          return { ...entry.response, cache: this.metadata(true, ageMs, entry.ttlMs) } as T;
+        }
+        this.entries.delete(key);
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        return pending as Promise<T | ErrorResponse>;
+      }
+    }
+
+    const generation = this.generation;
+    const promise = loader().then((response) => {
+      if (!response.success) {
+        return response;
+      }
+      // Don't store responses that were in flight when the cache was invalidated
+      if (generation === this.generation) {
+        this.entries.set(key, { response, storedAt: Date.now(), ttlMs });
+      }
+      return { ...response, cache: this.metadata(false, 0, ttlMs) } as T;
+    }).finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Remove every entry whose key starts with the given prefix
+   *
+   * @param prefix Key prefix, e.g. '/api/account/'
+   */
+  invalidate(prefix: string): void {
+    this.generation++;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of this.inFlight.keys()) {
+      if (key.startsWith(prefix)) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Build the cache metadata attached to a response
+   */
+  private metadata(hit: boolean, ageMs: number, ttlMs: number): CacheMetadata {
+    return { hit, ageMs, ttlMs };
+  }
+}
@@ -0,0 +1,458 @@
+import { config } from './env.js';
+import { tokenRegistry } from './token-registry.js';
+import { isErrorResponse } from './errors.js';
+import {
+  BalancesResponse,
+  ClassifiedErrorResponse,
+  LeaderboardEntry,
+  LeaderboardResponse,
+  PortfolioResponse,
+  QuoteResponse,
+  ResponseFormat,
+  SpecificChain,
+  TokenBalance,
+  TokenPortfolioItem,
+  TradeHistoryResponse,
+  TradeTransaction,
+} from './types.js';
+
+// Tool result as returned to the MCP client
+export interface ToolResult {
+  content: { type: string; text?: string }[];
+  isError?: boolean;
+}
+
+// Per-call response shaping (the format and fields tool arguments)
+export interface ResponseOptions {
+  format?: ResponseFormat;       // Defaults to TRADING_SIM_OUTPUT_FORMAT
+  fields?: string[];             // Keys to keep, dotted for nested keys (e.g. "tokens.value")
+}
+
+// Nested keys selected by a field list (true keeps the whole value)
+type FieldTree = { [key: string]: FieldTree | true };
+
+// A markdown table column
+interface Column<T> {
+  header: string;
+  field: keyof T & string;       // Column is dropped when no row has this key (e.g. projected away)
+  render: (row: T) => string;
+  numeric?: boolean;             // Right-aligned
+}
+
+// Renders a tool's successful response as markdown, or null to fall back to the generic layout
+type MarkdownRenderer = (response: Record<string, unknown>) => string | null;
+
+const USD = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const SMALL_USD = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumSignificantDigits: 4 });
+const AMOUNT = new Intl.NumberFormat('en-US', { maximumFractionDigits: 4 });
+const SMALL_AMOUNT = new Intl.NumberFormat('en-US', { maximumSignificantDigits: 6 });
+
+/**
+ * Format a USD value (sub-dollar prices keep four significant digits)
+ */
+function formatUsd(value: number | null | undefined): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return '-';
+  return value !== 0 && Math.abs(value) < 1 ? SMALL_USD.format(value) : USD.format(value);
+}
+
+/**
+ * Format a token amount
+ */
+function formatAmount(value: number | null | undefined): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return '-';
+  return value !== 0 && Math.abs(value) < 1 ? SMALL_AMOUNT.format(value) : AMOUNT.format(value);
+}
+
+/**
+ * Format a percentage, with a sign when requested
+ */
+function formatPercent(value: number, signed: boolean = false): string {
+  if (!Number.isFinite(value)) return '-';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+/**
+ * Format an ISO timestamp as "YYYY-MM-DD HH:MM:SS" (UTC)
+ */
+function formatTime(timestamp: string | undefined): string {
+  if (!timestamp) return '-';
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Label a token by its registered symbol, or a shortened address
+ */
+function tokenLabel(address: string | undefined, specificChain?: string | null): string {
+  if (!address) return '-';
+  const entry = tokenRegistry.findByAddress(address, specificChain ? { specificChain: specificChain as SpecificChain } : {});
+  if (entry) return entry.symbol;
+  return address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The objects in a JSON array (anything else yields no rows)
+ */
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Escape text for a markdown table cell
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render rows as a markdown table, dropping columns no row has a value for
+ */
+function table<T>(rows: T[], columns: Column<T>[]): string {
+  if (rows.length === 0) {
+    return '_None_';
+  }
+  const shown = columns.filter((column) => rows.some((row) => row[column.field] !== undefined));
+  if (shown.length === 0) {
+    return '';
+  }
+  return [
+    `| ${shown.map((column) => column.header).join(' | ')} |`,
+    `| ${shown.map((column) => column.numeric ? '---:' : '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${shown.map((column) => cell(column.render(row))).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Join a bold title and detail parts into a summary line, skipping empty parts
+ */
+function summary(title: string, parts: (string | false | undefined)[]): string {
+  const details = parts.filter(Boolean);
+  return `**${title}**${details.length > 0 ? ` ${details.join(' · ')}` : ''}`;
+}
+
+/**
+ * Render a portfolio with each position's weight
+ */
+function renderPortfolio(value: Record<string, unknown>): string | null {
+  const response = value as Partial<PortfolioResponse>;
+  const tokens = records(response.tokens) as Partial<TokenPortfolioItem>[];
+  const total = response.totalValue ?? tokens.reduce((sum, token) => sum + (token.value ?? 0), 0);
+
+  const lines = [summary('Portfolio', [
+    response.totalValue !== undefined && formatUsd(response.totalValue),
+    response.tokens !== undefined && `${tokens.length} token${tokens.length === 1 ? '' : 's'}`,
+    response.snapshotTime !== undefined && `as of ${formatTime(response.snapshotTime)} UTC`,
+    response.source !== undefined && `(${response.source})`
+  ])];
+
+  if (response.tokens !== undefined) {
+    lines.push('', table(tokens, [
+      { header: 'Token', field: 'token', render: (row) => tokenLabel(row.token, row.specificChain) },
+      { header: 'Chain', field: 'chain', render: (row) => row.specificChain ?? row.chain ?? '-' },
+      { header: 'Amount', field: 'amount', render: (row) => formatAmount(row.amount), numeric: true },
+      { header: 'Price', field: 'price', render: (row) => formatUsd(row.price), numeric: true },
+      { header: 'Value', field: 'value', render: (row) => formatUsd(row.value), numeric: true },
+      { header: 'Weight', field: 'value', render: (row) => total > 0 ? formatPercent(((row.value ?? 0) / total) * 100) : '-', numeric: true }
+    ]));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render token balances
+ */
+function renderBalances(value: Record<string, unknown>): string | null {
+  const response = value as Partial<BalancesResponse> & { dryRun?: boolean };
+  const balances = records(response.balances) as Partial<TokenBalance>[];
+
+  const lines = [summary('Balances', [
+    response.balances !== undefined && `${balances.length} token${balances.length === 1 ? '' : 's'}`,
+    response.dryRun && '(dry run: simulated fills applied)'
+  ])];
+
+  if (response.balances !== undefined) {
+    lines.push('', table(balances, [
+      { header: 'Token', field: 'token', render: (row) => tokenLabel(row.token, row.specificChain) },
+      { header: 'Chain', field: 'chain', render: (row) => row.specificChain ?? row.chain ?? '-' },
+      { header: 'Amount', field: 'amount', render: (row) => formatAmount(row.amount), numeric: true }
+    ]));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a trade history
+ */
+function renderTrades(value: Record<string, unknown>): string | null {
+  const response = value as Partial<TradeHistoryResponse>;
+  const trades = records(response.trades) as Partial<TradeTransaction>[];
+  const failed = trades.filter((trade) => trade.success === false).length;
+
+  const lines = [summary('Trades', [
+    response.trades !== undefined && `${trades.length}${failed > 0 ? ` (${failed} failed)` : ''}`
+  ])];
+
+  if (response.trades !== undefined) {
+    lines.push('', table(trades, [
+      { header: 'Time (UTC)', field: 'timestamp', render: (row) => formatTime(row.timestamp) },
+      { header: 'From', field: 'fromToken', render: (row) => tokenLabel(row.fromToken, row.fromSpecificChain) },
+      { header: 'To', field: 'toToken', render: (row) => tokenLabel(row.toToken, row.toSpecificChain) },
+      { header: 'Sold', field: 'fromAmount', render: (row) => formatAmount(row.fromAmount), numeric: true },
+      { header: 'Bought', field: 'toAmount', render: (row) => formatAmount(row.toAmount), numeric: true },
+      { header: 'Rate', field: 'price', render: (row) => formatAmount(row.price), numeric: true },
+      { header: 'Status', field: 'success', render: (row) => row.success === false ? `failed${row.error ? `: ${row.error}` : ''}` : 'ok' },
+      { header: 'Reason', field: 'reason', render: (row) => row.reason ?? '' }
+    ]));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a leaderboard with each team's gap to the leader
+ */
+function renderLeaderboard(value: Record<string, unknown>): string | null {
+  const response = value as Partial<LeaderboardResponse>;
+  const entries = records(response.leaderboard) as Partial<LeaderboardEntry>[];
+  const leaderValue = Math.max(...entries.map((entry) => entry.portfolioValue ?? -Infinity));
+
+  const lines = [summary('Leaderboard', [
+    response.competition?.name,
+    response.competition?.status && `(${response.competition.status})`
+  ])];
+
+  if (response.leaderboard !== undefined) {
+    lines.push('', table(entries, [
+      { header: 'Rank', field: 'rank', render: (row) => String(row.rank ?? '-'), numeric: true },
+      { header: 'Team', field: 'teamName', render: (row) => row.teamName ?? '-' },
+      { header: 'Portfolio value', field: 'portfolioValue', render: (row) => formatUsd(row.portfolioValue), numeric: true },
+      {
+        header: 'vs. leader', field: 'portfolioValue', numeric: true,
+        render: (row) => row.portfolioValue === undefined || row.portfolioValue === leaderValue || leaderValue <= 0
+          ? '-'
+          : formatPercent((row.portfolioValue / leaderValue - 1) * 100, true)
+      },
+      { header: 'Status', field: 'active', render: (row) => row.active === false ? `inactive${row.deactivationReason ? ` (${row.deactivationReason})` : ''}` : 'active' }
+    ]));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Summarize a quote on one line, or null if projection removed the amounts
+ */
+function quoteLine(quote: Partial<QuoteResponse>): string | null {
+  if (quote.fromAmount === undefined || quote.toAmount === undefined || !quote.fromToken || !quote.toToken) {
+    return null;
+  }
+  const from = tokenLabel(quote.fromToken, quote.fromSpecificChain);
+  const to = tokenLabel(quote.toToken, quote.toSpecificChain);
+  return [
+    `${formatAmount(quote.fromAmount)} ${from} → ${formatAmount(quote.toAmount)} ${to}`,
+    quote.exchangeRate !== undefined && `rate ${formatAmount(quote.exchangeRate)} ${to}/${from}`,
+    quote.prices && `${formatUsd(quote.fromAmount * quote.prices.fromToken)} → ${formatUsd(quote.toAmount * quote.prices.toToken)}`,
+    quote.slippage !== undefined && `slippage ${formatPercent(quote.slippage)}`
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Render a single quote as a one-line summary
+ */
+function renderQuote(value: Record<string, unknown>): string | null {
+  const response = value as Partial<QuoteResponse>;
+  const line = quoteLine(response);
+  return line === null ? null : `**Quote** ${line}`;
+}
+
+/**
+ * Render a batch of quotes, one line per leg
+ */
+function renderQuotes(response: Record<string, unknown>): string | null {
+  if (!Array.isArray(response.results)) {
+    return null;
+  }
+  const results = records(response.results) as (Partial<QuoteResponse> & { index?: number; error?: string })[];
+  const lines = results.map((result, i) => {
+    const line = result.success === false ? `failed: ${result.error}` : quoteLine(result);
+    return line === null ? null : `${(result.index ?? i) + 1}. ${line}`;
+  });
+  return lines.includes(null) ? null : [summary('Quotes', [`${lines.length} leg${lines.length === 1 ? '' : 's'}`]), '', ...lines].join('\n');
+}
+
+/**
+ * Render a value inline: scalars as text, lists of scalars comma-separated, anything else as compact JSON
+ */
+function inline(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => item === null || typeof item !== 'object')) {
+    return value.map(inline).join(', ');
+  }
+  return `\`${JSON.stringify(value)}\``;
+}
+
+/**
+ * Flatten nested objects to dotted keys (arrays are kept as values)
+ */
+function flatten(value: Record<string, unknown>, prefix: string = ''): [string, unknown][] {
+  return Object.entries(value).flatMap(([key, item]): [string, unknown][] =>
+    isRecord(item) && Object.keys(item).length > 0 ? flatten(item, `${prefix}${key}.`) : [[`${prefix}${key}`, item]]
+  );
+}
+
+/**
+ * Render any response: values as a key/value list, and arrays of objects as tables
+ */
+function renderGeneric(response: Record<string, unknown>): string {
+  const list: string[] = [];
+  const tables: string[] = [];
+  for (const [key, value] of flatten(response)) {
+    if (key === 'success' && value === true) {
+      continue;
+    }
+    const rows = records(value);
+    if (Array.isArray(value) && value.length > 0 && rows.length === value.length) {
+      const keys = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+      tables.push(`**${key}** (${rows.length})`, '', table(rows, keys.map((field) => ({ header: field, field, render: (row) => inline(row[field]) }))), '');
+    } else {
+      list.push(`- **${key}:** ${inline(value)}`);
+    }
+  }
+  return [...list, ...(list.length > 0 && tables.length > 0 ? [''] : []), ...tables].join('\n').trim() || '_Empty response_';
+}
+
+// Markdown renderers by tool (other tools use the generic layout)
+const MARKDOWN_RENDERERS: Record<string, MarkdownRenderer> = {
+  get_portfolio: renderPortfolio,
+  get_balances: renderBalances,
+  get_trades: renderTrades,
+  get_leaderboard: renderLeaderboard,
+  get_quote: renderQuote,
+  get_quotes: renderQuotes
+};
+
+/**
+ * Render an error response as markdown
+ */
+function renderError(response: Partial<ClassifiedErrorResponse>): string {
+  const kind = [response.kind, response.retryable ? 'retryable' : undefined].filter(Boolean).join(', ');
+  return [
+    `**Error**${kind ? ` (${kind})` : ''}: ${response.error}`,
+    ...(response.hint ? ['', `Hint: ${response.hint}`] : [])
+  ].join('\n');
+}
+
+/**
+ * Build the key tree for a field list ("tokens" keeps every key under "tokens.value")
+ */
+function fieldTree(fields: string[]): FieldTree {
+  const tree: FieldTree = {};
+  for (const field of fields) {
+    const keys = field.split('.');
+    let node = tree;
+    for (const [i, key] of keys.entries()) {
+      if (i === keys.length - 1) {
+        node[key] = true;
+        break;
+      }
+      const child = node[key];
+      if (child === true) break;
+      node = node[key] = child ?? {};
+    }
+  }
+  return tree;
+}
+
+/**
+ * Keep only the selected keys of a value, applying the same keys to every array element
+ */
+function projectTree(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => projectTree(item, tree));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, subtree] of Object.entries(tree)) {
+    if (key in value) {
+      const item = (value as Record<string, unknown>)[key];
+      result[key] = subtree === true ? item : projectTree(item, subtree);
+    }
+  }
+  return result;
+}
+
+/**
+ * Keep only the requested keys of a response
+ *
+ * @param response The response
+ * @param fields Keys to keep; dotted keys select nested values and apply to every element of an array
+ * @returns The projected response (keys that do not exist are left out)
+ */
+export function projectFields(response: unknown, fields: string[]): unknown {
+  return projectTree(response, fieldTree(fields));
+}
+
+/**
+ * Render a response in the requested format
+ *
+ * @param tool The tool that produced the response (selects its markdown layout)
+ * @param response The response, already projected
+ * @param format The output format
+ */
+export function formatResponse(tool: string, response: unknown, format: ResponseFormat): string {
+  switch (format) {
+    case ResponseFormat.COMPACT:
+      return JSON.stringify(response);
+    case ResponseFormat.MARKDOWN: {
+      if (isErrorResponse(response)) {
+        return renderError(response);
+      }
+      if (!isRecord(response)) {
+        return inline(response);
+      }
+      return MARKDOWN_RENDERERS[tool]?.(response) ?? renderGeneric(response);
+    }
+    default:
+      return JSON.stringify(response, null, 2);
+  }
+}
+
+/**
+ * Reformat a tool result for the client
+ *
+ * Handlers produce indented JSON (which the journal records in full); this
+ * applies the call's format and field projection on the way out. Plain-text
+ * results such as argument errors are returned unchanged, and errors are
+ * never projected.
+ *
+ * @param tool The tool name
+ * @param result The handler's result
+ * @param options The call's format and fields arguments
+ */
+export function formatToolResult<T extends ToolResult>(tool: string, result: T, options: ResponseOptions = {}): T {
+  const format = options.format ?? config.TRADING_SIM_OUTPUT_FORMAT;
+  if (format === ResponseFormat.JSON && !options.fields) {
+    return result;
+  }
+
+  let response: unknown;
+  try {
+    response = JSON.parse(result.content.map((item) => item.text ?? '').join('\n'));
+  } catch {
+    return result;
+  }
+
+  if (options.fields && !result.isError) {
+    response = projectFields(response, options.fields);
+  }
+  return { ...result, content: [{ type: 'text' as const, text: formatResponse(tool, response, format) }] };
+}
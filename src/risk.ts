@@ -0,0 +1,374 @@
+import { config, logger } from './env.js';
+import { accounts, tradingClient } from './accounts.js';
+import { sameTokenAddress, tokenRegistry } from './token-registry.js';
+import { dryRunSimulator } from './dry-run.js';
+import { isErrorResponse } from './errors.js';
+import {
+  ErrorResponse,
+  PortfolioResponse,
+  QuoteResponse,
+  TokenPortfolioItem,
+  TradeParams,
+} from './types.js';
+
+// Risk limits applied to every trade before it is sent to the API
+export interface RiskPolicy {
+  maxTradePercent?: number;              // Max trade value as % of portfolio value
+  maxTokenConcentrationPercent?: number; // Max value of the destination token as % of portfolio after the trade
+  maxChainConcentrationPercent?: number; // Max value held on the destination chain as % of portfolio after the trade
+  allowedTokens?: string[];              // Destination tokens allowed (symbols, `SYMBOL@chain` or addresses)
+  deniedTokens?: string[];               // Destination tokens refused (symbols, `SYMBOL@chain` or addresses)
+  minUsdcReserve?: number;               // Minimum USDC value (USD) to keep after the trade
+  maxDailyTrades?: number;               // Max trades per UTC day
+}
+
+// Rules that can reject a trade
+export type RiskRule =
+  | 'maxTradePercent'
+  | 'maxTokenConcentrationPercent'
+  | 'maxChainConcentrationPercent'
+  | 'allowedTokens'
+  | 'deniedTokens'
+  | 'minUsdcReserve'
+  | 'maxDailyTrades'
+  | 'riskDataUnavailable';
+
+// A single failed rule
+export interface RiskViolation {
+  rule: RiskRule;
+  message: string;
+  limit?: number | string[];
+  actual?: number | string;
+}
+
+// Structured result of a risk check
+export interface RiskCheckResult {
+  approved: boolean;
+  violations: RiskViolation[];
+  tradeValue?: number;
+  portfolioValue?: number;
+}
+
+// Trades fetched per page when counting today's trades
+const TRADE_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Build the risk policy from environment configuration
+ */
+export function riskPolicyFromConfig(): RiskPolicy {
+  return {
+    maxTradePercent: config.TRADING_SIM_RISK_MAX_TRADE_PCT,
+    maxTokenConcentrationPercent: config.TRADING_SIM_RISK_MAX_TOKEN_PCT,
+    maxChainConcentrationPercent: config.TRADING_SIM_RISK_MAX_CHAIN_PCT,
+    allowedTokens: config.TRADING_SIM_RISK_ALLOWED_TOKENS,
+    deniedTokens: config.TRADING_SIM_RISK_DENIED_TOKENS,
+    minUsdcReserve: config.TRADING_SIM_RISK_MIN_USDC_RESERVE,
+    maxDailyTrades: config.TRADING_SIM_RISK_MAX_DAILY_TRADES
+  };
+}
+
+/**
+ * Round a percentage or USD value for display
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check whether a portfolio item is USDC according to the token registry
+ */
+function isUsdc(item: TokenPortfolioItem): boolean {
+  return tokenRegistry.findByAddress(item.token)?.symbol === 'USDC';
+}
+
+/**
+ * Risk manager
+ *
+ * Validates trades against the configured risk policy using live
+ * portfolio and quote data. Rejections list every rule that failed.
+ */
+export class RiskManager {
+  private readonly policy: RiskPolicy;
+  private readonly queues = new Map<string, Promise<void>>();
+
+  /**
+   * Create a new risk manager
+   *
+   * @param policy The risk limits to enforce
+   */
+  constructor(policy: RiskPolicy = riskPolicyFromConfig()) {
+    this.policy = policy;
+  }
+
+  /**
+   * Get the active risk policy
+   */
+  getPolicy(): RiskPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Whether any risk limit is configured
+   */
+  isEnabled(): boolean {
+    return Object.values(this.policy).some((value) => value !== undefined);
+  }
+
+  /**
+   * Check whether a token matches any entry of an allow/deny list
+   *
+   * Entries may be addresses, bare symbols (matching any chain) or `SYMBOL@chain`.
+   */
+  private matchesList(list: string[], address: string, specificChain?: string): boolean {
+    const entry = tokenRegistry.findByAddress(address);
+    return list.some((item) => {
+      if (sameTokenAddress(item, address)) {
+        return true;
+      }
+      if (!entry) {
+        return false;
+      }
+      const [symbol, chain] = item.split('@');
+      return symbol.toUpperCase() === entry.symbol &&
+        (!chain || chain.toLowerCase() === (specificChain ?? entry.specificChain));
+    });
+  }
+
+  /**
+   * Count successful trades made since the start of the current UTC day
+   *
+   * Pages through the history (newest first) until it reaches an older trade
+   * or more than `limit` trades; failed trades don't count toward the cap.
+   */
+  private async countTradesToday(limit: number): Promise<number | null> {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    let count = 0;
+    for (let offset = 0; ; offset += TRADE_HISTORY_PAGE_SIZE) {
+      const history = await tradingClient.getTradeHistory({ limit: TRADE_HISTORY_PAGE_SIZE, offset });
+      if (isErrorResponse(history)) {
+        return null;
+      }
+
+      const today = history.trades.filter((trade) => new Date(trade.timestamp) >= startOfDay);
+      count += today.filter((trade) => trade.success).length;
+      if (count > limit || today.length < history.trades.length || history.trades.length < TRADE_HISTORY_PAGE_SIZE) {
+        return count;
+      }
+    }
+  }
+
+  /**
+   * Run a risk check and the trade it approves with no other trade for the
+   * current account in between
+   *
+   * Trades for one account run one at a time, so two trades checked at once
+   * can't both pass a daily cap or USDC reserve that only one of them fits.
+   *
+   * @param fn Checks and executes a trade
+   */
+  async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const account = accounts.current();
+    const result = (this.queues.get(account) ?? Promise.resolve()).then(fn);
+    const done = result.then(() => undefined, () => undefined);
+    this.queues.set(account, done);
+    try {
+      return await result;
+    } finally {
+      if (this.queues.get(account) === done) {
+        this.queues.delete(account);
+      }
+    }
+  }
+
+  /**
+   * Validate a trade against the risk policy
+   *
+   * @param params The trade parameters (with chains already resolved)
+   * @param dryRun Whether the trade will be simulated; if so the portfolio is valued with the simulated fills applied
+   * @returns The structured check result
+   */
+  async checkTrade(params: TradeParams, dryRun: boolean = false): Promise<RiskCheckResult> {
+    if (!this.isEnabled()) {
+      return { approved: true, violations: [] };
+    }
+
+    const policy = this.policy;
+    const violations: RiskViolation[] = [];
+
+    if (policy.deniedTokens?.length && this.matchesList(policy.deniedTokens, params.toToken, params.toSpecificChain)) {
+      violations.push({
+        rule: 'deniedTokens',
+        message: `Destination token ${params.toToken} is on the deny list`,
+        limit: policy.deniedTokens,
+        actual: params.toToken
+      });
+    }
+
+    if (policy.allowedTokens?.length && !this.matchesList(policy.allowedTokens, params.toToken, params.toSpecificChain)) {
+      violations.push({
+        rule: 'allowedTokens',
+        message: `Destination token ${params.toToken} is not on the allow list`,
+        limit: policy.allowedTokens,
+        actual: params.toToken
+      });
+    }
+
+    if (policy.maxDailyTrades !== undefined) {
+      const tradesToday = await this.countTradesToday(policy.maxDailyTrades);
+      if (tradesToday === null) {
+        violations.push({
+          rule: 'riskDataUnavailable',
+          message: 'Could not load trade history to enforce the daily trade cap'
+        });
+      } else if (tradesToday >= policy.maxDailyTrades) {
+        violations.push({
+          rule: 'maxDailyTrades',
+          message: `Daily trade cap reached (${tradesToday} of ${policy.maxDailyTrades} trades today)`,
+          limit: policy.maxDailyTrades,
+          actual: tradesToday
+        });
+      }
+    }
+
+    const needsValuation =
+      policy.maxTradePercent !== undefined ||
+      policy.maxTokenConcentrationPercent !== undefined ||
+      policy.maxChainConcentrationPercent !== undefined ||
+      policy.minUsdcReserve !== undefined;
+
+    if (!needsValuation) {
+      return { approved: violations.length === 0, violations };
+    }
+
+    const [livePortfolio, quote] = await Promise.all([
+      tradingClient.getPortfolio(),
+      tradingClient.getQuote(
+        params.fromToken,
+        params.toToken,
+        params.amount,
+        params.fromChain,
+        params.toChain,
+        params.fromSpecificChain,
+        params.toSpecificChain
+      )
+    ]);
+
+    const portfolio = dryRun && dryRunSimulator.hasFills() && !isErrorResponse(livePortfolio)
+      ? await dryRunSimulator.applyToPortfolio(livePortfolio)
+      : livePortfolio;
+
+    if (isErrorResponse(portfolio) || isErrorResponse(quote)) {
+      const [label, failed] = isErrorResponse(portfolio) ? ['portfolio', portfolio] : ['quote', quote as ErrorResponse];
+      violations.push({
+        rule: 'riskDataUnavailable',
+        message: `Could not load ${label} to evaluate risk limits: ${failed.error}`
+      });
+      return { approved: false, violations };
+    }
+
+    violations.push(...this.checkValuation(params, portfolio, quote));
+
+    const result: RiskCheckResult = {
+      approved: violations.length === 0,
+      violations,
+      tradeValue: round(quote.fromAmount * quote.prices.fromToken),
+      portfolioValue: round(portfolio.totalValue)
+    };
+
+    if (!result.approved) {
+      logger.debug('[RiskManager] Trade rejected:', result.violations);
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply the value-based limits using the portfolio and a quote for the trade
+   */
+  private checkValuation(params: TradeParams, portfolio: PortfolioResponse, quote: QuoteResponse): RiskViolation[] {
+    const policy = this.policy;
+    const violations: RiskViolation[] = [];
+    const totalValue = portfolio.totalValue;
+    const fromValue = quote.fromAmount * quote.prices.fromToken;
+    const toValue = quote.toAmount * quote.prices.toToken;
+
+    if (totalValue <= 0) {
+      return [{
+        rule: 'riskDataUnavailable',
+        message: 'Portfolio value is zero or unknown; value-based risk limits cannot be evaluated'
+      }];
+    }
+
+    const fromChainKey = params.fromSpecificChain ?? quote.fromSpecificChain ?? quote.chains.fromChain;
+    const toChainKey = params.toSpecificChain ?? quote.toSpecificChain ?? quote.chains.toChain;
+    const chainKeyOf = (item: TokenPortfolioItem) => item.specificChain ?? item.chain;
+    const isToToken = (item: TokenPortfolioItem) =>
+      sameTokenAddress(item.token, params.toToken) && chainKeyOf(item) === toChainKey;
+
+    if (policy.maxTradePercent !== undefined) {
+      const tradePercent = (fromValue / totalValue) * 100;
+      if (tradePercent > policy.maxTradePercent) {
+        violations.push({
+          rule: 'maxTradePercent',
+          message: `Trade value $${round(fromValue)} is ${round(tradePercent)}% of portfolio value, above the ${policy.maxTradePercent}% limit`,
+          limit: policy.maxTradePercent,
+          actual: round(tradePercent)
+        });
+      }
+    }
+
+    // USDC is the cash leg of most trades, so it is exempt from token concentration
+    const toEntry = tokenRegistry.findByAddress(params.toToken);
+    if (policy.maxTokenConcentrationPercent !== undefined && toEntry?.symbol !== 'USDC') {
+      const heldValue = portfolio.tokens.filter(isToToken).reduce((sum, item) => sum + item.value, 0);
+      const tokenPercent = ((heldValue + toValue) / totalValue) * 100;
+      if (tokenPercent > policy.maxTokenConcentrationPercent) {
+        violations.push({
+          rule: 'maxTokenConcentrationPercent',
+          message: `Position in ${params.toToken} would be ${round(tokenPercent)}% of portfolio value, above the ${policy.maxTokenConcentrationPercent}% limit`,
+          limit: policy.maxTokenConcentrationPercent,
+          actual: round(tokenPercent)
+        });
+      }
+    }
+
+    // Same-chain trades do not move value between chains, so only cross-chain trades are checked
+    if (policy.maxChainConcentrationPercent !== undefined && fromChainKey !== toChainKey) {
+      const chainValue = portfolio.tokens
+        .filter((item) => chainKeyOf(item) === toChainKey)
+        .reduce((sum, item) => sum + item.value, 0);
+      const chainPercent = ((chainValue + toValue) / totalValue) * 100;
+      if (chainPercent > policy.maxChainConcentrationPercent) {
+        violations.push({
+          rule: 'maxChainConcentrationPercent',
+          message: `Holdings on ${toChainKey} would be ${round(chainPercent)}% of portfolio value, above the ${policy.maxChainConcentrationPercent}% limit`,
+          limit: policy.maxChainConcentrationPercent,
+          actual: round(chainPercent)
+        });
+      }
+    }
+
+    if (policy.minUsdcReserve !== undefined) {
+      const fromEntry = tokenRegistry.findByAddress(params.fromToken);
+      if (fromEntry?.symbol === 'USDC' && toEntry?.symbol !== 'USDC') {
+        const usdcValue = portfolio.tokens.filter(isUsdc).reduce((sum, item) => sum + item.value, 0);
+        const remaining = usdcValue - fromValue;
+        if (remaining < policy.minUsdcReserve) {
+          violations.push({
+            rule: 'minUsdcReserve',
+            message: `Trade would leave $${round(remaining)} in USDC, below the $${policy.minUsdcReserve} reserve`,
+            limit: policy.minUsdcReserve,
+            actual: round(remaining)
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+}
+
+// Export a pre-configured instance of the risk manager
+export const riskManager = new RiskManager();
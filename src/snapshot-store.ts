@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { config, logger } from './env.js';
+import { DEFAULT_ACCOUNT_NAME, accounts, tradingClient } from './accounts.js';
+import { isErrorResponse } from './errors.js';
+
+// One sampled point on the equity curve
+export interface PortfolioSnapshot {
+  timestamp: string;
+  totalValue: number;
+}
+
+/**
+ * File-backed portfolio snapshot store
+ *
+ * Snapshots are appended as JSON lines so the file survives restarts and
+ * partial writes only ever lose the last line.
+ */
+export class SnapshotStore {
+  private readonly filePath: string;
+
+  /**
+   * Create a new snapshot store
+   *
+   * @param filePath Path to the JSON lines file
+   */
+  constructor(filePath: string = path.join(config.TRADING_SIM_DATA_DIR, 'portfolio-snapshots.jsonl')) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Path of the backing file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a snapshot
+   */
+  async append(snapshot: PortfolioSnapshot): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(snapshot)}\n`, 'utf8');
+  }
+
+  /**
+   * Read snapshots in a time window, oldest first
+   *
+   * @param start Optional inclusive start time
+   * @param end Optional inclusive end time
+   */
+  async read(start?: Date, end?: Date): Promise<PortfolioSnapshot[]> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots: PortfolioSnapshot[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line) as PortfolioSnapshot;
+        const time = Date.parse(snapshot.timestamp);
+        if (Number.isNaN(time) || typeof snapshot.totalValue !== 'number') continue;
+        if (start && time < start.getTime()) continue;
+        if (end && time > end.getTime()) continue;
+        snapshots.push(snapshot);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+
+    return snapshots.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+}
+
+/**
+ * Background portfolio sampler
+ *
+ * Records the live portfolio total of every account into that account's
+ * snapshot store on an interval.
+ */
+export class PortfolioSampler {
+  private readonly storeFor: (account: string) => SnapshotStore;
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly lastSamples = new Map<string, PortfolioSnapshot>();
+  private readonly lastErrors = new Map<string, string>();
+
+  /**
+   * Create a new sampler
+   *
+   * @param storeFor Returns the store to write an account's snapshots to
+   * @param intervalMs Sampling interval in milliseconds (0 disables sampling)
+   */
+  constructor(storeFor: (account: string) => SnapshotStore, intervalMs: number = config.TRADING_SIM_SNAPSHOT_INTERVAL_MS) {
+    this.storeFor = storeFor;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start sampling (takes one sample immediately)
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    void this.sample();
+    this.timer = setInterval(() => void this.sample(), this.intervalMs);
+    // Don't keep the process alive just for sampling
+    this.timer.unref();
+  }
+
+  /**
+   * Stop sampling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sampler state of an account for reporting
+   *
+   * @param account The account (defaults to the current account)
+   */
+  getStatus(account: string = accounts.current()): { running: boolean; intervalMs: number; file: string; lastSample: PortfolioSnapshot | null; lastError: string | null } {
+    return {
+      running: this.timer !== null,
+      intervalMs: this.intervalMs,
+      file: this.storeFor(account).getFilePath(),
+      lastSample: this.lastSamples.get(account) ?? null,
+      lastError: this.lastErrors.get(account) ?? null
+    };
+  }
+
+  /**
+   * Record the current portfolio total of every account
+   */
+  async sample(): Promise<void> {
+    for (const account of accounts.names()) {
+      await accounts.run(account, () => this.sampleAccount(account));
+    }
+  }
+
+  /**
+   * Record the current portfolio total of one account
+   *
+   * @returns The recorded snapshot, or null if the portfolio could not be read
+   */
+  private async sampleAccount(account: string): Promise<PortfolioSnapshot | null> {
+    try {
+      const portfolio = await tradingClient.getPortfolio(true);
+      if (isErrorResponse(portfolio)) {
+        this.lastErrors.set(account, portfolio.error);
+        logger.warn(`[Sampler] Failed to read portfolio of ${account}: ${portfolio.error}`);
+        return null;
+      }
+
+      const snapshot = { timestamp: new Date().toISOString(), totalValue: portfolio.totalValue };
+      await this.storeFor(account).append(snapshot);
+      this.lastSamples.set(account, snapshot);
+      this.lastErrors.delete(account);
+      return snapshot;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.lastErrors.set(account, message);
+      logger.warn(`[Sampler] Failed to record snapshot of ${account}: ${message}`);
+      return null;
+    }
+  }
+}
+
+// Snapshot stores by account
+const snapshotStores = new Map<string, SnapshotStore>();
+
+/**
+ * Snapshot store of an account
+ *
+ * The default account keeps portfolio-snapshots.jsonl; other accounts get
+ * portfolio-snapshots-<account>.jsonl next to it.
+ *
+ * @param account The account (defaults to the current account)
+ */
+export function snapshotStoreFor(account: string = accounts.current()): SnapshotStore {
+  let store = snapshotStores.get(account);
+  if (!store) {
+    const fileName = account === DEFAULT_ACCOUNT_NAME
+      ? 'portfolio-snapshots.jsonl'
+      : `portfolio-snapshots-${account.replace(/[^A-Za-z0-9_-]/g, '_')}.jsonl`;
+    store = new SnapshotStore(path.join(config.TRADING_SIM_DATA_DIR, fileName));
+    snapshotStores.set(account, store);
+  }
+  return store;
+}
+
+// Export a pre-configured sampler
+export const portfolioSampler = new PortfolioSampler(snapshotStoreFor);
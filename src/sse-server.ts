@@ -0,0 +1,203 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { config, logger } from './env.js';
+
+// Options for the MCP HTTP server
+export interface SseServerOptions {
+  host?: string;                     // Bind address
+  port?: number;                     // Port to listen on (0 picks a free port)
+  authToken?: string;                // Bearer token required from MCP clients
+}
+
+// Route that opens an SSE stream and route that receives client messages
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+// An open client session
+interface Session {
+  transport: SSEServerTransport;
+  server: Server;
+  connectedAt: string;
+}
+
+/**
+ * Whether a bind address only accepts local connections
+ */
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * MCP over HTTP with Server-Sent Events
+ *
+ * Each client opens an SSE stream on /sse and posts its messages to
+ * /messages?sessionId=... . Every session gets its own MCP server instance
+ * from the factory; everything else in the process (API client, caches,
+ * order manager, journal) is shared between sessions. /health is open so
+ * load balancers and supervisors can probe it without a token.
+ */
+export class SseServer {
+  private readonly createServer: () => Server;
+  private readonly options: Required<Omit<SseServerOptions, 'authToken'>> & { authToken?: string };
+  private readonly sessions = new Map<string, Session>();
+  private httpServer: http.Server | null = null;
+  private startedAt: number | null = null;
+
+  /**
+   * Create a new SSE server
+   *
+   * @param createServer Factory for a fully configured MCP server
+   * @param options Bind address, port and auth token (default from config)
+   */
+  constructor(createServer: () => Server, options: SseServerOptions = {}) {
+    this.createServer = createServer;
+    this.options = {
+      host: options.host ?? config.TRADING_SIM_HTTP_HOST,
+      port: options.port ?? config.TRADING_SIM_HTTP_PORT,
+      authToken: options.authToken ?? config.TRADING_SIM_HTTP_AUTH_TOKEN
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The base URL of the running server
+   */
+  async start(): Promise<string> {
+    if (!this.options.authToken && !isLoopback(this.options.host)) {
+      throw new Error(`TRADING_SIM_HTTP_AUTH_TOKEN is required to listen on ${this.options.host}; without a token only loopback addresses are allowed`);
+    }
+    if (!this.options.authToken) {
+      logger.warn('[SseServer] No TRADING_SIM_HTTP_AUTH_TOKEN set; any local process can connect');
+    }
+
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('[SseServer] Unhandled error:', error instanceof Error ? error.message : String(error));
+        if (!res.headersSent) {
+          this.send(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+
+    const server = this.httpServer;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.startedAt = Date.now();
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    return `http://${this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host}:${port}`;
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async stop(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    for (const session of sessions) {
+      await session.server.close();
+    }
+
+    if (!this.httpServer) {
+      return;
+    }
+    const server = this.httpServer;
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    this.httpServer = null;
+  }
+
+  /**
+   * Check the request's bearer token
+   */
+  private authorized(req: http.IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    const expected = Buffer.from(this.options.authToken);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'GET /health') {
+      this.send(res, 200, {
+        status: 'ok',
+        transport: 'sse',
+        sessions: this.sessions.size,
+        uptime: this.startedAt ? Math.floor((Date.now() - this.startedAt) / 1000) : 0,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (route !== `GET ${SSE_PATH}` && route !== `POST ${MESSAGES_PATH}`) {
+      this.send(res, 404, { error: `Not found: ${route}` });
+      return;
+    }
+
+    if (!this.authorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.send(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (route === `GET ${SSE_PATH}`) {
+      await this.openSession(res);
+      return;
+    }
+
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      this.send(res, 404, { error: `Unknown session: ${sessionId ?? '(missing sessionId)'}` });
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  /**
+   * Open an SSE stream and connect a new MCP server to it
+   */
+  private async openSession(res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = this.createServer();
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { transport, server, connectedAt: new Date().toISOString() });
+    res.on('close', () => {
+      if (this.sessions.delete(sessionId)) {
+        logger.info(`[SseServer] Session ${sessionId} closed (${this.sessions.size} open)`);
+        void server.close();
+      }
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await server.connect(transport);
+    logger.info(`[SseServer] Session ${sessionId} opened (${this.sessions.size} open)`);
+  }
+}
@@ -0,0 +1,306 @@
+import fs from 'fs';
+import { config, logger } from './env.js';
+import { BlockchainType, SpecificChain, COMMON_TOKENS } from './types.js';
+
+// A single token known to the registry
+export interface TokenRegistryEntry {
+  symbol: string;
+  address: string;
+  chain: BlockchainType;
+  specificChain: SpecificChain;
+  name?: string;
+  decimals?: number;
+}
+
+// Result of resolving a symbol, `SYMBOL@chain` or raw address
+export interface ResolvedToken {
+  address: string;
+  chain?: BlockchainType;
+  specificChain?: SpecificChain;
+  symbol?: string;
+}
+
+// Optional chain hints supplied alongside the token (e.g. explicit tool arguments)
+export interface TokenResolutionHint {
+  chain?: BlockchainType;
+  specificChain?: SpecificChain;
+}
+
+/**
+ * Error raised when a token cannot be resolved to a single address
+ */
+export class TokenResolutionError extends Error {
+  readonly candidates: TokenRegistryEntry[];
+
+  constructor(message: string, candidates: TokenRegistryEntry[] = []) {
+    super(message);
+    this.name = 'TokenResolutionError';
+    this.candidates = candidates;
+  }
+}
+
+// Aliases accepted after the `@` in `SYMBOL@chain`
+const CHAIN_ALIASES: Record<string, SpecificChain> = {
+  eth: SpecificChain.ETH,
+  ethereum: SpecificChain.ETH,
+  mainnet: SpecificChain.ETH,
+  polygon: SpecificChain.POLYGON,
+  matic: SpecificChain.POLYGON,
+  bsc: SpecificChain.BSC,
+  bnb: SpecificChain.BSC,
+  arbitrum: SpecificChain.ARBITRUM,
+  arb: SpecificChain.ARBITRUM,
+  base: SpecificChain.BASE,
+  optimism: SpecificChain.OPTIMISM,
+  op: SpecificChain.OPTIMISM,
+  avalanche: SpecificChain.AVALANCHE,
+  avax: SpecificChain.AVALANCHE,
+  linea: SpecificChain.LINEA,
+  svm: SpecificChain.SVM,
+  sol: SpecificChain.SVM,
+  solana: SpecificChain.SVM
+};
+
+/**
+ * Map a chain name or alias to a specific chain
+ *
+ * @param name Chain name such as 'base', 'ethereum' or 'solana'
+ * @returns The matching specific chain or undefined if unknown
+ */
+export function parseSpecificChain(name: string): SpecificChain | undefined {
+  return CHAIN_ALIASES[name.trim().toLowerCase()];
+}
+
+/**
+ * Derive the blockchain type from a specific chain
+ */
+export function chainTypeOf(specificChain: SpecificChain): BlockchainType {
+  return specificChain === SpecificChain.SVM ? BlockchainType.SVM : BlockchainType.EVM;
+}
+
+/**
+ * Check whether a string looks like a raw token address rather than a symbol
+ */
+export function isTokenAddress(token: string): boolean {
+  // EVM addresses are 0x-prefixed hex, Solana addresses are 32-44 base58 characters
+  return /^0x[a-fA-F0-9]{40}$/.test(token) || /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token);
+}
+
+/**
+ * Compare two token addresses (EVM addresses are case-insensitive)
+ */
+export function sameTokenAddress(a: string, b: string): boolean {
+  return a.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Token registry
+ *
+ * Maps symbols to addresses per chain. Seeded from COMMON_TOKENS and
+ * optionally extended from a local JSON file (TRADING_SIM_TOKENS_FILE).
+ */
+export class TokenRegistry {
+  private entries: TokenRegistryEntry[] = [];
+
+  /**
+   * Create a new token registry
+   *
+   * @param tokensFile Optional path to a JSON file with extra token entries
+   */
+  constructor(tokensFile: string | undefined = config.TRADING_SIM_TOKENS_FILE) {
+    this.loadCommonTokens();
+    if (tokensFile) {
+      this.loadFile(tokensFile);
+    }
+  }
+
+  /**
+   * Seed the registry from the COMMON_TOKENS constant
+   */
+  private loadCommonTokens(): void {
+    for (const network in COMMON_TOKENS.SVM) {
+      const tokens = COMMON_TOKENS.SVM[network as keyof typeof COMMON_TOKENS.SVM];
+      for (const symbol in tokens) {
+        this.register({
+          symbol,
+          address: tokens[symbol as keyof typeof tokens],
+          chain: BlockchainType.SVM,
+          specificChain: SpecificChain.SVM
+        });
+      }
+    }
+
+    for (const network in COMMON_TOKENS.EVM) {
+      const tokens = COMMON_TOKENS.EVM[network as keyof typeof COMMON_TOKENS.EVM];
+      for (const symbol in tokens) {
+        this.register({
+          symbol,
+          address: tokens[symbol as keyof typeof tokens],
+          chain: BlockchainType.EVM,
+          specificChain: network.toLowerCase() as SpecificChain
+        });
+      }
+    }
+  }
+
+  /**
+   * Load additional tokens from a JSON file
+   *
+   * The file must contain an array of objects with `symbol`, `address` and
+   * `specificChain` (a chain name or alias); `name` and `decimals` are optional.
+   *
+   * @param path Path to the tokens file
+   */
+  loadFile(path: string): void {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch (error) {
+      logger.error(`Failed to load token registry file ${path}:`, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (!Array.isArray(raw)) {
+      logger.error(`Token registry file ${path} must contain a JSON array`);
+      return;
+    }
+
+    let loaded = 0;
+    for (const item of raw) {
+      const specificChain = typeof item?.specificChain === 'string' ? parseSpecificChain(item.specificChain) : undefined;
+      if (typeof item?.symbol !== 'string' || typeof item?.address !== 'string' || !specificChain) {
+        logger.warn(`Skipping invalid token registry entry in ${path}: ${JSON.stringify(item)}`);
+        continue;
+      }
+
+      this.register({
+        symbol: item.symbol,
+        address: item.address,
+        chain: chainTypeOf(specificChain),
+        specificChain,
+        name: typeof item.name === 'string' ? item.name : undefined,
+        decimals: typeof item.decimals === 'number' ? item.decimals : undefined
+      });
+      loaded++;
+    }
+
+    logger.debug(`[TokenRegistry] Loaded ${loaded} tokens from ${path}`);
+  }
+
+  /**
+   * Add a token to the registry, replacing any entry for the same symbol and chain
+   *
+   * @param entry The token entry to add
+   */
+  register(entry: TokenRegistryEntry): void {
+    const symbol = entry.symbol.toUpperCase();
+    this.entries = this.entries.filter(
+      (e) => !(e.symbol === symbol && e.specificChain === entry.specificChain)
+    );
+    this.entries.push({ ...entry, symbol });
+  }
+
+  /**
+   * List all known tokens
+   */
+  list(): TokenRegistryEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Find all registry entries for a symbol
+   *
+   * @param symbol The token symbol (case-insensitive)
+   * @param hint Optional chain hint to narrow the results
+   */
+  findBySymbol(symbol: string, hint: TokenResolutionHint = {}): TokenRegistryEntry[] {
+    const upper = symbol.toUpperCase();
+    return this.entries.filter((e) =>
+      e.symbol === upper &&
+      (!hint.specificChain || e.specificChain === hint.specificChain) &&
+      (!hint.chain || e.chain === hint.chain)
+    );
+  }
+
+  /**
+   * Find the registry entry for an address
+   *
+   * @param address The token address (EVM addresses are matched case-insensitively)
+   * @param hint Optional chain hint to narrow the results
+   */
+  findByAddress(address: string, hint: TokenResolutionHint = {}): TokenRegistryEntry | undefined {
+    return this.entries.find((e) =>
+      sameTokenAddress(address, e.address) &&
+      (!hint.specificChain || e.specificChain === hint.specificChain)
+    );
+  }
+
+  /**
+   * Resolve a token reference to an address with its chain information
+   *
+   * Accepts a raw address, a bare symbol (`SOL`) or a symbol qualified with
+   * a chain (`USDC@base`). Unknown addresses are passed through untouched so
+   * the API can detect their chain.
+   *
+   * @param token The token reference
+   * @param hint Optional chain hint (e.g. an explicit specificChain argument)
+   * @returns The resolved token
+   * @throws TokenResolutionError if the symbol is unknown or ambiguous
+   */
+  resolve(token: string, hint: TokenResolutionHint = {}): ResolvedToken {
+    const input = token.trim();
+
+    if (isTokenAddress(input)) {
+      const entry = this.findByAddress(input, hint);
+      return entry
+        ? { address: entry.address, chain: entry.chain, specificChain: entry.specificChain, symbol: entry.symbol }
+        : { address: input };
+    }
+
+    let symbol = input;
+    let specificChain = hint.specificChain;
+    const at = input.indexOf('@');
+    if (at !== -1) {
+      symbol = input.slice(0, at);
+      const chainName = input.slice(at + 1);
+      specificChain = parseSpecificChain(chainName);
+      if (!specificChain) {
+        throw new TokenResolutionError(
+          `Unknown chain "${chainName}" in token "${input}". Supported chains: ${Object.values(SpecificChain).join(', ')}`
+        );
+      }
+    }
+
+    const candidates = this.findBySymbol(symbol, { chain: hint.chain, specificChain });
+    if (candidates.length === 0) {
+      const known = this.findBySymbol(symbol);
+      throw new TokenResolutionError(
+        known.length > 0
+          ? `Token "${symbol}" is not registered on the requested chain. Available on: ${known.map((e) => `${e.symbol}@${e.specificChain}`).join(', ')}`
+          : `Unknown token "${input}". Use a token address or a registered symbol such as ${this.symbolExamples()}`,
+        known
+      );
+    }
+
+    if (candidates.length > 1) {
+      throw new TokenResolutionError(
+        `Token "${symbol}" is ambiguous. Specify a chain, e.g. ${candidates.map((e) => `${e.symbol}@${e.specificChain} (${e.address})`).join(', ')}`,
+        candidates
+      );
+    }
+
+    const [entry] = candidates;
+    return { address: entry.address, chain: entry.chain, specificChain: entry.specificChain, symbol: entry.symbol };
+  }
+
+  /**
+   * Build a short list of example symbols for error messages
+   */
+  private symbolExamples(): string {
+    const symbols = [...new Set(this.entries.map((e) => `${e.symbol}@${e.specificChain}`))];
+    return symbols.slice(0, 5).join(', ');
+  }
+}
+
+// Export a pre-configured instance of the registry
+export const tokenRegistry = new TokenRegistry();
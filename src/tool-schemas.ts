@@ -0,0 +1,307 @@
+import { BlockchainType, ResponseFormat, SpecificChain } from './types.js';
+import { INDICATOR_NAMES, INDICATOR_SERIES_NAMES } from './indicators.js';
+import { ORDER_STATUSES, ORDER_TYPES } from './orders.js';
+import { ALGO_STATUSES, ALGO_TYPES } from './execution-algos.js';
+import { AMOUNT_PATTERN, DECIMAL_PATTERN, ObjectSchema, schema } from './json-schema.js';
+
+// Optional account argument accepted by every tool
+const ACCOUNT_PROPERTY = schema.string('Account profile to run this call as (see list_accounts; defaults to the default account)');
+
+// Optional response shaping arguments accepted by every tool
+export const OUTPUT_OPTIONS = schema.object({
+  format: schema.enum(Object.values(ResponseFormat), "Response format: indented JSON, minified JSON, or markdown (tables for portfolio, balances, trades and leaderboard, one-line quotes; other tools as a key/value list with a table per list of objects). Default: server setting"),
+  fields: schema.array(
+    schema.string("Key to keep; use dots for nested keys (e.g. 'tokens.value')", { minLength: 1 }),
+    "Only return these response keys (errors are never projected)",
+    { minItems: 1 }
+  )
+});
+
+/**
+ * Wrap an object schema as a top-level MCP tool input schema
+ *
+ * A tool whose own input already has a format argument (export_trades) keeps
+ * it; its responses use the server's default format.
+ */
+export function toolInputSchema(input: ObjectSchema) {
+  const { format, fields } = OUTPUT_OPTIONS.properties;
+  return {
+    ...input,
+    properties: { ...input.properties, ...("format" in input.properties ? {} : { format }), fields, account: ACCOUNT_PROPERTY },
+    additionalProperties: false,
+    $schema: "http://json-schema.org/draft-07/schema#"
+  };
+}
+
+// Shared property schemas
+const BLOCKCHAIN_TYPES = Object.values(BlockchainType);
+const SPECIFIC_CHAINS = Object.values(SpecificChain);
+const TOKEN_DESCRIPTION = "or symbol (e.g. 'USDC@base', 'SOL')";
+
+const bypassCache = schema.boolean("Skip the response cache and fetch fresh data");
+
+// API parameter schemas (the TypeScript types in types.ts are derived from these)
+
+export const TRADE_PARAMS_SCHEMA = schema.object({
+  fromToken: schema.string(`Source token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  toToken: schema.string(`Destination token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  amount: schema.string("Amount of fromToken to trade", { pattern: AMOUNT_PATTERN }),
+  reason: schema.string("Reason for executing this trade", { minLength: 1 }),
+  slippageTolerance: schema.string("Optional slippage tolerance percentage (e.g., '0.5' for 0.5%)", { pattern: DECIMAL_PATTERN }),
+  fromChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for source token"),
+  toChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for destination token"),
+  fromSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for source token"),
+  toSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for destination token")
+}, ['fromToken', 'toToken', 'amount', 'reason']);
+
+export const TRADE_HISTORY_PARAMS_SCHEMA = schema.object({
+  limit: schema.integer("Maximum number of trades to retrieve (default: 20)", { minimum: 1 }),
+  offset: schema.integer("Offset for pagination", { minimum: 0 }),
+  token: schema.string(`Filter by token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Filter by blockchain type")
+});
+
+export const PRICE_HISTORY_PARAMS_SCHEMA = schema.object({
+  token: schema.string(`Token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  startTime: schema.string("Start time as ISO timestamp", { format: 'date-time' }),
+  endTime: schema.string("End time as ISO timestamp", { format: 'date-time' }),
+  interval: schema.enum(['1m', '5m', '15m', '1h', '4h', '1d'] as const, "Time interval for price points"),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+  specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for EVM tokens")
+}, ['token']);
+
+// Tool input schemas
+
+export const EMPTY_INPUT = schema.object({});
+
+export const UPDATE_PROFILE_INPUT = schema.object({
+  contactPerson: schema.string("New contact person name"),
+  metadata: schema.object({
+    ref: schema.object({
+      name: schema.string("Agent name"),
+      version: schema.string("Agent version"),
+      url: schema.string("Link to agent documentation or repository")
+    }),
+    description: schema.string("Brief description of the agent"),
+    social: schema.object({
+      name: schema.string("Agent social name"),
+      email: schema.string("Contact email for the agent"),
+      twitter: schema.string("Twitter handle")
+    })
+  }, [], "Agent metadata with ref, description, and social information")
+});
+
+export const CACHED_INPUT = schema.object({ bypassCache });
+
+export const TOKEN_INPUT = schema.object({
+  token: schema.string(`Token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+  specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for EVM tokens"),
+  bypassCache
+}, ['token']);
+
+export const GET_TRADES_INPUT = TRADE_HISTORY_PARAMS_SCHEMA;
+
+export const GET_PNL_INPUT = schema.object({
+  method: schema.enum(['fifo', 'average'] as const, "Cost-basis method: first-in-first-out or average cost (default: fifo)")
+});
+
+export const COMPARE_ACCOUNTS_INPUT = schema.object({
+  accounts: schema.array(schema.string("Account name"), "Accounts to compare (default: all configured accounts)", { minItems: 1 }),
+  competitionId: schema.string("Optional competition ID for the leaderboard (if not provided, the active competition is used)")
+});
+
+export const GET_PERFORMANCE_INPUT = schema.object({
+  startTime: schema.string("Start of the window as ISO timestamp (default: first recorded snapshot)", { format: 'date-time' }),
+  endTime: schema.string("End of the window as ISO timestamp (default: now)", { format: 'date-time' }),
+  period: schema.enum(['1h', '4h', '1d'] as const, "Period used for returns, volatility and best/worst periods (default: 1h)")
+});
+
+export const EXPORT_TRADES_INPUT = schema.object({
+  format: schema.enum(['csv', 'ndjson'] as const, "File format: CSV or newline-delimited JSON (default: csv)"),
+  startTime: schema.string("Only trades at or after this ISO timestamp", { format: 'date-time' }),
+  endTime: schema.string("Only trades at or before this ISO timestamp", { format: 'date-time' }),
+  token: schema.string(`Only trades involving this token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Only trades on this blockchain type"),
+  success: schema.boolean("Only successful (true) or failed (false) trades")
+});
+
+export const GET_PRICE_HISTORY_INPUT = PRICE_HISTORY_PARAMS_SCHEMA;
+
+const period = (description: string) => schema.integer(description, { minimum: 1, maximum: 500 });
+
+const INDICATOR_PERIODS = schema.object({
+  sma: period("SMA period (default: 20)"),
+  ema: period("EMA period (default: 20)"),
+  rsi: period("RSI period (default: 14)"),
+  macdFast: period("MACD fast EMA period (default: 12)"),
+  macdSlow: period("MACD slow EMA period (default: 26)"),
+  macdSignal: period("MACD signal EMA period (default: 9)"),
+  bollinger: period("Bollinger Bands period (default: 20)"),
+  bollingerStdDev: schema.number("Bollinger Bands width in standard deviations (default: 2)", { minimum: 0 }),
+  atr: period("ATR-style volatility period (default: 14)"),
+  roc: period("Rate of change period (default: 10)")
+}, [], "Indicator periods, in price points of the chosen interval");
+
+export const GET_INDICATORS_INPUT = schema.extend(PRICE_HISTORY_PARAMS_SCHEMA, {
+  indicators: schema.array(schema.enum(INDICATOR_NAMES, "Indicator name"), "Indicators to compute (default: all)", { minItems: 1 }),
+  periods: INDICATOR_PERIODS,
+  output: schema.enum(['latest', 'series'] as const, "Return only the latest values, or compact series (default: latest)"),
+  seriesLength: schema.integer("Number of most recent points in series output (default: 50)", { minimum: 1, maximum: 1000 })
+});
+
+const STRATEGY_RULE = schema.object({
+  indicator: schema.enum(INDICATOR_SERIES_NAMES, "Indicator series to test (e.g. 'rsi', 'macd.histogram', 'price')"),
+  operator: schema.enum(['>', '<', '>=', '<=', 'crosses_above', 'crosses_below'] as const, "Comparison"),
+  value: schema.number("Number to compare against"),
+  compareTo: schema.enum(INDICATOR_SERIES_NAMES, "Indicator series to compare against instead of a number")
+}, ['indicator', 'operator']);
+
+export const RUN_BACKTEST_INPUT = schema.object({
+  token: schema.string(`Token address ${TOKEN_DESCRIPTION} to trade against USD`, { minLength: 1 }),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+  specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for EVM tokens"),
+  interval: schema.enum(['1m', '5m', '15m', '1h', '4h', '1d'] as const, "Price interval"),
+  startTime: schema.string("Start of the backtest as ISO timestamp", { format: 'date-time' }),
+  endTime: schema.string("End of the backtest as ISO timestamp", { format: 'date-time' }),
+  entry: schema.array(STRATEGY_RULE, "Entry rules; a position is opened when all of them hold", { minItems: 1 }),
+  exit: schema.array(STRATEGY_RULE, "Exit rules; the position is closed when any of them holds"),
+  periods: INDICATOR_PERIODS,
+  positionSizePercent: schema.number("Percent of cash spent on each entry (default: 100)", { minimum: 0, maximum: 100 }),
+  startingCash: schema.number("Starting USD balance (default: 10000)", { minimum: 0 }),
+  startingTokenAmount: schema.number("Starting token balance, valued at the first price (default: 0)", { minimum: 0 }),
+  stopLossPercent: schema.number("Exit when the price falls this percent below the entry fill", { minimum: 0 }),
+  takeProfitPercent: schema.number("Exit when the price rises this percent above the entry fill", { minimum: 0 }),
+  slippagePercentPer10k: schema.number("Slippage percent per $10,000 traded (default: parsed from the competition's slippageFormula)", { minimum: 0 }),
+  refresh: schema.boolean("Refetch the price series instead of using the local cache")
+}, ['token', 'interval', 'startTime', 'endTime', 'entry']);
+
+export const EXECUTE_TRADE_INPUT = schema.extend(TRADE_PARAMS_SCHEMA, {
+  dryRun: schema.boolean("Simulate the trade from a live quote without executing it (defaults to the server's dry-run setting)")
+});
+
+export const GET_QUOTE_INPUT = schema.object({
+  fromToken: schema.string(`Source token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  toToken: schema.string(`Destination token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  amount: schema.string("Amount of fromToken to potentially trade", { pattern: AMOUNT_PATTERN }),
+  fromChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for source token"),
+  toChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for destination token"),
+  fromSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for source token"),
+  toSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for destination token")
+}, ['fromToken', 'toToken', 'amount']);
+
+// Maximum number of items in a batch tool call
+const MAX_BATCH_ITEMS = 50;
+
+export const GET_PRICES_INPUT = schema.object({
+  tokens: schema.array(
+    schema.object({
+      token: schema.string(`Token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+      chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+      specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for EVM tokens")
+    }, ['token']),
+    "Tokens to price",
+    { minItems: 1, maxItems: MAX_BATCH_ITEMS }
+  ),
+  held: schema.boolean("Price every token with a non-zero balance instead of the tokens list"),
+  bypassCache
+});
+
+export const GET_QUOTES_INPUT = schema.object({
+  legs: schema.array(
+    schema.object({ ...GET_QUOTE_INPUT.properties }, GET_QUOTE_INPUT.required),
+    "Trade legs to quote",
+    { minItems: 1, maxItems: MAX_BATCH_ITEMS }
+  )
+}, ['legs']);
+
+export const PLACE_ORDER_INPUT = schema.object({
+  type: schema.enum(ORDER_TYPES, "Order type: limit_buy buys the token when its price falls to triggerPrice; limit_sell and take_profit sell when it rises to triggerPrice; stop_loss sells when it falls to triggerPrice; trailing_stop sells when it falls trailPercent below the highest price since placement"),
+  token: schema.string(`Token address ${TOKEN_DESCRIPTION} whose USD price is watched`, { minLength: 1 }),
+  amount: schema.string("Amount to trade: of the token for sell orders, of the quote token for limit_buy", { pattern: AMOUNT_PATTERN }),
+  triggerPrice: schema.number("USD price that triggers the order (required except for trailing_stop)", { minimum: 0 }),
+  trailPercent: schema.number("trailing_stop only: percent below the highest price seen that triggers the sale", { minimum: 0, maximum: 100 }),
+  quoteToken: schema.string(`Token received on sells and spent on buys ${TOKEN_DESCRIPTION} (default: USDC on the token's chain)`, { minLength: 1 }),
+  reason: schema.string("Reason for the order, included in the trade reason with the order id", { minLength: 1 }),
+  chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+  specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for EVM tokens"),
+  slippageTolerance: schema.string("Optional slippage tolerance percentage (e.g., '0.5' for 0.5%)", { pattern: DECIMAL_PATTERN }),
+  expiresAt: schema.string("Optional ISO timestamp after which the order is no longer watched", { format: 'date-time' }),
+  dryRun: schema.boolean("Simulate the trade when the order triggers (defaults to the server's dry-run setting)")
+}, ['type', 'token', 'amount', 'reason']);
+
+export const LIST_ORDERS_INPUT = schema.object({
+  status: schema.enum(ORDER_STATUSES, "Only orders with this status"),
+  token: schema.string(`Only orders watching this token address ${TOKEN_DESCRIPTION}`, { minLength: 1 })
+});
+
+export const CANCEL_ORDER_INPUT = schema.object({
+  orderId: schema.string("ID of the pending order to cancel", { minLength: 1 })
+}, ['orderId']);
+
+export const START_ALGO_ORDER_INPUT = schema.object({
+  type: schema.enum(ALGO_TYPES, "Algorithm: twap splits totalAmount into equal slices over durationSeconds; dca trades amountPerSlice every intervalSeconds, slices times; iceberg trades the largest slice whose quoted slippage is within maxSlippagePercent every intervalSeconds until totalAmount is filled"),
+  fromToken: schema.string(`Source token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  toToken: schema.string(`Destination token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  reason: schema.string("Reason for the order, included in every child trade reason with the parent id", { minLength: 1 }),
+  totalAmount: schema.string("twap and iceberg: total amount of fromToken to trade", { pattern: AMOUNT_PATTERN }),
+  amountPerSlice: schema.string("dca: amount of fromToken traded in each slice", { pattern: AMOUNT_PATTERN }),
+  slices: schema.integer("twap and dca: number of slices", { minimum: 2, maximum: 500 }),
+  durationSeconds: schema.number("twap: time over which the slices are spread", { minimum: 1 }),
+  intervalSeconds: schema.number("dca: time between slices; iceberg: pause between slices (default: 30)", { minimum: 1 }),
+  maxSlippagePercent: schema.number("iceberg: maximum quoted slippage percent for a slice", { minimum: 0 }),
+  minSliceAmount: schema.string("iceberg: smallest slice to send before waiting for better liquidity (default: totalAmount / 64)", { pattern: AMOUNT_PATTERN }),
+  fromChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for source token"),
+  toChain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type for destination token"),
+  fromSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for source token"),
+  toSpecificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain for destination token"),
+  slippageTolerance: schema.string("Optional slippage tolerance percentage for each slice (e.g., '0.5' for 0.5%)", { pattern: DECIMAL_PATTERN }),
+  dryRun: schema.boolean("Simulate every slice (defaults to the server's dry-run setting)")
+}, ['type', 'fromToken', 'toToken', 'reason']);
+
+export const LIST_ALGO_ORDERS_INPUT = schema.object({
+  algoId: schema.string("Only this algo order", { minLength: 1 }),
+  status: schema.enum(ALGO_STATUSES, "Only algo orders with this status")
+});
+
+export const CANCEL_ALGO_ORDER_INPUT = schema.object({
+  algoId: schema.string("ID of the running algo order to cancel", { minLength: 1 })
+}, ['algoId']);
+
+export const REBALANCE_PORTFOLIO_INPUT = schema.object({
+  targets: schema.array(
+    schema.object({
+      token: schema.string(`Token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+      chain: schema.enum(BLOCKCHAIN_TYPES, "Optional blockchain type"),
+      specificChain: schema.enum(SPECIFIC_CHAINS, "Optional specific chain, to target a token on one chain"),
+      weightPercent: schema.number("Target share of portfolio value in percent", { minimum: 0, maximum: 100 })
+    }, ['token', 'weightPercent']),
+    "Target weights per token (at most 100% in total with chainTargets); to target a token on one chain use 'SYMBOL@chain' or specificChain. Holdings without a token or chain target are sold, except USDC, which keeps the unallocated remainder",
+    { minItems: 1, maxItems: MAX_BATCH_ITEMS }
+  ),
+  chainTargets: schema.array(
+    schema.object({
+      specificChain: schema.enum(SPECIFIC_CHAINS, "Chain to target"),
+      weightPercent: schema.number("Target share of portfolio value held on the chain, excluding its USDC, in percent", { minimum: 0, maximum: 100 })
+    }, ['specificChain', 'weightPercent']),
+    "Target weights per chain (e.g. 30% on base across tokens). Token targets on the chain count toward its weight; the rest is spread over the chain's other holdings in proportion to their value",
+    { minItems: 1, maxItems: SPECIFIC_CHAINS.length }
+  ),
+  driftThresholdPercent: schema.number("Leave positions within this many percentage points of their target untouched (default: 1)", { minimum: 0 }),
+  reason: schema.string("Reason recorded on every rebalance trade", { minLength: 1 }),
+  dryRun: schema.boolean("Simulate the trades when the plan is confirmed (defaults to the server's dry-run setting)"),
+  confirmPlanId: schema.string("Execute a previewed plan by its planId instead of previewing a new one", { minLength: 1 })
+});
+
+export const QUERY_JOURNAL_INPUT = schema.object({
+  tool: schema.string("Only entries for this tool (e.g. 'execute_trade')"),
+  token: schema.string(`Only entries involving this token address ${TOKEN_DESCRIPTION}`, { minLength: 1 }),
+  startTime: schema.string("Only entries at or after this ISO timestamp", { format: 'date-time' }),
+  endTime: schema.string("Only entries at or before this ISO timestamp", { format: 'date-time' }),
+  success: schema.boolean("Only successful (true) or failed (false) calls"),
+  limit: schema.integer("Maximum number of entries to return, newest first (default: 50, max: 500)", { minimum: 1, maximum: 500 })
+});
+
+export const GET_LEADERBOARD_INPUT = schema.object({
+  competitionId: schema.string("Optional competition ID (if not provided, the active competition is used)")
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './env.js';
+import { tradingClient } from './accounts.js';
+import { tokenRegistry } from './token-registry.js';
+import { isErrorResponse } from './errors.js';
+import { BlockchainType, ErrorResponse, SpecificChain, TradeTransaction } from './types.js';
+
+// Supported export file formats
+export type TradeExportFormat = 'csv' | 'ndjson';
+
+// Filters and output settings for an export
+export interface TradeExportOptions {
+  format?: TradeExportFormat;
+  startTime?: string;
+  endTime?: string;
+  token?: string;            // Token address (trades where it is either side)
+  chain?: BlockchainType;
+  success?: boolean;
+}
+
+// Result of an export
+export interface TradeExportResult {
+  success: true;
+  file: string;
+  format: TradeExportFormat;
+  summary: {
+    trades: number;
+    succeeded: number;
+    failed: number;
+    firstTrade: string | null;
+    lastTrade: string | null;
+    tokens: number;
+    tradesByChain: Record<string, number>;
+  };
+}
+
+// CSV columns, in order
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'success',
+  'fromToken',
+  'fromSymbol',
+  'fromChain',
+  'fromSpecificChain',
+  'fromAmount',
+  'toToken',
+  'toSymbol',
+  'toChain',
+  'toSpecificChain',
+  'toAmount',
+  'price',
+  'reason',
+  'error',
+  'competitionId'
+] as const;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten a trade into an export row, adding registry symbols
+ */
+function toRow(trade: TradeTransaction): Record<(typeof CSV_COLUMNS)[number], unknown> {
+  const symbol = (token: string, specificChain: string | null) =>
+    tokenRegistry.findByAddress(token, { specificChain: (specificChain ?? undefined) as SpecificChain | undefined })?.symbol ?? '';
+
+  return {
+    id: trade.id,
+    timestamp: trade.timestamp,
+    success: trade.success,
+    fromToken: trade.fromToken,
+    fromSymbol: symbol(trade.fromToken, trade.fromSpecificChain),
+    fromChain: trade.fromChain,
+    fromSpecificChain: trade.fromSpecificChain,
+    fromAmount: trade.fromAmount,
+    toToken: trade.toToken,
+    toSymbol: symbol(trade.toToken, trade.toSpecificChain),
+    toChain: trade.toChain,
+    toSpecificChain: trade.toSpecificChain,
+    toAmount: trade.toAmount,
+    price: trade.price,
+    reason: trade.reason,
+    error: trade.error,
+    competitionId: trade.competitionId
+  };
+}
+
+/**
+ * Export the full trade history to a file in TRADING_SIM_EXPORT_DIR
+ *
+ * @param options Filters and output format
+ * @returns The file path and summary statistics, or the API error
+ */
+export async function exportTrades(options: TradeExportOptions = {}): Promise<TradeExportResult | ErrorResponse> {
+  const format = options.format ?? 'csv';
+  const history = await tradingClient.getAllTrades({ token: options.token, chain: options.chain });
+  if (isErrorResponse(history)) {
+    return history;
+  }
+
+  const start = options.startTime ? Date.parse(options.startTime) : undefined;
+  const end = options.endTime ? Date.parse(options.endTime) : undefined;
+
+  const trades = history.trades
+    .filter((trade) => {
+      const time = Date.parse(trade.timestamp);
+      if (start !== undefined && time < start) return false;
+      if (end !== undefined && time > end) return false;
+      if (options.success !== undefined && trade.success !== options.success) return false;
+      return true;
+    })
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const rows = trades.map(toRow);
+  const content = format === 'csv'
+    ? [CSV_COLUMNS.join(','), ...rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(','))].join('\n') + '\n'
+    : rows.map((row) => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+
+  await fs.promises.mkdir(config.TRADING_SIM_EXPORT_DIR, { recursive: true });
+  const file = path.join(
+    config.TRADING_SIM_EXPORT_DIR,
+    `trades-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`
+  );
+  await fs.promises.writeFile(file, content, 'utf8');
+
+  const tradesByChain: Record<string, number> = {};
+  const tokens = new Set<string>();
+  for (const trade of trades) {
+    const chain = trade.fromSpecificChain ?? trade.fromChain;
+    tradesByChain[chain] = (tradesByChain[chain] ?? 0) + 1;
+    tokens.add(trade.fromToken.toLowerCase());
+    tokens.add(trade.toToken.toLowerCase());
+  }
+  const succeeded = trades.filter((trade) => trade.success).length;
+
+  return {
+    success: true,
+    file,
+    format,
+    summary: {
+      trades: trades.length,
+      succeeded,
+      failed: trades.length - succeeded,
+      firstTrade: trades[0]?.timestamp ?? null,
+      lastTrade: trades[trades.length - 1]?.timestamp ?? null,
+      tokens: tokens.size,
+      tradesByChain
+    }
+  };
+}
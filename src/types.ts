@@ -1,3 +1,10 @@
+import type { FromSchema } from './json-schema.js';
+import type {
+  TRADE_PARAMS_SCHEMA,
+  TRADE_HISTORY_PARAMS_SCHEMA,
+  PRICE_HISTORY_PARAMS_SCHEMA,
+} from './tool-schemas.js';
+
 // Blockchain types
 export enum BlockchainType {
   SVM = 'svm', // Solana Virtual Machine
@@ -68,34 +75,19 @@ export interface TeamMetadata {
 }
 
 // Trade Parameters
-export interface TradeParams {
-  fromToken: string;
-  toToken: string;
-  amount: string;
-  reason: string;
-  slippageTolerance?: string;
-  fromChain?: BlockchainType;
-  toChain?: BlockchainType;
-  fromSpecificChain?: SpecificChain;
-  toSpecificChain?: SpecificChain;
-}
+export type TradeParams = FromSchema<typeof TRADE_PARAMS_SCHEMA>;
 
 // Trade History Query Parameters
-export interface TradeHistoryParams {
-  limit?: number;
-  offset?: number;
-  token?: string;
-  chain?: BlockchainType;
-}
+export type TradeHistoryParams = FromSchema<typeof TRADE_HISTORY_PARAMS_SCHEMA>;
 
 // Price History Parameters
-export interface PriceHistoryParams {
-  token: string;
-  startTime?: string;
-  endTime?: string;
-  interval?: '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
-  chain?: BlockchainType;
-  specificChain?: SpecificChain;
+export type PriceHistoryParams = FromSchema<typeof PRICE_HISTORY_PARAMS_SCHEMA>;
+
+// Cache metadata attached to responses served through the response cache
+export interface CacheMetadata {
+  hit: boolean;
+  ageMs: number;
+  ttlMs: number;
 }
 
 // API Response Types
@@ -106,6 +98,7 @@ export interface ApiResponse {
     code: string;
     message: string;
   };
+  cache?: CacheMetadata;
 }
 
 // Error Response Type
@@ -115,6 +108,32 @@ export interface ErrorResponse {
   status: number;
 }
 
+// Error classification
+export enum ErrorKind {
+  AUTH = 'auth',
+  INSUFFICIENT_BALANCE = 'insufficient_balance',
+  UNSUPPORTED_TOKEN = 'unsupported_token',
+  RATE_LIMITED = 'rate_limited',
+  COMPETITION_INACTIVE = 'competition_inactive',
+  NETWORK = 'network',
+  SERVER = 'server',
+  BAD_REQUEST = 'bad_request'
+}
+
+// Tool response formats: indented JSON, minified JSON or markdown tables
+export enum ResponseFormat {
+  JSON = 'json',
+  COMPACT = 'compact',
+  MARKDOWN = 'markdown'
+}
+
+// Error response with its classification and a remediation hint
+export interface ClassifiedErrorResponse extends ErrorResponse {
+  kind: ErrorKind;
+  retryable: boolean;
+  hint: string;
+}
+
 // Team profile response
 export interface TeamProfileResponse extends ApiResponse {
   team: {
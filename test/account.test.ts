@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { API_KEY, Harness, ok, startHarness } from './harness.js';
+import type { describeConfig } from '../src/config-loader.js';
+import type { RiskPolicy } from '../src/risk.js';
+import type {
+  BalancesResponse,
+  CompetitionRulesResponse,
+  CompetitionStatusResponse,
+  DetailedHealthCheckResponse,
+  HealthCheckResponse,
+  LeaderboardResponse,
+  PortfolioResponse,
+  TeamProfileResponse
+} from '../src/types.js';
+
+describe('account and competition tools', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('lists the account, price and trading tools', async () => {
+    const { tools } = await h.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of ['get_profile', 'get_balances', 'get_price', 'get_quote', 'execute_trade', 'get_leaderboard']) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  it('reads and updates the team profile', async () => {
+    const profile = ok<TeamProfileResponse>(await h.call('get_profile'));
+    assert.equal(profile.team.name, 'Mock Team');
+
+    const updated = ok<TeamProfileResponse>(await h.call('update_profile', { contactPerson: 'Test Agent' }));
+    assert.equal(updated.team.contactPerson, 'Test Agent');
+  });
+
+  it('returns the starting balances and portfolio', async () => {
+    const balances = ok<BalancesResponse>(await h.call('get_balances'));
+    assert.deepEqual(balances.balances.map((balance) => balance.specificChain), ['svm', 'eth', 'base']);
+    for (const balance of balances.balances) {
+      assert.equal(balance.amount, 10000);
+    }
+
+    const portfolio = ok<PortfolioResponse>(await h.call('get_portfolio'));
+    assert.equal(portfolio.totalValue, 30000);
+  });
+
+  it('reports the competition status, rules and leaderboard', async () => {
+    const status = ok<CompetitionStatusResponse>(await h.call('get_competition_status'));
+    assert.equal(status.active, true);
+
+    const rules = ok<CompetitionRulesResponse>(await h.call('get_competition_rules'));
+    assert.ok(rules.rules.tradingRules.length > 0);
+
+    const leaderboard = ok<LeaderboardResponse>(await h.call('get_leaderboard'));
+    assert.ok(leaderboard.leaderboard.some((entry) => entry.teamName === 'Mock Team'));
+  });
+
+  it('reports health', async () => {
+    const health = ok<HealthCheckResponse>(await h.call('get_health'));
+    assert.equal(health.status, 'ok');
+
+    ok<DetailedHealthCheckResponse>(await h.call('get_detailed_health'));
+  });
+
+  it('reports a disabled risk policy by default', async () => {
+    const risk = ok<{ enabled: boolean; policy: RiskPolicy }>(await h.call('get_risk_policy'));
+    assert.equal(risk.enabled, false);
+    assert.deepEqual(risk.policy, {});
+  });
+
+  it('reports the effective configuration with secrets redacted', async () => {
+    const result = await h.call('get_server_config');
+    const described = ok<ReturnType<typeof describeConfig>>(result);
+    const api = described.config.api as { key: string; maxRetries: number };
+    const data = described.config.data as { dir: string };
+    assert.equal(api.key, '[REDACTED]');
+    assert.equal(api.maxRetries, 0);
+    assert.equal(described.sources['api.maxRetries'], 'env');
+    assert.equal(data.dir, h.dataDir);
+    assert.ok(!result.text.includes(API_KEY));
+  });
+});
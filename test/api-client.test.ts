@@ -0,0 +1,178 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TradingSimulatorClient } from '../src/api-client.js';
+import type { RateLimits } from '../src/rate-limiter.js';
+import type { CompetitionRulesResponse, ErrorResponse, TeamProfileResponse } from '../src/types.js';
+
+const RULES_PATH = '/api/competition/rules';
+
+const RATE_LIMITS = [
+  '100 requests per minute for trade operations',
+  '300 requests per minute for price queries',
+  '3000 requests per minute across all endpoints'
+];
+
+// A request the fake fetch received
+interface FetchCall {
+  path: string;
+  at: number;
+}
+
+// A scripted reply: a response, or a request that only ends when it is aborted
+type Reply = Response | 'hang';
+
+/**
+ * JSON response with an optional set of headers
+ */
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('API client', () => {
+  // Imported after the settings below are in place, since the client reads them at load time
+  let Client: typeof TradingSimulatorClient;
+  let configured: RateLimits[];
+  let calls: FetchCall[];
+
+  /**
+   * Answer the competition rules from a fixed response and every other
+   * request from the script, in order
+   */
+  function script(replies: Reply[], rules: Response = json(200, { success: true, rules: { rateLimits: RATE_LIMITS } })): void {
+    mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(String(input));
+      calls.push({ path: url.pathname, at: Date.now() });
+      if (url.pathname === RULES_PATH) {
+        return rules.clone();
+      }
+      const reply = replies.shift();
+      assert.ok(reply, `Unexpected request: ${init?.method} ${url.pathname}`);
+      if (reply !== 'hang') {
+        return reply;
+      }
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+      });
+    });
+  }
+
+  /**
+   * Requests other than the rules lookup
+   */
+  function apiCalls(): FetchCall[] {
+    return calls.filter((call) => call.path !== RULES_PATH);
+  }
+
+  before(async () => {
+    Object.assign(process.env, {
+      TRADING_SIM_API_KEY: 'test-api-key-0001',
+      TRADING_SIM_API_URL: 'http://api.test',
+      TRADING_SIM_REQUEST_TIMEOUT_MS: '100',
+      TRADING_SIM_MAX_RETRIES: '2',
+      TRADING_SIM_RETRY_BASE_DELAY_MS: '10',
+      TRADING_SIM_RETRY_MAX_DELAY_MS: '1000',
+      TRADING_SIM_RATE_LIMIT_PER_MINUTE: '600',
+      TRADING_SIM_LOG_LEVEL: 'error'
+    });
+    ({ TradingSimulatorClient: Client } = await import('../src/api-client.js'));
+  });
+
+  beforeEach(async () => {
+    calls = [];
+    configured = [];
+    mock.method(process.stderr, 'write', () => true);
+    const { RateLimiter } = await import('../src/rate-limiter.js');
+    const configure = RateLimiter.prototype.configure;
+    mock.method(RateLimiter.prototype, 'configure', function (this: InstanceType<typeof RateLimiter>, limits: RateLimits) {
+      configured.push(limits);
+      configure.call(this, limits);
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('times out a request and retries it only if it is idempotent', async () => {
+    script(['hang', 'hang', 'hang', 'hang']);
+    const client = new Client();
+
+    const profile = await client.getProfile() as ErrorResponse;
+    assert.deepEqual([profile.success, profile.status], [false, 408]);
+    assert.match(profile.error, /timed out after 100ms/);
+    assert.equal(apiCalls().length, 3);
+
+    const trade = await client.executeTrade({ fromToken: 'a', toToken: 'b', amount: '1', reason: 'timeout' }) as ErrorResponse;
+    assert.equal(trade.status, 408);
+    assert.equal(apiCalls().length, 4);
+  });
+
+  it('retries 5xx responses with backoff for GET but not for POST', async () => {
+    script([
+      json(503, { error: { message: 'unavailable' } }),
+      json(502, { error: { message: 'bad gateway' } }),
+      json(200, { success: true, team: { name: 'Mock Team' } }),
+      json(500, { error: { message: 'trade failed' } })
+    ]);
+    const client = new Client();
+
+    const profile = await client.getProfile() as TeamProfileResponse;
+    assert.equal(profile.team.name, 'Mock Team');
+    assert.equal(apiCalls().length, 3);
+
+    const trade = await client.executeTrade({ fromToken: 'a', toToken: 'b', amount: '1', reason: '5xx' }) as ErrorResponse;
+    assert.deepEqual([trade.status, trade.error], [500, 'trade failed']);
+    assert.equal(apiCalls().length, 4);
+  });
+
+  it('waits for Retry-After on 429, even for POST, unless it exceeds the max delay', async () => {
+    script([
+      json(429, { error: { message: 'slow down' } }, { 'Retry-After': '0.2' }),
+      json(200, { success: true, transaction: { id: 'tx-1' } }),
+      json(429, { error: { message: 'come back later' } }, { 'Retry-After': '60' })
+    ]);
+    const client = new Client();
+
+    const trade = await client.executeTrade({ fromToken: 'a', toToken: 'b', amount: '1', reason: '429' });
+    assert.equal(trade.success, true);
+    const [first, second] = apiCalls();
+    assert.ok(second.at - first.at >= 190, `retried after ${second.at - first.at}ms`);
+
+    const profile = await client.getProfile() as ErrorResponse;
+    assert.deepEqual([profile.status, profile.error], [429, 'come back later']);
+    assert.equal(apiCalls().length, 3);
+  });
+
+  it('loads the competition rate limits once, before the first request', async () => {
+    script([
+      json(200, { success: true, team: { name: 'Mock Team' } }),
+      json(200, { success: true, team: { name: 'Mock Team' } }),
+      json(200, { success: true, team: { name: 'Mock Team' } })
+    ]);
+    const client = new Client();
+    // The constructor applies the configured cap on its own
+    assert.deepEqual(configured.splice(0), [{ global: 600 }]);
+
+    await Promise.all([client.getProfile(), client.getProfile()]);
+    await client.getProfile();
+
+    assert.deepEqual(calls.map((call) => call.path), [RULES_PATH, ...Array(3).fill('/api/account/profile')]);
+    // The configured global cap is stricter than the competition's
+    assert.deepEqual(configured, [{ trade: 100, price: 300, global: 600 }]);
+
+    const rules = await client.getRules() as CompetitionRulesResponse;
+    assert.equal(rules.cache?.hit, true);
+    assert.equal(configured.length, 1);
+  });
+
+  it('keeps the configured cap when the rules cannot be loaded', async () => {
+    script([json(200, { success: true, team: { name: 'Mock Team' } })], json(404, { error: { message: 'no competition' } }));
+    const client = new Client();
+    configured.splice(0);
+
+    const profile = await client.getProfile() as TeamProfileResponse;
+    assert.equal(profile.team.name, 'Mock Team');
+    assert.deepEqual(configured, []);
+    assert.equal(calls.filter((call) => call.path === RULES_PATH).length, 1);
+  });
+});
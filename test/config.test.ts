@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig, parseYaml } from '../src/config-loader.js';
+import { ROOT, SERVER_ENTRY, serverEnv } from './harness.js';
+
+/**
+ * Start the server with the given settings and wait for it to exit
+ */
+function runServer(env: Record<string, string>) {
+  return spawnSync(process.execPath, ['--import', 'tsx', SERVER_ENTRY], {
+    cwd: ROOT,
+    env: serverEnv(env),
+    input: '',
+    encoding: 'utf8',
+    timeout: 30000
+  });
+}
+
+describe('parseYaml', () => {
+  it('parses nested mappings and typed scalars', () => {
+    const parsed = parseYaml([
+      'api:',
+      '  url: http://localhost:3000',
+      '  maxRetries: 2',
+      'risk:',
+      '  enabled: true',
+      '  maxTradePct: 12.5',
+      '  dailyTradeCap: ~'
+    ].join('\n'));
+    assert.deepEqual(parsed, {
+      api: { url: 'http://localhost:3000', maxRetries: 2 },
+      risk: { enabled: true, maxTradePct: 12.5, dailyTradeCap: null }
+    });
+  });
+
+  it('parses "- key: value" sequences and flow sequences', () => {
+    const parsed = parseYaml([
+      'accounts:',
+      '  profiles:',
+      '    - name: main',
+      '      apiKeyEnv: MAIN_KEY',
+      '    - name: rival',
+      '      apiUrl: http://localhost:3001',
+      'risk:',
+      '  denyList:',
+      '  - PEPE',
+      '  - BONK',
+      '  chains: [svm, eth]'
+    ].join('\n'));
+    assert.deepEqual(parsed, {
+      accounts: {
+        profiles: [
+          { name: 'main', apiKeyEnv: 'MAIN_KEY' },
+          { name: 'rival', apiUrl: 'http://localhost:3001' }
+        ]
+      },
+      risk: { denyList: ['PEPE', 'BONK'], chains: ['svm', 'eth'] }
+    });
+  });
+
+  it('keeps quoted scalars as strings and strips comments', () => {
+    const parsed = parseYaml([
+      '# Team settings',
+      '---',
+      'api:',
+      '  key: "0042" # quoted, so not a number',
+      "  url: 'http://host:3000/#frag'",
+      '  note: "say \\"hi\\""',
+      'flag: "true"'
+    ].join('\n'));
+    assert.deepEqual(parsed, {
+      api: { key: '0042', url: 'http://host:3000/#frag', note: 'say "hi"' },
+      flag: 'true'
+    });
+  });
+
+  it('rejects syntax outside the supported subset with the line number', () => {
+    assert.throws(() => parseYaml('api:\n  url: &base http://x'), /line 2: unsupported YAML syntax "&base http:\/\/x"/);
+    assert.throws(() => parseYaml('note: |\n  text'), /line 1: unsupported YAML syntax "\|"/);
+    assert.throws(() => parseYaml('api:\n\turl: x'), /line 2: tabs are not allowed/);
+    assert.throws(() => parseYaml('a: 1\na: 2'), /line 2: duplicate key "a"/);
+    assert.throws(() => parseYaml('a: 1\n    b: 2'), /line 2: unexpected indentation/);
+    assert.throws(() => parseYaml('just text'), /line 1: expected "key: value"/);
+  });
+});
+
+describe('loadConfig', () => {
+  it('layers defaults, the config file, environment variables and flags', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+    try {
+      const file = path.join(dir, 'config.yaml');
+      fs.writeFileSync(file, 'api:\n  maxRetries: 1\n  batchConcurrency: 2\nrisk:\n  maxTradePct: 10\ndata:\n  dir: ./data\n');
+      const loaded = loadConfig(
+        ['--config', file, '--risk-max-trade-pct', '5'],
+        { TRADING_SIM_MAX_RETRIES: '4', TRADING_SIM_BATCH_CONCURRENCY: 'many' }
+      );
+
+      assert.equal(loaded.errors.length, 1);
+      assert.match(loaded.errors[0], /^TRADING_SIM_BATCH_CONCURRENCY/);
+      assert.deepEqual(
+        [loaded.values.TRADING_SIM_MAX_RETRIES, loaded.sources.TRADING_SIM_MAX_RETRIES],
+        [4, 'env']
+      );
+      assert.deepEqual(
+        [loaded.values.TRADING_SIM_BATCH_CONCURRENCY, loaded.sources.TRADING_SIM_BATCH_CONCURRENCY],
+        [2, 'file']
+      );
+      assert.deepEqual(
+        [loaded.values.TRADING_SIM_RISK_MAX_TRADE_PCT, loaded.sources.TRADING_SIM_RISK_MAX_TRADE_PCT],
+        [5, 'flag']
+      );
+      assert.equal(loaded.values.TRADING_SIM_DATA_DIR, path.join(dir, 'data'));
+      assert.equal(loaded.values.TRADING_SIM_JOURNAL_FILE, path.join(dir, 'data', 'journal.jsonl'));
+      assert.equal(loaded.sources.TRADING_SIM_REQUEST_TIMEOUT_MS, 'default');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports unknown settings and flags', () => {
+    const loaded = loadConfig(['--no-such-flag', '1'], {});
+    assert.match(loaded.errors.join('\n'), /--no-such-flag: is not a recognized option/);
+  });
+});
+
+describe('startup configuration', () => {
+  it('fails when no API key is configured', () => {
+    const result = runServer({});
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Invalid configuration/);
+    assert.match(result.stderr, /No API key configured/);
+  });
+
+  it('lists every invalid setting, including account problems, before exiting', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+    try {
+      const accountsFile = path.join(dir, 'accounts.json');
+      fs.writeFileSync(accountsFile, '{ not json');
+      const result = runServer({
+        TRADING_SIM_API_KEY: 'test-api-key-0001',
+        TRADING_SIM_DATA_DIR: dir,
+        TRADING_SIM_ACCOUNTS_FILE: accountsFile,
+        TRADING_SIM_HTTP_PORT: 'not-a-port'
+      });
+      assert.equal(result.status, 1);
+      assert.match(result.stderr, /Invalid configuration/);
+      assert.match(result.stderr, /accounts\.json/);
+      assert.match(result.stderr, /TRADING_SIM_HTTP_PORT/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
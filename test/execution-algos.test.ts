@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness, waitFor } from './harness.js';
+import type { AlgoOrder, AlgoProgress, AlgoRunner } from '../src/execution-algos.js';
+import type { Journal } from '../src/journal.js';
+
+// start_algo_order and cancel_algo_order responses
+interface AlgoResponse {
+  algo: AlgoOrder;
+  progress: AlgoProgress;
+}
+
+// list_algo_orders response
+type AlgoListResponse = ReturnType<AlgoRunner['list']>;
+
+describe('execution algorithms', () => {
+  let h: Harness;
+
+  /**
+   * Start an algo order and wait until it stops running
+   */
+  async function runToEnd(args: Record<string, unknown>): Promise<AlgoOrder & { progress: AlgoProgress }> {
+    const started = ok<AlgoResponse>(await h.call('start_algo_order', args));
+    assert.equal(started.algo.status, 'running');
+
+    let algo: (AlgoOrder & { progress: AlgoProgress }) | undefined;
+    await waitFor(async () => {
+      const list = ok<AlgoListResponse>(await h.call('list_algo_orders', { algoId: started.algo.id }));
+      algo = list.algos[0];
+      return algo?.status !== 'running';
+    });
+    assert.ok(algo);
+    return algo;
+  }
+
+  before(async () => {
+    h = await startHarness({ mock: { volatility: 0 } });
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('splits a TWAP order into equal slices', async () => {
+    const algo = await runToEnd({
+      type: 'twap', fromToken: 'USDC@svm', toToken: 'SOL', totalAmount: '100', slices: 2, durationSeconds: 2, reason: 'twap test'
+    });
+    assert.equal(algo.status, 'completed');
+    assert.deepEqual(algo.children.map((child) => [child.amount, child.success]), [[50, true], [50, true]]);
+    assert.equal(algo.progress.executedAmount, 100);
+    assert.equal(algo.progress.percentComplete, 100);
+
+    // Each slice is journaled with the algo that placed it
+    const journal = ok<Awaited<ReturnType<Journal['query']>>>(await h.call('query_journal', { tool: 'execute_trade' }));
+    const slices = journal.entries.filter((entry) => entry.origin?.id === algo.id);
+    assert.deepEqual(slices.map((entry) => [entry.origin?.type, entry.arguments.amount, entry.success]), [['algo', '50', true], ['algo', '50', true]]);
+  });
+
+  it('buys a fixed amount per DCA slice', async () => {
+    const algo = await runToEnd({
+      type: 'dca', fromToken: 'USDC@svm', toToken: 'SOL', amountPerSlice: '25', slices: 2, intervalSeconds: 1, reason: 'dca test'
+    });
+    assert.equal(algo.status, 'completed');
+    assert.equal(algo.progress.slicesExecuted, 2);
+    assert.equal(algo.progress.executedAmount, 50);
+  });
+
+  it('keeps iceberg slices under the slippage cap', async () => {
+    const algo = await runToEnd({
+      type: 'iceberg', fromToken: 'USDC@svm', toToken: 'SOL', totalAmount: '4000', maxSlippagePercent: 0.1, intervalSeconds: 1, reason: 'iceberg test'
+    });
+    assert.equal(algo.status, 'completed');
+    assert.ok(algo.children.length >= 2);
+    for (const child of algo.children) {
+      assert.ok((child.quotedSlippagePercent ?? Infinity) <= 0.1, `slice slippage ${child.quotedSlippagePercent}`);
+    }
+    assert.equal(algo.progress.executedAmount, 4000);
+  });
+
+  it('finishes as partial when failed slices leave part of the order unfilled', async () => {
+    // The second slice exceeds the remaining 4000 USDC on Ethereum
+    const algo = await runToEnd({
+      type: 'dca', fromToken: 'USDC@eth', toToken: 'WETH@eth', amountPerSlice: '6000', slices: 2, intervalSeconds: 1, reason: 'partial test'
+    });
+    assert.equal(algo.status, 'partial');
+    assert.deepEqual(algo.children.map((child) => child.success), [true, false]);
+    assert.equal(algo.progress.executedAmount, 6000);
+    assert.match(algo.error ?? '', /1 of 2 slices failed/);
+  });
+
+  it('cancels a running algo order', async () => {
+    const started = ok<AlgoResponse>(await h.call('start_algo_order', {
+      type: 'twap', fromToken: 'USDC@svm', toToken: 'SOL', totalAmount: '100', slices: 10, durationSeconds: 600, reason: 'cancel test'
+    }));
+    const cancelled = ok<AlgoResponse>(await h.call('cancel_algo_order', { algoId: started.algo.id }));
+    assert.equal(cancelled.algo.status, 'cancelled');
+    assert.ok(cancelled.progress.slicesExecuted <= 1);
+
+    failed(await h.call('cancel_algo_order', { algoId: started.algo.id }), /cancelled/);
+  });
+
+  it('rejects an algo order without its required parameters', async () => {
+    failed(await h.call('start_algo_order', { type: 'dca', fromToken: 'USDC@svm', toToken: 'SOL', reason: 'incomplete' }), /amountPerSlice/);
+  });
+});
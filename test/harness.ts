@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { MockServerOptions, MockTradingSimulator } from '../src/mock-server.js';
+import type { ClassifiedErrorResponse } from '../src/types.js';
+
+// Repository root and the server entry point run under tsx
+export const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+export const SERVER_ENTRY = path.join(ROOT, 'src', 'index.ts');
+
+// API key the mock requires and the server sends
+export const API_KEY = 'test-api-key-0001';
+
+// A tool call's result with its text parsed as JSON when possible
+export interface CallResult {
+  isError: boolean;
+  text: string;
+  data: unknown;
+}
+
+// Settings for a test server
+export interface HarnessOptions {
+  env?: Record<string, string>;      // Extra environment variables for the MCP server
+  mock?: MockServerOptions;          // Mock simulator settings (port and apiKey are set by the harness)
+}
+
+// A running mock simulator with an MCP server connected to it
+export interface Harness {
+  mock: MockTradingSimulator;
+  client: Client;
+  dataDir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<CallResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Environment for a server process: the current environment without any
+ * TRADING_SIM_* or DEBUG settings of the developer running the tests
+ */
+export function serverEnv(env: Record<string, string>): Record<string, string> {
+  const base = Object.fromEntries(
+    Object.entries(process.env).filter(([key, value]) =>
+      value !== undefined && !key.startsWith('TRADING_SIM_') && key !== 'DEBUG')
+  ) as Record<string, string>;
+  return { ...base, ...env };
+}
+
+/**
+ * Start a mock simulator and an MCP server (over stdio) pointed at it
+ *
+ * Each harness has its own mock and server process, so test files do not
+ * share balances or caches. Local data (snapshots, journal, orders, exports) goes to a temporary
+ * directory that close() removes.
+ *
+ * @param options Server environment and mock settings
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const mock = new MockTradingSimulator({ ...options.mock, port: 0, apiKey: API_KEY });
+  const url = await mock.start();
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', SERVER_ENTRY],
+    stderr: 'ignore',
+    env: serverEnv({
+      TRADING_SIM_API_KEY: API_KEY,
+      TRADING_SIM_API_URL: url,
+      TRADING_SIM_MAX_RETRIES: '0',
+      TRADING_SIM_LOG_LEVEL: 'error',
+      TRADING_SIM_DATA_DIR: dataDir,
+      TRADING_SIM_SNAPSHOT_INTERVAL_MS: '0',
+      TRADING_SIM_ORDER_POLL_INTERVAL_MS: '0',
+      ...options.env
+    })
+  });
+  const client = new Client({ name: 'trading-simulator-mcp-tests', version: '0.1.0' }, { capabilities: {} });
+  await client.connect(transport);
+
+  return {
+    mock,
+    client,
+    dataDir,
+    async call(name: string, args: Record<string, unknown> = {}): Promise<CallResult> {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as { type: string; text?: string }[];
+      const text = content.map((item) => item.text ?? '').join('\n');
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = undefined;
+      }
+      return { isError: result.isError === true, text, data };
+    },
+    async close(): Promise<void> {
+      await client.close();
+      await mock.stop();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * Wait until a condition holds, polling every 100 ms
+ *
+ * @param condition Checked until it resolves to true
+ * @param timeoutMs Give up after this long
+ */
+export async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * Response of a successful tool call
+ *
+ * Fails the test when the call returned an error or text that is not JSON.
+ *
+ * @param result The tool call result
+ * @returns The parsed response, typed as the tool's response type
+ */
+export function ok<T>(result: CallResult): T {
+  assert.equal(result.isError, false, result.text);
+  assert.notEqual(result.data, undefined, `Response is not JSON: ${result.text}`);
+  return result.data as T;
+}
+
+/**
+ * Error of a failed tool call
+ *
+ * Fails the test when the call succeeded or its text does not match.
+ *
+ * @param result The tool call result
+ * @param pattern Expected to match the error text
+ * @returns The classified API error, or an empty object for plain-text errors (e.g. invalid arguments)
+ */
+export function failed(result: CallResult, pattern: RegExp): Partial<ClassifiedErrorResponse> {
+  assert.equal(result.isError, true, `Expected an error, got: ${result.text}`);
+  assert.match(result.text, pattern);
+  return (result.data ?? {}) as Partial<ClassifiedErrorResponse>;
+}
@@ -0,0 +1,57 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, ok, startHarness } from './harness.js';
+import { bollinger, ema, macd, roc, rsi, sma } from '../src/indicators.js';
+
+describe('technical indicators', () => {
+  const rising = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  it('computes simple and exponential moving averages', () => {
+    assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    // Seeded with the SMA of the first 3 values, then k = 0.5
+    assert.deepEqual(ema([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    assert.deepEqual(ema([2, 2, 2, 6], 3), [null, null, 2, 4]);
+  });
+
+  it('bounds RSI between a one-way market and a balanced one', () => {
+    assert.equal(rsi(rising, 3).at(-1), 100);
+    assert.equal(rsi([...rising].reverse(), 3).at(-1), 0);
+    assert.equal(rsi([1, 2, 1, 2, 1, 2, 1], 2)[2], 50);
+    assert.deepEqual(rsi([1, 2], 3), [null, null]);
+    // No gains and no losses: neither overbought nor oversold
+    assert.deepEqual(rsi([5, 5, 5, 5, 5], 2), [null, null, 50, 50, 50]);
+  });
+
+  it('derives MACD, Bollinger bands and rate of change', () => {
+    const result = macd(rising, 2, 3, 2);
+    assert.equal(result.macd.findIndex((v) => v !== null), 2);
+    assert.equal(result.signal.findIndex((v) => v !== null), 3);
+    assert.equal(result.histogram[3], result.macd[3]! - result.signal[3]!);
+
+    const bands = bollinger([2, 2, 2, 2], 4, 2);
+    assert.deepEqual([bands.lower[3], bands.middle[3], bands.upper[3]], [2, 2, 2]);
+
+    assert.deepEqual(roc([100, 110, 121], 1).map((v) => v === null ? null : Number(v.toFixed(6))), [null, 10, 10]);
+  });
+});
+
+describe('get_indicators', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({ mock: { volatility: 0 } });
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('nests grouped indicators and reports RSI 50 for a flat price', async () => {
+    const startTime = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    const result = ok<{ latest: Record<string, unknown> }>(await h.call('get_indicators', {
+      token: 'SOL', interval: '1h', startTime, indicators: ['rsi', 'macd']
+    }));
+    assert.equal(result.latest.rsi, 50);
+    assert.deepEqual(result.latest.macd, { macd: 0, signal: 0, histogram: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger } from '../src/logger.js';
+
+describe('logger', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+  let file: string;
+  let count = 0;
+
+  /**
+   * JSON lines written to the current log file
+   */
+  function lines(): { level: string; msg: string; [field: string]: unknown }[] {
+    return fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  beforeEach(() => {
+    // Keep stderr quiet; the file sink is what the tests read
+    mock.method(process.stderr, 'write', () => true);
+    file = path.join(dir, `test-${++count}.log`);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('redacts bearer tokens and secret key/value pairs in messages', () => {
+    const logger = new Logger({ format: 'json', file });
+    logger.info('GET /api/account/balances headers: { Authorization: Bearer tok_abc.def-123 }');
+    logger.warn('Loaded profile {"name":"momentum","apiKey":"ak_live_987654"}');
+    logger.warn("password='hunter2222'");
+
+    const text = fs.readFileSync(file, 'utf8');
+    assert.doesNotMatch(text, /tok_abc|ak_live_987654|hunter2222/);
+    const [bearer, pair, password] = lines();
+    assert.match(bearer.msg, /Bearer \[REDACTED\]/);
+    assert.match(pair.msg, /"apiKey":"\[REDACTED\]"/);
+    assert.match(password.msg, /password='\[REDACTED\]'/);
+  });
+
+  it('redacts secret fields by name, including in child logger fields', () => {
+    const logger = new Logger({ format: 'json', file });
+    logger.child({ account: 'default', apiKey: 'ak_live_123456' }).info('call', { request: { authToken: 'shared-token', token: 'SOL' } });
+
+    const [line] = lines();
+    assert.equal(line.account, 'default');
+    assert.equal(line.apiKey, '[REDACTED]');
+    assert.match(line.msg, /authToken: '\[REDACTED\]'/);
+    assert.match(line.msg, /token: 'SOL'/);
+  });
+
+  it('redacts registered secrets anywhere, including error stacks', () => {
+    const logger = new Logger({ format: 'json', file });
+    logger.addSecret('k3y-registered-0001');
+    logger.addSecret('abc'); // Too short to redact by value
+
+    const error = new Error('Request with key k3y-registered-0001 failed');
+    logger.error('Trade failed:', error);
+    logger.child({ cause: error }).error('Again');
+    logger.info('abc stays readable');
+
+    const text = fs.readFileSync(file, 'utf8');
+    assert.doesNotMatch(text, /k3y-registered-0001/);
+    const [message, fields] = lines();
+    assert.match(message.msg, /Request with key \[REDACTED\] failed\n\s+at /);
+    assert.deepEqual(Object.keys(fields.cause as object), ['message', 'stack']);
+    assert.match((fields.cause as { message: string }).message, /\[REDACTED\]/);
+    assert.match(text, /abc stays readable/);
+  });
+
+  it('writes only lines at or above the configured level', () => {
+    const logger = new Logger({ level: 'warn', format: 'json', file });
+    logger.info('hidden');
+    logger.debug('hidden');
+    logger.warn('shown');
+    logger.error('shown too');
+    assert.deepEqual(lines().map((line) => line.level), ['warn', 'error']);
+    assert.equal(logger.isLevelEnabled('info'), false);
+  });
+
+  it('adds context fields to lines logged inside withContext', async () => {
+    const logger = new Logger({ format: 'json', file });
+    await logger.withContext({ callId: 'c1', tool: 'get_price' }, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    const [inside, outside] = lines();
+    assert.deepEqual([inside.callId, inside.tool], ['c1', 'get_price']);
+    assert.equal(outside.callId, undefined);
+  });
+
+  it('rotates the file past fileMaxBytes and keeps fileMaxFiles rotated files', () => {
+    const logger = new Logger({ format: 'text', file, fileMaxBytes: 300, fileMaxFiles: 2 });
+    for (let i = 0; i < 20; i++) {
+      logger.info(`line ${String(i).padStart(2, '0')} ${'x'.repeat(60)}`);
+    }
+
+    assert.ok(fs.existsSync(`${file}.1`));
+    assert.ok(fs.existsSync(`${file}.2`));
+    assert.ok(!fs.existsSync(`${file}.3`));
+    for (const name of [file, `${file}.1`, `${file}.2`]) {
+      assert.ok(fs.statSync(name).size <= 300, `${name} is ${fs.statSync(name).size} bytes`);
+    }
+
+    // The newest lines are in the live file and the oldest rotated ones are gone
+    assert.match(fs.readFileSync(file, 'utf8'), /line 19/);
+    const kept = [file, `${file}.1`, `${file}.2`].map((name) => fs.readFileSync(name, 'utf8')).join('');
+    assert.doesNotMatch(kept, /line 00/);
+  });
+
+  it('drops the file on rotation when fileMaxFiles is 0', () => {
+    const logger = new Logger({ format: 'text', file, fileMaxBytes: 150, fileMaxFiles: 0 });
+    for (let i = 0; i < 5; i++) {
+      logger.info(`line ${i} ${'y'.repeat(60)}`);
+    }
+    assert.ok(!fs.existsSync(`${file}.1`));
+    assert.match(fs.readFileSync(file, 'utf8'), /line 4/);
+  });
+});
@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockTradingSimulator } from '../src/mock-server.js';
+import { API_KEY } from './harness.js';
+
+// Error body returned by the mock
+interface MockErrorBody {
+  success: false;
+  error: { code: string; message: string };
+}
+
+describe('mock server request bodies', () => {
+  let mock: MockTradingSimulator;
+  let baseUrl: string;
+
+  /**
+   * Send a raw JSON body to a route
+   */
+  async function send(method: string, path: string, body: string): Promise<{ status: number; json: unknown }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+      body
+    });
+    return { status: response.status, json: await response.json() };
+  }
+
+  before(async () => {
+    mock = new MockTradingSimulator({ port: 0, apiKey: API_KEY });
+    baseUrl = await mock.start();
+  });
+
+  after(async () => {
+    await mock.stop();
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    const invalid = await send('PUT', '/api/account/profile', '{ nope');
+    assert.equal(invalid.status, 400);
+    assert.equal((invalid.json as MockErrorBody).error.code, 'INVALID_JSON');
+
+    const array = await send('POST', '/api/trade/execute', '[]');
+    assert.equal(array.status, 400);
+    assert.match((array.json as MockErrorBody).error.message, /must be a JSON object/);
+  });
+
+  it('rejects fields of the wrong type', async () => {
+    const profile = await send('PUT', '/api/account/profile', JSON.stringify({ metadata: 'text' }));
+    assert.equal(profile.status, 400);
+    assert.match((profile.json as MockErrorBody).error.message, /metadata must be an object/);
+
+    const trade = await send('POST', '/api/trade/execute', JSON.stringify({ fromToken: 'USDC', toToken: 'SOL', amount: 5, reason: 'typed' }));
+    assert.equal(trade.status, 400);
+    assert.match((trade.json as MockErrorBody).error.message, /amount must be a string/);
+  });
+
+  it('applies a valid profile update', async () => {
+    const updated = await send('PUT', '/api/account/profile', JSON.stringify({ contactPerson: 'Ada' }));
+    assert.equal(updated.status, 200);
+    assert.equal((updated.json as { team: { contactPerson: string } }).team.contactPerson, 'Ada');
+  });
+});
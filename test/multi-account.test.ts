@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockTradingSimulator } from '../src/mock-server.js';
+import { Harness, failed, ok, startHarness } from './harness.js';
+import type { AccountComparison, AccountRegistry } from '../src/accounts.js';
+import type { BalancesResponse, TradeResponse } from '../src/types.js';
+
+const RIVAL_API_KEY = 'test-api-key-0002';
+const USDC_SVM = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// list_accounts response
+interface AccountListResponse {
+  current: string;
+  accounts: ReturnType<AccountRegistry['list']>;
+}
+
+describe('multiple accounts', () => {
+  let rival: MockTradingSimulator;
+  let dir: string;
+  let h: Harness;
+
+  /**
+   * USDC on Solana held by an account
+   */
+  async function usdc(account?: string): Promise<number> {
+    const balances = ok<BalancesResponse>(await h.call('get_balances', account ? { account } : {}));
+    return balances.balances.find((balance) => balance.token === USDC_SVM)?.amount ?? 0;
+  }
+
+  before(async () => {
+    // The second account trades on its own simulator
+    rival = new MockTradingSimulator({ port: 0, apiKey: RIVAL_API_KEY });
+    const rivalUrl = await rival.start();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+    const accountsFile = path.join(dir, 'accounts.json');
+    fs.writeFileSync(accountsFile, JSON.stringify([{ name: 'rival', apiKeyEnv: 'RIVAL_API_KEY', apiUrl: rivalUrl }]));
+
+    h = await startHarness({ env: { TRADING_SIM_ACCOUNTS_FILE: accountsFile, RIVAL_API_KEY } });
+  });
+
+  after(async () => {
+    await h.close();
+    await rival.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts an account argument on every tool', async () => {
+    const { tools } = await h.client.listTools();
+    for (const tool of tools) {
+      const properties = tool.inputSchema.properties as Record<string, unknown>;
+      assert.ok(properties.account, `${tool.name} has no account parameter`);
+    }
+  });
+
+  it('lists the accounts with masked keys', async () => {
+    const list = ok<AccountListResponse>(await h.call('list_accounts'));
+    assert.equal(list.current, 'default');
+    assert.deepEqual(
+      list.accounts.map((account) => [account.name, account.apiKey, account.default]),
+      [['default', '****0001', true], ['rival', '****0002', false]]
+    );
+  });
+
+  it('runs a call as the named account only', async () => {
+    ok<TradeResponse>(await h.call('execute_trade', {
+      fromToken: 'USDC@svm', toToken: 'SOL', amount: '500', reason: 'rival trade', account: 'rival'
+    }));
+    assert.equal(await usdc('rival'), 9500);
+    assert.equal(await usdc(), 10000);
+  });
+
+  it('compares accounts by portfolio value', async () => {
+    const comparison = ok<{ accounts: AccountComparison[] }>(await h.call('compare_accounts'));
+    assert.deepEqual(comparison.accounts.map((row) => row.account), ['default', 'rival']);
+    assert.equal(comparison.accounts[0].totalValue, 30000);
+    assert.ok((comparison.accounts[1].totalValue ?? 0) < 30000);
+    assert.equal(comparison.accounts[0].rank, 2);
+  });
+
+  it('rejects an unknown account', async () => {
+    failed(await h.call('get_profile', { account: 'nobody' }), /Unknown account "nobody"/);
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness, waitFor } from './harness.js';
+import type { Journal } from '../src/journal.js';
+import type { ConditionalOrder, OrderManager } from '../src/orders.js';
+import type { TradeHistoryResponse, TradeResponse } from '../src/types.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+
+// place_order and cancel_order responses
+interface OrderResponse {
+  order: ConditionalOrder;
+  currentPrice?: number;
+}
+
+// list_orders response
+type OrderListResponse = Awaited<ReturnType<OrderManager['list']>>;
+
+describe('conditional orders', () => {
+  let h: Harness;
+
+  /**
+   * Current state of an order
+   */
+  async function findOrder(id: string): Promise<ConditionalOrder | undefined> {
+    const list = ok<OrderListResponse>(await h.call('list_orders'));
+    return list.orders.find((order) => order.id === id);
+  }
+
+  before(async () => {
+    h = await startHarness({
+      env: {
+        TRADING_SIM_ORDER_POLL_INTERVAL_MS: '200',
+        TRADING_SIM_CACHE_PRICE_TTL_MS: '0'
+      },
+      mock: { volatility: 0 }
+    });
+    ok<TradeResponse>(await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '1500', reason: 'seed position' }));
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('places, lists and cancels a take-profit order', async () => {
+    const placed = ok<OrderResponse>(await h.call('place_order', { type: 'take_profit', token: 'SOL', amount: '1', triggerPrice: 1000, reason: 'take profit' }));
+    assert.equal(placed.order.status, 'pending');
+    assert.equal(placed.order.token, SOL);
+    assert.equal(placed.currentPrice, 150);
+
+    const pending = ok<OrderListResponse>(await h.call('list_orders', { status: 'pending' }));
+    assert.ok(pending.watcher.running);
+    assert.ok(pending.orders.some((order) => order.id === placed.order.id));
+
+    const cancelled = ok<OrderResponse>(await h.call('cancel_order', { orderId: placed.order.id }));
+    assert.equal(cancelled.order.status, 'cancelled');
+
+    failed(await h.call('cancel_order', { orderId: placed.order.id }), /cancelled/);
+  });
+
+  it('requires a trigger price for a stop-loss order', async () => {
+    failed(await h.call('place_order', { type: 'stop_loss', token: 'SOL', amount: '1', reason: 'no trigger' }), /triggerPrice/);
+  });
+
+  it('fills a stop-loss order when the price falls through the trigger', async () => {
+    const placed = ok<OrderResponse>(await h.call('place_order', { type: 'stop_loss', token: 'SOL', amount: '1', triggerPrice: 140, reason: 'protect' }));
+
+    h.mock.setPrice(SOL, 130);
+    try {
+      await waitFor(async () => (await findOrder(placed.order.id))?.status === 'filled');
+    } finally {
+      h.mock.setPrice(SOL, 150);
+    }
+
+    const order = await findOrder(placed.order.id);
+    assert.equal(order?.triggeredPrice, 130);
+    const trades = ok<TradeHistoryResponse>(await h.call('get_trades'));
+    const sale = trades.trades.find((trade) => trade.id === order?.transactionId);
+    assert.ok(sale);
+    assert.equal(sale.fromToken, SOL);
+    assert.equal(sale.fromAmount, 1);
+
+    const journal = ok<Awaited<ReturnType<Journal['query']>>>(await h.call('query_journal', { tool: 'execute_trade' }));
+    const entry = journal.entries.find((candidate) => candidate.origin?.id === placed.order.id);
+    assert.deepEqual(entry?.origin, { type: 'order', id: placed.order.id });
+    assert.equal(entry?.success, true);
+    assert.equal((entry?.response as TradeResponse).transaction.id, order?.transactionId);
+  });
+
+  it('persists the high-water mark of a trailing stop as the price rises', async () => {
+    const placed = ok<OrderResponse>(await h.call('place_order', { type: 'trailing_stop', token: 'SOL', amount: '1', trailPercent: 10, reason: 'trail' }));
+    assert.equal(placed.order.highWaterMark, 150);
+
+    /**
+     * The order as saved in the orders file
+     */
+    const saved = (): ConditionalOrder | undefined => {
+      const orders = JSON.parse(fs.readFileSync(path.join(h.dataDir, 'orders.json'), 'utf8')) as ConditionalOrder[];
+      return orders.find((order) => order.id === placed.order.id);
+    };
+
+    h.mock.setPrice(SOL, 160);
+    try {
+      await waitFor(async () => saved()?.highWaterMark === 160);
+    } finally {
+      h.mock.setPrice(SOL, 150);
+    }
+
+    const list = ok<OrderListResponse>(await h.call('list_orders'));
+    assert.equal(list.watcher.lastError, null);
+    ok<OrderResponse>(await h.call('cancel_order', { orderId: placed.order.id }));
+  });
+});
@@ -0,0 +1,32 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, ok, startHarness, waitFor } from './harness.js';
+import type { PerformanceReport } from '../src/performance.js';
+
+describe('portfolio snapshots and performance', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({ env: { TRADING_SIM_SNAPSHOT_INTERVAL_MS: '200' } });
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('reports performance once the sampler has recorded snapshots', async () => {
+    let report: PerformanceReport | undefined;
+    await waitFor(async () => {
+      const result = await h.call('get_performance');
+      if (result.isError) return false;
+      report = ok<PerformanceReport>(result);
+      return true;
+    });
+
+    assert.ok(report);
+    assert.ok(report.window.snapshots >= 2);
+    assert.equal(report.startValue, 30000);
+    assert.equal(report.endValue, 30000);
+    assert.equal(report.returnPercent, 0);
+  });
+});
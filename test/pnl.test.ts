@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostBasisMethod, CostBasisTracker, PnlReport } from '../src/pnl.js';
+import { BlockchainType, SpecificChain, TokenPortfolioItem, TradeTransaction } from '../src/types.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC_SVM = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+// Chain of each token used in the trades below
+const CHAINS: Record<string, [BlockchainType, SpecificChain]> = {
+  [SOL]: [BlockchainType.SVM, SpecificChain.SVM],
+  [USDC_SVM]: [BlockchainType.SVM, SpecificChain.SVM],
+  [WETH]: [BlockchainType.EVM, SpecificChain.ETH]
+};
+
+/**
+ * A successful trade, timestamped in the order trades are built
+ */
+function trade(fromToken: string, fromAmount: number, toToken: string, toAmount: number): TradeTransaction {
+  const [fromChain, fromSpecificChain] = CHAINS[fromToken];
+  const [toChain, toSpecificChain] = CHAINS[toToken];
+  return {
+    id: `trade-${fromToken}-${toToken}-${fromAmount}`,
+    teamId: 'team',
+    competitionId: 'competition',
+    fromToken,
+    toToken,
+    fromAmount,
+    toAmount,
+    price: toAmount / fromAmount,
+    success: true,
+    reason: 'test',
+    timestamp: new Date().toISOString(),
+    fromChain,
+    toChain,
+    fromSpecificChain,
+    toSpecificChain
+  };
+}
+
+/**
+ * Current price of a held token
+ */
+function priced(token: string, amount: number, price: number): TokenPortfolioItem {
+  const [chain, specificChain] = CHAINS[token];
+  return { token, amount, price, value: amount * price, chain, specificChain };
+}
+
+/**
+ * Replay trades and report against current prices
+ */
+function replay(method: CostBasisMethod, trades: TradeTransaction[], prices: TokenPortfolioItem[] = []): PnlReport {
+  const tracker = new CostBasisTracker(method);
+  for (const item of trades) {
+    tracker.apply(item);
+  }
+  return tracker.report(trades.length, prices);
+}
+
+/**
+ * A token's position in a report
+ */
+function position(report: PnlReport, token: string) {
+  const found = report.byToken.find((item) => item.token === token);
+  assert.ok(found, `no position for ${token}`);
+  return found;
+}
+
+describe('cost-basis tracking', () => {
+  // Two buys at different prices, then a sale that uses all of the first lot and half of the second
+  const ladder = [
+    trade(USDC_SVM, 1000, SOL, 10),
+    trade(USDC_SVM, 2000, SOL, 10),
+    trade(SOL, 15, USDC_SVM, 3000)
+  ];
+
+  it('consumes the oldest lots first under FIFO, including a partial lot', () => {
+    const sol = position(replay('fifo', ladder, [priced(SOL, 5, 250)]), SOL);
+    assert.equal(sol.amount, 5);
+    assert.equal(sol.realizedPnl, 1000);     // 3000 - (10 × 100 + 5 × 200)
+    assert.equal(sol.costBasis, 1000);       // 5 left at 200
+    assert.equal(sol.unrealizedPnl, 250);
+    assert.equal(sol.totalPnl, 1250);
+  });
+
+  it('uses one blended unit cost under average cost', () => {
+    const sol = position(replay('average', ladder, [priced(SOL, 5, 250)]), SOL);
+    assert.equal(sol.amount, 5);
+    assert.equal(sol.averageCost, 150);
+    assert.equal(sol.realizedPnl, 750);      // 3000 - 15 × 150
+    assert.equal(sol.costBasis, 750);
+    assert.equal(sol.unrealizedPnl, 500);
+    assert.equal(sol.totalPnl, 1250);
+  });
+
+  it('carries cost through a token-to-token swap and realizes it on the sale', () => {
+    const report = replay('fifo', [
+      trade(USDC_SVM, 1500, SOL, 10),
+      trade(SOL, 4, WETH, 0.5),
+      trade(WETH, 0.5, USDC_SVM, 800)
+    ], [priced(SOL, 6, 150)]);
+
+    const sol = position(report, SOL);
+    assert.equal(sol.realizedPnl, 0);
+    assert.equal(sol.costBasis, 900);
+
+    const weth = position(report, WETH);
+    assert.equal(weth.amount, 0);
+    assert.equal(weth.realizedPnl, 200);     // 800 - the 600 carried over from SOL
+    assert.equal(report.totals.realizedPnl, 200);
+  });
+
+  it('does not count sales of untracked amounts as profit', () => {
+    const report = replay('fifo', [trade(SOL, 5, USDC_SVM, 750)]);
+    const sol = position(report, SOL);
+    assert.equal(sol.untrackedAmount, 5);
+    assert.equal(sol.realizedPnl, 0);
+    assert.ok(report.notes.some((note) => note.includes('untrackedAmount')));
+  });
+
+  // 2 SOL bought, then 4 SOL swapped: half of the WETH received has no known cost
+  const partlyUntracked = [
+    trade(USDC_SVM, 300, SOL, 2),
+    trade(SOL, 4, WETH, 0.5)
+  ];
+
+  for (const method of ['fifo', 'average'] as const) {
+    it(`gives swap proceeds of untracked amounts an unknown cost (${method})`, () => {
+      const report = replay(method, partlyUntracked, [priced(WETH, 0.5, 3000)]);
+      assert.equal(position(report, SOL).untrackedAmount, 2);
+
+      const weth = position(report, WETH);
+      assert.equal(weth.amount, 0.5);
+      assert.equal(weth.unknownCostAmount, 0.25);
+      assert.equal(weth.costBasis, 300);       // Only the tracked half carries cost
+      assert.equal(weth.averageCost, 1200);
+      assert.equal(weth.marketValue, 1500);
+      assert.equal(weth.unrealizedPnl, 450);   // 0.25 × 3000 - 300
+      assert.ok(report.notes.some((note) => note.includes('unknownCostAmount')));
+    });
+  }
+
+  it('counts only the known-cost share of a sale as realized PnL', () => {
+    const weth = position(replay('fifo', [...partlyUntracked, trade(WETH, 0.5, USDC_SVM, 1600)]), WETH);
+    assert.equal(weth.amount, 0);
+    assert.equal(weth.untrackedAmount, 0.25);
+    assert.equal(weth.realizedPnl, 500);       // 1600 × 0.5 - 300
+  });
+
+  it('ignores stablecoin-to-stablecoin trades', () => {
+    const report = replay('fifo', [trade(USDC_SVM, 100, USDC_SVM, 100)]);
+    assert.equal(report.byToken.length, 0);
+  });
+});
@@ -0,0 +1,125 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness } from './harness.js';
+import type { RebalancePlan } from '../src/rebalance.js';
+import type { BalancesResponse } from '../src/types.js';
+
+// Result of confirming a plan
+interface RebalanceResult {
+  planId: string;
+  executed: number;
+  failed: number;
+  results: { step: number; success: boolean; amount: string }[];
+}
+
+describe('portfolio rebalancing', () => {
+  let h: Harness;
+  const targets = [
+    { token: 'SOL', weightPercent: 20 },
+    { token: 'WETH', specificChain: 'eth', weightPercent: 10 }
+  ];
+
+  before(async () => {
+    h = await startHarness({ mock: { volatility: 0 } });
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('previews the trades without executing them', async () => {
+    const plan = ok<RebalancePlan>(await h.call('rebalance_portfolio', { targets, reason: 'test rebalance' }));
+    assert.equal(plan.totalValue, 30000);
+    assert.equal(plan.withinThreshold, false);
+    assert.deepEqual(plan.trades.map((trade) => [trade.fromSymbol, trade.toSymbol, trade.valueUsd]), [
+      ['USDC', 'SOL', 6000],
+      ['USDC', 'WETH', 3000]
+    ]);
+
+    const trades = ok<{ trades: unknown[] }>(await h.call('get_trades'));
+    assert.equal(trades.trades.length, 0);
+  });
+
+  it('executes a confirmed plan once, after which the portfolio is within threshold', async () => {
+    const plan = ok<RebalancePlan>(await h.call('rebalance_portfolio', { targets, reason: 'test rebalance' }));
+    const result = ok<RebalanceResult>(await h.call('rebalance_portfolio', { confirmPlanId: plan.planId }));
+    assert.equal(result.executed, 2);
+    assert.equal(result.failed, 0);
+
+    failed(await h.call('rebalance_portfolio', { confirmPlanId: plan.planId }), /not found/);
+
+    const again = ok<RebalancePlan>(await h.call('rebalance_portfolio', { targets, reason: 'test rebalance' }));
+    assert.equal(again.withinThreshold, true);
+    assert.equal(again.trades.length, 0);
+  });
+
+  it('reports a confirmation with failed trades as an error', async () => {
+    const plan = ok<RebalancePlan>(await h.call('rebalance_portfolio', {
+      targets: [{ token: 'SOL', weightPercent: 20 }, { token: 'WETH', specificChain: 'eth', weightPercent: 20 }],
+      reason: 'test partial rebalance'
+    }));
+    assert.deepEqual(plan.trades.map((trade) => [trade.fromSymbol, trade.toSymbol]), [['USDC', 'WETH']]);
+
+    // Spend the USDC the plan would sell before confirming it
+    const balances = ok<BalancesResponse>(await h.call('get_balances'));
+    const usdc = balances.balances.find((balance) => balance.token === plan.trades[0].fromToken && balance.specificChain === 'eth');
+    assert.ok(usdc);
+    ok(await h.call('execute_trade', { fromToken: 'USDC@eth', toToken: 'WETH@eth', amount: String(usdc.amount), reason: 'drain' }));
+
+    const result = failed(await h.call('rebalance_portfolio', { confirmPlanId: plan.planId }), /1 of 1 rebalance trades failed/) as Partial<RebalanceResult>;
+    assert.equal(result.executed, 0);
+    assert.equal(result.failed, 1);
+  });
+
+  it('rejects weights above 100%', async () => {
+    failed(await h.call('rebalance_portfolio', {
+      targets: [{ token: 'SOL', weightPercent: 80 }, { token: 'WETH', specificChain: 'eth', weightPercent: 30 }]
+    }), /100/);
+  });
+});
+
+describe('chain-level rebalancing', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({ mock: { volatility: 0 } });
+    ok(await h.call('execute_trade', { fromToken: 'USDC@base', toToken: 'ETH@base', amount: '1500', reason: 'seed base' }));
+    ok(await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '1500', reason: 'seed svm' }));
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('spreads a chain target over the holdings on that chain', async () => {
+    const plan = ok<RebalancePlan>(await h.call('rebalance_portfolio', {
+      targets: [{ token: 'SOL', weightPercent: 5 }],
+      chainTargets: [{ specificChain: 'base', weightPercent: 20 }],
+      reason: 'chain rebalance'
+    }));
+    assert.deepEqual(plan.trades.map((trade) => [trade.fromSymbol, trade.toSymbol, trade.toSpecificChain]), [['USDC', 'ETH', 'base']]);
+    assert.equal(plan.positions.find((position) => position.symbol === 'ETH')?.targetPercent, 20);
+    assert.equal(plan.chainTargets?.length, 1);
+    const [base] = plan.chainTargets!;
+    assert.deepEqual([base.specificChain, base.targetPercent], ['base', 20]);
+    assert.ok(Math.abs(base.currentPercent - 5) < 0.1, `base is at ${base.currentPercent}%`);
+    assert.ok(Math.abs(base.projectedDriftPercent) < 0.5, `base drifts ${base.projectedDriftPercent}%`);
+
+    const result = ok<RebalanceResult>(await h.call('rebalance_portfolio', { confirmPlanId: plan.planId }));
+    assert.equal(result.executed, 1);
+  });
+
+  it('rejects a chain target it cannot spread', async () => {
+    failed(await h.call('rebalance_portfolio', {
+      chainTargets: [{ specificChain: 'eth', weightPercent: 10 }]
+    }), /Nothing without a token target is held on eth/);
+    failed(await h.call('rebalance_portfolio', {
+      targets: [{ token: 'ETH@base', weightPercent: 30 }],
+      chainTargets: [{ specificChain: 'base', weightPercent: 20 }]
+    }), /Token targets on base add up to 30%, above its 20% chain target/);
+    failed(await h.call('rebalance_portfolio', {
+      targets: [{ token: 'SOL', weightPercent: 60 }],
+      chainTargets: [{ specificChain: 'base', weightPercent: 50 }]
+    }), /add up to 110% with the chain targets/);
+  });
+});
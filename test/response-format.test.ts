@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness } from './harness.js';
+import type { Journal } from '../src/journal.js';
+import type { TradeExportResult } from '../src/trade-export.js';
+import type { TeamProfileResponse, TradeResponse } from '../src/types.js';
+
+describe('response formats', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('renders balances as a markdown table', async () => {
+    const result = await h.call('get_balances', { format: 'markdown' });
+    assert.equal(result.isError, false);
+    assert.equal(result.data, undefined);
+    assert.match(result.text, /\*\*Balances\*\*/);
+    assert.match(result.text, /\| Token \| Chain \| Amount \|/);
+  });
+
+  it('falls back to a generic markdown layout for other tools', async () => {
+    const result = await h.call('get_health', { format: 'markdown' });
+    assert.equal(result.isError, false);
+    assert.match(result.text, /status/);
+    assert.match(result.text, /ok/);
+    assert.doesNotMatch(result.text, /^\{/);
+  });
+
+  it('returns compact JSON with only the requested fields', async () => {
+    const result = await h.call('get_profile', { format: 'compact', fields: ['team.name', 'team.email'] });
+    assert.ok(!result.text.includes('\n'));
+    assert.deepEqual(ok<Partial<TeamProfileResponse>>(result), { team: { name: 'Mock Team', email: 'mock@example.com' } });
+  });
+
+  it('rejects an unknown format', async () => {
+    failed(await h.call('get_profile', { format: 'xml' }), /format: must be one of json, compact, markdown/);
+  });
+
+  it('keeps the export format of export_trades', async () => {
+    const exported = ok<TradeExportResult>(await h.call('export_trades', { format: 'ndjson' }));
+    assert.equal(exported.format, 'ndjson');
+  });
+
+  it('journals the full response whatever the output format', async () => {
+    const trade = ok<TradeResponse>(await h.call('execute_trade', {
+      fromToken: 'USDC@svm', toToken: 'SOL', amount: '10', reason: 'format test', format: 'compact', fields: ['transaction.id']
+    }));
+    assert.deepEqual(Object.keys(trade.transaction), ['id']);
+
+    const journal = ok<Awaited<ReturnType<Journal['query']>>>(await h.call('query_journal', { tool: 'execute_trade' }));
+    const response = journal.entries[0].response as TradeResponse;
+    assert.equal(response.transaction.id, trade.transaction.id);
+    assert.equal(response.transaction.reason, 'format test');
+  });
+});
@@ -0,0 +1,119 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness } from './harness.js';
+import { TradingSimulatorClient } from '../src/api-client.js';
+import { RiskCheckResult, RiskManager } from '../src/risk.js';
+import type { TradeTransaction, TradeResponse } from '../src/types.js';
+
+/**
+ * Rules that rejected a trade
+ */
+function rules(result: Partial<RiskCheckResult>): string[] {
+  return (result.violations ?? []).map((violation) => violation.rule);
+}
+
+describe('risk guardrails', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({
+      env: {
+        TRADING_SIM_RISK_MAX_TRADE_PCT: '20',
+        TRADING_SIM_RISK_DENIED_TOKENS: 'WETH',
+        TRADING_SIM_RISK_MIN_USDC_RESERVE: '25000',
+        TRADING_SIM_RISK_MAX_DAILY_TRADES: '2'
+      },
+      mock: { volatility: 0 }
+    });
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('rejects a trade above the max share of portfolio value', async () => {
+    const result = failed(await h.call('execute_trade', {
+      fromToken: 'USDC@svm', toToken: 'SOL', amount: '7000', reason: 'too large'
+    }), /above the 20% limit/) as Partial<RiskCheckResult>;
+    assert.ok(rules(result).includes('maxTradePercent'));
+    assert.equal(result.portfolioValue, 30000);
+  });
+
+  it('rejects a token on the deny list', async () => {
+    const result = failed(await h.call('execute_trade', {
+      fromToken: 'USDC@eth', toToken: 'WETH@eth', amount: '100', reason: 'denied'
+    }), /deny list/) as Partial<RiskCheckResult>;
+    assert.deepEqual(rules(result), ['deniedTokens']);
+  });
+
+  it('rejects a trade that would spend the USDC reserve', async () => {
+    const result = failed(await h.call('execute_trade', {
+      fromToken: 'USDC@svm', toToken: 'SOL', amount: '5500', reason: 'reserve'
+    }), /below the \$25000 reserve/) as Partial<RiskCheckResult>;
+    assert.deepEqual(rules(result), ['minUsdcReserve']);
+  });
+
+  it('checks dry-run trades against the simulated balances', async () => {
+    const trade = { fromToken: 'USDC@svm', toToken: 'SOL', amount: '4000', reason: 'dry run', dryRun: true };
+    ok<TradeResponse>(await h.call('execute_trade', trade));
+
+    // Live USDC would still cover the reserve; the simulated balances don't
+    const result = failed(await h.call('execute_trade', trade), /Trade would leave \$22000 in USDC/) as Partial<RiskCheckResult>;
+    assert.deepEqual(rules(result), ['minUsdcReserve']);
+    ok(await h.call('reset_dry_run'));
+  });
+
+  it('enforces the daily trade cap for trades checked at the same time', async () => {
+    ok<TradeResponse>(await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '100', reason: 'first' }));
+
+    // Only one of two concurrent trades fits under the cap
+    const results = await Promise.all(['second', 'third'].map((reason) =>
+      h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '100', reason })
+    ));
+    assert.deepEqual(results.map((result) => result.isError).sort(), [false, true]);
+    const rejected = failed(results.find((result) => result.isError)!, /Daily trade cap reached/) as Partial<RiskCheckResult>;
+    assert.deepEqual(rules(rejected), ['maxDailyTrades']);
+
+    const trades = ok<{ trades: TradeTransaction[] }>(await h.call('get_trades'));
+    assert.equal(trades.trades.length, 2);
+  });
+});
+
+describe('daily trade cap', () => {
+  const today = new Date().toISOString();
+  const yesterday = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+
+  /**
+   * Serve a fixed trade history to every client
+   */
+  function history(trades: Pick<TradeTransaction, 'success' | 'timestamp'>[]): void {
+    mock.method(TradingSimulatorClient.prototype, 'getTradeHistory', async () => ({
+      success: true,
+      teamId: 'team',
+      trades: trades as TradeTransaction[]
+    }));
+  }
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('counts only successful trades made today', async () => {
+    history([
+      { success: false, timestamp: today },
+      { success: false, timestamp: today },
+      { success: true, timestamp: yesterday }
+    ]);
+    const check = await new RiskManager({ maxDailyTrades: 1 }).checkTrade({ fromToken: 'a', toToken: 'b', amount: '1', reason: 'cap' });
+    assert.equal(check.approved, true);
+  });
+
+  it('rejects once successful trades today reach the cap', async () => {
+    history([
+      { success: true, timestamp: today },
+      { success: false, timestamp: today }
+    ]);
+    const check = await new RiskManager({ maxDailyTrades: 1 }).checkTrade({ fromToken: 'a', toToken: 'b', amount: '1', reason: 'cap' });
+    assert.deepEqual(check.violations.map((violation) => [violation.rule, violation.actual]), [['maxDailyTrades', 1]]);
+  });
+});
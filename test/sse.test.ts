@@ -0,0 +1,186 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockTradingSimulator } from '../src/mock-server.js';
+import { API_KEY, ROOT, SERVER_ENTRY, serverEnv, waitFor } from './harness.js';
+import type { TeamProfileResponse } from '../src/types.js';
+
+const AUTH_TOKEN = 'test-sse-token';
+
+// A JSON-RPC response read from the event stream
+interface RpcResponse {
+  id: number;
+  result?: { content: { text: string }[]; isError?: boolean };
+  error?: { message: string };
+}
+
+/**
+ * A free local port
+ */
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/**
+ * Minimal MCP client over SSE: reads events from the stream and posts
+ * JSON-RPC messages to the session endpoint it announces
+ */
+class SseSession {
+  private readonly controller = new AbortController();
+  private readonly events: { event: string; data: string }[] = [];
+  private endpoint: string | null = null;
+  private nextId = 1;
+
+  constructor(private readonly baseUrl: string) {}
+
+  async open(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/sse`, {
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}` },
+      signal: this.controller.signal
+    });
+    assert.equal(response.status, 200);
+    void this.read(response.body!);
+    await waitFor(async () => this.endpoint !== null);
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+          const data = block.match(/^data: (.*)$/m)?.[1] ?? '';
+          if (event === 'endpoint') {
+            this.endpoint = new URL(data, this.baseUrl).href;
+          } else {
+            this.events.push({ event, data });
+          }
+        }
+      }
+    } catch {
+      // Aborted by close()
+    }
+  }
+
+  /**
+   * Send a JSON-RPC request and wait for its response on the stream
+   */
+  async request(method: string, params: Record<string, unknown> = {}): Promise<RpcResponse> {
+    const id = this.nextId++;
+    await this.post({ jsonrpc: '2.0', id, method, params });
+    let response: RpcResponse | undefined;
+    await waitFor(async () => {
+      response = this.events
+        .map((event) => JSON.parse(event.data) as RpcResponse)
+        .find((message) => message.id === id);
+      return response !== undefined;
+    });
+    return response!;
+  }
+
+  async post(message: Record<string, unknown>): Promise<void> {
+    const response = await fetch(this.endpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}` },
+      body: JSON.stringify(message)
+    });
+    assert.equal(response.status, 202);
+  }
+
+  close(): void {
+    this.controller.abort();
+  }
+}
+
+describe('SSE transport', () => {
+  let mock: MockTradingSimulator;
+  let server: ChildProcess;
+  let baseUrl: string;
+  let dataDir: string;
+
+  before(async () => {
+    mock = new MockTradingSimulator({ port: 0, apiKey: API_KEY });
+    const apiUrl = await mock.start();
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trading-sim-mcp-test-'));
+
+    server = spawn(process.execPath, ['--import', 'tsx', SERVER_ENTRY], {
+      cwd: ROOT,
+      stdio: 'ignore',
+      env: serverEnv({
+        TRADING_SIM_API_KEY: API_KEY,
+        TRADING_SIM_API_URL: apiUrl,
+        TRADING_SIM_DATA_DIR: dataDir,
+        TRADING_SIM_SNAPSHOT_INTERVAL_MS: '0',
+        TRADING_SIM_ORDER_POLL_INTERVAL_MS: '0',
+        TRADING_SIM_TRANSPORT: 'sse',
+        TRADING_SIM_HTTP_PORT: String(port),
+        TRADING_SIM_HTTP_AUTH_TOKEN: AUTH_TOKEN
+      })
+    });
+    await waitFor(async () => {
+      try {
+        return (await fetch(`${baseUrl}/health`)).ok;
+      } catch {
+        return false;
+      }
+    }, 20000);
+  });
+
+  after(async () => {
+    server.kill();
+    await new Promise((resolve) => server.once('exit', resolve));
+    await mock.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('serves health without a token and refuses the stream without one', async () => {
+    const health = await (await fetch(`${baseUrl}/health`)).json() as { status: string; transport: string };
+    assert.deepEqual([health.status, health.transport], ['ok', 'sse']);
+
+    const refused = await fetch(`${baseUrl}/sse`, { headers: { Authorization: 'Bearer wrong' } });
+    assert.equal(refused.status, 401);
+  });
+
+  it('runs tool calls for several sessions at once', async () => {
+    const sessions = [new SseSession(baseUrl), new SseSession(baseUrl)];
+    try {
+      for (const session of sessions) {
+        await session.open();
+        const init = await session.request('initialize', {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'trading-simulator-mcp-tests', version: '0.1.0' }
+        });
+        assert.ok(init.result);
+        await session.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      }
+
+      const health = await (await fetch(`${baseUrl}/health`)).json() as { sessions: number };
+      assert.equal(health.sessions, 2);
+
+      for (const session of sessions) {
+        const response = await session.request('tools/call', { name: 'get_profile', arguments: {} });
+        assert.equal(response.result?.isError, false);
+        const profile = JSON.parse(response.result!.content[0].text) as TeamProfileResponse;
+        assert.equal(profile.team.name, 'Mock Team');
+      }
+    } finally {
+      sessions.forEach((session) => session.close());
+    }
+  });
+});
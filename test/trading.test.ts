@@ -0,0 +1,214 @@
+import fs from 'fs';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, failed, ok, startHarness } from './harness.js';
+import type { BacktestFill } from '../src/backtest.js';
+import type { BatchPriceItem, BatchResponse } from '../src/batch.js';
+import type { DryRunSimulator, DryRunTradeResponse } from '../src/dry-run.js';
+import type { Journal } from '../src/journal.js';
+import type { PnlReport } from '../src/pnl.js';
+import type { TradeExportResult } from '../src/trade-export.js';
+import type {
+  BalancesResponse,
+  PriceHistoryResponse,
+  PriceResponse,
+  QuoteResponse,
+  TokenInfoResponse,
+  TradeHistoryResponse,
+  TradeResponse
+} from '../src/types.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC_SVM = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// get_indicators response with output "latest"
+interface IndicatorsResponse {
+  points: number;
+  latest: { sma: number; rsi: number; macd: Record<string, number> };
+}
+
+// run_backtest response (summary and fills only)
+interface BacktestResponse {
+  summary: { startValue: number; fills: number; roundTrips: number; openPosition: { amount: number; entryPrice: number } | null };
+  fills: BacktestFill[];
+}
+
+// query_journal response
+type JournalResponse = Awaited<ReturnType<Journal['query']>>;
+
+/**
+ * Amount of a token in a get_balances response
+ */
+function balanceOf(balances: BalancesResponse, token: string): number {
+  return balances.balances.find((balance) => balance.token === token)?.amount ?? 0;
+}
+
+describe('price and trading tools', () => {
+  let h: Harness;
+  const endTime = new Date().toISOString();
+  const startTime = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString();
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(async () => {
+    await h.close();
+  });
+
+  it('resolves symbols to prices and token info', async () => {
+    const price = ok<PriceResponse>(await h.call('get_price', { token: 'SOL' }));
+    assert.equal(price.token, SOL);
+    assert.ok((price.price ?? 0) > 0);
+
+    const info = ok<TokenInfoResponse>(await h.call('get_token_info', { token: 'SOL' }));
+    assert.equal(info.symbol, 'SOL');
+    assert.equal(info.chain, 'svm');
+  });
+
+  it('asks for a chain when a symbol is ambiguous', async () => {
+    failed(await h.call('get_price', { token: 'USDC' }), /USDC/);
+  });
+
+  it('returns price history and indicators over it', async () => {
+    const history = ok<PriceHistoryResponse>(await h.call('get_price_history', { token: 'SOL', interval: '1h', startTime, endTime }));
+    assert.ok(history.history.length > 0);
+
+    const indicators = ok<IndicatorsResponse>(await h.call('get_indicators', {
+      token: 'SOL', interval: '1h', indicators: ['sma', 'rsi', 'macd'], startTime, endTime
+    }));
+    assert.equal(indicators.points, history.history.length);
+    assert.equal(typeof indicators.latest.sma, 'number');
+    assert.equal(typeof indicators.latest.rsi, 'number');
+    assert.deepEqual(Object.keys(indicators.latest.macd), ['macd', 'signal', 'histogram']);
+  });
+
+  it('prices and quotes several tokens in one call', async () => {
+    const prices = ok<BatchResponse<BatchPriceItem>>(await h.call('get_prices', { tokens: [{ token: 'SOL' }, { token: 'WETH@eth' }, { token: 'NOPE' }] }));
+    assert.equal(prices.count, 3);
+    assert.equal(prices.succeeded, 2);
+    assert.equal(prices.failed, 1);
+    assert.deepEqual(prices.results.map((item) => item.success), [true, true, false]);
+
+    const quotes = ok<BatchResponse<QuoteResponse>>(await h.call('get_quotes', {
+      legs: [
+        { fromToken: 'USDC@svm', toToken: 'SOL', amount: '100' },
+        { fromToken: 'USDC@eth', toToken: 'WETH@eth', amount: '100' }
+      ]
+    }));
+    assert.equal(quotes.succeeded, 2);
+  });
+
+  it('quotes a trade without executing it', async () => {
+    const quote = ok<QuoteResponse>(await h.call('get_quote', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '100' }));
+    assert.equal(quote.fromAmount, 100);
+    assert.ok(quote.toAmount > 0);
+
+    const balances = ok<BalancesResponse>(await h.call('get_balances'));
+    assert.equal(balanceOf(balances, USDC_SVM), 10000);
+  });
+
+  it('rejects invalid trade arguments before calling the API', async () => {
+    failed(
+      await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: 'lots', reason: 'test' }),
+      /Invalid arguments for execute_trade[\s\S]*amount/
+    );
+    failed(await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '10' }), /reason/);
+  });
+
+  it('simulates a dry-run trade without touching the account', async () => {
+    const trade = ok<DryRunTradeResponse>(
+      await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '100', reason: 'dry run test', dryRun: true })
+    );
+    assert.equal(trade.dryRun, true);
+
+    type DryRunState = ReturnType<DryRunSimulator['getState']>;
+    const state = ok<DryRunState>(await h.call('get_dry_run_state'));
+    assert.equal(state.trades.length, 1);
+
+    ok(await h.call('reset_dry_run'));
+    const cleared = ok<DryRunState>(await h.call('get_dry_run_state'));
+    assert.equal(cleared.trades.length, 0);
+
+    const trades = ok<TradeHistoryResponse>(await h.call('get_trades'));
+    assert.equal(trades.trades.length, 0);
+  });
+
+  it('executes a trade and updates balances, trade history and P&L', async () => {
+    const trade = ok<TradeResponse>(await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '1000', reason: 'test buy' }));
+    assert.equal(trade.transaction.fromAmount, 1000);
+    assert.equal(trade.transaction.toToken, SOL);
+
+    const balances = ok<BalancesResponse>(await h.call('get_balances'));
+    assert.equal(balanceOf(balances, USDC_SVM), 9000);
+    assert.ok(balanceOf(balances, SOL) > 0);
+
+    const trades = ok<TradeHistoryResponse>(await h.call('get_trades'));
+    assert.equal(trades.trades.length, 1);
+
+    const pnl = ok<PnlReport>(await h.call('get_pnl'));
+    assert.equal(pnl.tradesProcessed, 1);
+    assert.equal(pnl.totals.costBasis, 1000);
+    assert.equal(pnl.byToken[0].token, SOL);
+  });
+
+  it('classifies a trade larger than the balance', async () => {
+    const error = failed(
+      await h.call('execute_trade', { fromToken: 'USDC@svm', toToken: 'SOL', amount: '1000000', reason: 'too big' }),
+      /balance/i
+    );
+    assert.equal(error.kind, 'insufficient_balance');
+    assert.equal(error.retryable, false);
+  });
+
+  it('explains that performance needs portfolio snapshots', async () => {
+    failed(await h.call('get_performance'), /snapshots/);
+  });
+
+  it('journals tool calls with the full response of trades', async () => {
+    const journal = ok<JournalResponse>(await h.call('query_journal', { tool: 'execute_trade' }));
+    assert.ok(journal.entries.length >= 1);
+    assert.ok(journal.entries.every((entry) => entry.tool === 'execute_trade'));
+    assert.ok(journal.file?.startsWith(h.dataDir));
+
+    const latest = journal.entries[0];
+    assert.equal(latest.success, false);
+    assert.deepEqual(latest.arguments, { fromToken: 'USDC@svm', toToken: 'SOL', amount: '1000000', reason: 'too big' });
+
+    const filled = journal.entries.find((entry) => entry.success && entry.arguments.reason === 'test buy');
+    assert.ok(filled);
+    assert.equal((filled.response as TradeResponse).transaction.reason, 'test buy');
+  });
+
+  it('exports the trade history to a file in the data directory', async () => {
+    const csv = ok<TradeExportResult>(await h.call('export_trades'));
+    assert.equal(csv.format, 'csv');
+    assert.equal(csv.summary.trades, 1);
+    assert.ok(csv.file.startsWith(h.dataDir));
+    const lines = fs.readFileSync(csv.file, 'utf8').trim().split('\n');
+    assert.equal(lines.length, 2);
+    assert.match(lines[1], /test buy/);
+
+    const ndjson = ok<TradeExportResult>(await h.call('export_trades', { format: 'ndjson' }));
+    const rows = fs.readFileSync(ndjson.file, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as { reason: string });
+    assert.deepEqual(rows.map((row) => row.reason), ['test buy']);
+  });
+
+  it('backtests a strategy over price history', async () => {
+    const result = ok<BacktestResponse>(await h.call('run_backtest', {
+      token: 'SOL',
+      interval: '1h',
+      startTime,
+      endTime,
+      entry: [{ indicator: 'price', operator: '>', value: 0 }],
+      exit: [{ indicator: 'price', operator: '<', value: 0 }]
+    }));
+    assert.equal(result.summary.startValue, 10000);
+    assert.equal(result.summary.fills, 1);
+    assert.equal(result.fills[0].side, 'buy');
+    assert.equal(result.summary.roundTrips, 0);
+    assert.ok(result.summary.openPosition);
+
+    failed(await h.call('run_backtest', { token: 'SOL', interval: '1h', startTime, endTime, entry: [] }), /entry/);
+  });
+});